@@ -24,7 +24,7 @@ export default class ConnectionFactory {
     let connection: ConnectionToHeroCore;
     if (options.host) {
       const transport = new WsTransportToCore(options.host);
-      connection = new ConnectionToHeroCore(transport);
+      connection = new ConnectionToHeroCore(transport, options);
     } else {
       const host =
         UlixeeConfig.load()?.defaultMinerHost ??
@@ -4,10 +4,14 @@ import ICoreConfigureOptions from '@ulixee/hero-interfaces/ICoreConfigureOptions
 import { ConnectionToCore, WsTransportToCore } from '@ulixee/net';
 import ICoreListenerPayload from '@ulixee/hero-interfaces/ICoreListenerPayload';
 import ITransportToCore from '@ulixee/net/interfaces/ITransportToCore';
-import ICoreCommandRequestPayload from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
+import ICoreCommandRequestPayload, {
+  ICoreBatchCommand,
+} from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
 import DisconnectedError from '@ulixee/net/errors/DisconnectedError';
 import ICoreResponsePayload from '@ulixee/net/interfaces/ICoreResponsePayload';
-import IConnectionToCoreOptions from '../interfaces/IConnectionToCoreOptions';
+import IConnectionToCoreOptions, {
+  IReconnectOptions,
+} from '../interfaces/IConnectionToCoreOptions';
 import CoreCommandQueue from '../lib/CoreCommandQueue';
 import CoreSession from '../lib/CoreSession';
 import CoreSessions from '../lib/CoreSessions';
@@ -16,11 +20,20 @@ import { scriptInstance } from '../lib/internal';
 
 const { log } = Log(module);
 
+const defaultReconnectOptions: IReconnectOptions = {
+  maxAttempts: 8,
+  initialDelayMillis: 500,
+  maxDelayMillis: 30e3,
+  backoffFactor: 2,
+  sessionTimeoutMillis: 120e3,
+};
+
 export default class ConnectionToHeroCore extends ConnectionToCore<any, {}> {
   public readonly commandQueue: CoreCommandQueue;
   public options: IConnectionToCoreOptions;
 
   private coreSessions: CoreSessions;
+  private reconnectPromise: Promise<boolean>;
 
   constructor(
     transport: ITransportToCore<any, any, ICoreCommandRequestPayload>,
@@ -41,11 +54,22 @@ export default class ConnectionToHeroCore extends ConnectionToCore<any, {}> {
 
   ///////  SESSION FUNCTIONS  //////////////////////////////////////////////////////////////////////////////////////////
 
-  public override sendRequest(
+  public override async sendRequest(
     payload: Omit<ICoreCommandRequestPayload, 'messageId' | 'sendTime'>,
     timeoutMs?: number,
   ): Promise<ICoreResponsePayload<any, any>['data']> {
-    return super.sendRequest(payload, timeoutMs);
+    if (this.reconnectPromise && !this.disconnectPromise) await this.reconnectPromise;
+    try {
+      return await super.sendRequest(payload, timeoutMs);
+    } catch (error) {
+      // requests in flight when the connection dropped are resent once it's re-established
+      if (error instanceof DisconnectedError && this.reconnectPromise && !this.disconnectPromise) {
+        if (await this.reconnectPromise) {
+          return await super.sendRequest(toReplay(payload), timeoutMs);
+        }
+      }
+      throw error;
+    }
   }
 
   public override hasActiveSessions(): boolean {
@@ -69,15 +93,15 @@ export default class ConnectionToHeroCore extends ConnectionToCore<any, {}> {
     await this.commandQueue.run('Core.logUnhandledError', error);
   }
 
+  public async reportQueuedSessions(count: number): Promise<void> {
+    await this.commandQueue.run('Core.reportQueuedSessions', count);
+  }
+
   protected async afterConnect(): Promise<void> {
-    const connectOptions = <ICoreConfigureOptions>{
-      dataDir: this.options.dataDir,
-      version: this.options.version,
-    };
     const connectResult = await this.sendRequest({
       startTime: super.connectStartTime,
       command: 'Core.connect',
-      args: [connectOptions],
+      args: [this.getConnectOptions()],
     });
     if (connectResult) {
       const { maxConcurrency } = connectResult;
@@ -126,6 +150,25 @@ export default class ConnectionToHeroCore extends ConnectionToCore<any, {}> {
     }
   }
 
+  protected override async onConnectionTerminated(): Promise<void> {
+    if (this.isConnectionTerminated) return;
+    if (this.reconnectPromise) {
+      // a replacement transport dropped during the reconnect handshake
+      this.pendingMessages.cancel(new DisconnectedError(this.transport.host));
+      return;
+    }
+    if (!this.canReconnect()) return await super.onConnectionTerminated();
+
+    this.reconnectPromise = this.reconnect();
+    // pending requests will be replayed by sendRequest once reconnected
+    this.pendingMessages.cancel(new DisconnectedError(this.transport.host));
+    if (await this.reconnectPromise) {
+      this.reconnectPromise = null;
+      return;
+    }
+    if (!this.disconnectPromise) await super.onConnectionTerminated();
+  }
+
   protected override onEvent(payload: ICoreListenerPayload): void {
     const { meta, listenerId, data, lastCommandId } = payload;
     const session = this.getSession(meta.sessionId);
@@ -133,8 +176,92 @@ export default class ConnectionToHeroCore extends ConnectionToCore<any, {}> {
     this.emit('event', payload);
   }
 
+  private getConnectOptions(): ICoreConfigureOptions {
+    const connectOptions = <ICoreConfigureOptions & { sessionReattachTimeoutMillis?: number }>{
+      dataDir: this.options.dataDir,
+      version: this.options.version,
+    };
+    if (this.options.reconnect) {
+      connectOptions.sessionReattachTimeoutMillis = this.getReconnectOptions().sessionTimeoutMillis;
+    }
+    return connectOptions;
+  }
+
+  private getReconnectOptions(): IReconnectOptions {
+    const { reconnect } = this.options;
+    return { ...defaultReconnectOptions, ...(typeof reconnect === 'object' ? reconnect : {}) };
+  }
+
+  private canReconnect(): boolean {
+    // only a websocket to a remote Core can be re-dialed
+    return (
+      !!this.options.reconnect &&
+      this.transport instanceof WsTransportToCore &&
+      !this.disconnectPromise &&
+      this.connectPromise?.isResolved === true
+    );
+  }
+
+  private async reconnect(): Promise<boolean> {
+    const { host } = this.transport;
+    const options = this.getReconnectOptions();
+    log.warn('ConnectionToCore.Reconnecting', { host, sessionId: null });
+
+    let delay = options.initialDelayMillis;
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt += 1) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * options.backoffFactor, options.maxDelayMillis);
+      if (this.disconnectPromise) return false;
+
+      const transport = new WsTransportToCore(host);
+      try {
+        await transport.connect();
+        this.events.close();
+        this.transport = transport;
+        this.events.once(transport, 'disconnected', this.onConnectionTerminated.bind(this));
+        this.events.on(transport, 'message', this.onMessage.bind(this));
+
+        await super.sendRequest({ command: 'Core.connect', args: [this.getConnectOptions()] });
+        await Promise.all(this.coreSessions.getAll().map(x => this.reattachSession(x)));
+        log.info('ConnectionToCore.Reconnected', { host, attempt, sessionId: null });
+        return true;
+      } catch (error) {
+        log.warn('ConnectionToCore.ReconnectFailed', { host, attempt, error, sessionId: null });
+        await transport.disconnect();
+      }
+    }
+    return false;
+  }
+
+  private async reattachSession(coreSession: CoreSession): Promise<void> {
+    const { sessionId, reattachToken } = coreSession;
+    try {
+      await super.sendRequest({
+        command: 'Core.reattachSession',
+        args: [sessionId, reattachToken],
+      });
+    } catch (error) {
+      // the connection dropped again, so the whole reconnect attempt is retried
+      if (!this.transport.isConnected) throw error;
+
+      log.warn('ConnectionToCore.ReattachSessionFailed', { error, sessionId });
+      coreSession.close(true).catch(() => null);
+    }
+  }
+
   public static remote(address: string): ConnectionToHeroCore {
     const transport = new WsTransportToCore(address);
     return new ConnectionToHeroCore(transport);
   }
 }
+
+function toReplay(
+  payload: Omit<ICoreCommandRequestPayload, 'messageId' | 'sendTime'>,
+): Omit<ICoreCommandRequestPayload, 'messageId' | 'sendTime'> {
+  const replay = { ...payload, isReplay: true };
+  if (payload.command === 'Core.runBatch') {
+    const commands = payload.args[0] as ICoreBatchCommand[];
+    replay.args = [commands.map(x => ({ ...x, isReplay: true }))];
+  }
+  return replay;
+}
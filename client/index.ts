@@ -31,12 +31,19 @@ import { Command } from './interfaces/IInteractions';
 import { Hero, HeroReplay, FrameEnvironment, Tab, Resource, WebsocketResource } from './lib/extendables';
 import ConnectionToHeroCore from './connections/ConnectionToHeroCore';
 import DetachedElement from './lib/DetachedElement';
+import FlowCommandRetriesExhaustedError from './lib/FlowCommandRetriesExhaustedError';
+import PageDefinition, { definePage } from './lib/PageDefinition';
+import PageObject from './lib/PageObject';
 
 export default Hero;
 
 export {
   HeroReplay,
   DetachedElement,
+  FlowCommandRetriesExhaustedError,
+  definePage,
+  PageDefinition,
+  PageObject,
   Command,
   ConnectionToHeroCore,
   InteractionCommand,
@@ -6,4 +6,15 @@ export default interface IConnectionToCoreOptions
   host?: string | Promise<string>;
   maxConcurrency?: number;
   instanceTimeoutMillis?: number;
+  reconnect?: boolean | IReconnectOptions;
+}
+
+export interface IReconnectOptions {
+  maxAttempts?: number;
+  initialDelayMillis?: number;
+  maxDelayMillis?: number;
+  // multiplier applied to the delay after each failed attempt
+  backoffFactor?: number;
+  // how long Core keeps the sessions of a dropped connection running while waiting to reattach
+  sessionTimeoutMillis?: number;
 }
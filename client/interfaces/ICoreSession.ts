@@ -1,6 +1,7 @@
 import IDataSnippet from '@ulixee/hero-interfaces/IDataSnippet';
 import IDetachedElement from '@ulixee/hero-interfaces/IDetachedElement';
 import IDetachedResource from '@ulixee/hero-interfaces/IDetachedResource';
+import IDetachedPdf from '@ulixee/hero-interfaces/IDetachedPdf';
 
 // This interface exists for DataboxInternal to import
 
@@ -8,9 +9,10 @@ export default interface ICoreSession {
   sessionId: string;
   setSnippet(key: string, value: any): Promise<void>;
   getSnippets(sessionId: string, key: string): Promise<IDataSnippet[]>;
-  getCollectedAssetNames(sessionId: string): Promise<{ resources: string[]; elements: string[]; snippets: string[] }>;
+  getCollectedAssetNames(sessionId: string): Promise<{ resources: string[]; elements: string[]; snippets: string[]; pdfs: string[] }>;
   getDetachedElements(sessionId: string, name: string): Promise<IDetachedElement[]>;
   getDetachedResources(sessionId: string, name: string): Promise<IDetachedResource[]>;
+  getDetachedPdfs(sessionId: string, name: string): Promise<IDetachedPdf[]>;
   recordOutput(changes: IOutputChangeToRecord[]): void
 }
 
@@ -1,5 +1,6 @@
 import IDomState from '@ulixee/hero-interfaces/IDomState';
 import ISourceCodeLocation from '@ulixee/commons/interfaces/ISourceCodeLocation';
+import IFlowHandlerOptions from '@ulixee/hero-interfaces/IFlowHandlerOptions';
 import DomState from '../lib/DomState';
 
 export default interface IFlowHandler {
@@ -8,4 +9,13 @@ export default interface IFlowHandler {
   state: IDomState | DomState;
   handlerFn: (error?: Error) => Promise<any>;
   callsitePath: ISourceCodeLocation[];
+  options?: IFlowHandlerOptions;
+  flowCommandId?: number;
+  triggerCount?: number;
+}
+
+export interface IRegisteredFlowHandler {
+  id: number;
+  name: string;
+  unregister(): Promise<void>;
 }
@@ -0,0 +1,67 @@
+import { ISuperNode } from 'awaited-dom/base/interfaces/super';
+import IDomState, { IDomStateAssertions } from '@ulixee/hero-interfaces/IDomState';
+import IFlowCommandOptions from '@ulixee/hero-interfaces/IFlowCommandOptions';
+import Tab from '../lib/Tab';
+import DomState from '../lib/DomState';
+
+export type IPageElementSelector = string | ((tab: Tab) => any);
+
+export type IPageElements<TElements extends IPageElementsDefinition> = {
+  readonly [K in keyof TElements]: TElements[K] extends (tab: Tab) => infer R ? R : ISuperNode;
+};
+
+export interface IPageElementsDefinition {
+  [name: string]: IPageElementSelector;
+}
+
+export interface IPageContext<TElements extends IPageElementsDefinition> {
+  readonly tab: Tab;
+  readonly elements: IPageElements<TElements>;
+}
+
+export type IPageStateAllFn<TElements extends IPageElementsDefinition> = (
+  assert: IDomStateAssertions,
+  page: IPageContext<TElements>,
+) => void;
+
+export type IPageStatesDefinition<TElements extends IPageElementsDefinition> = {
+  [name: string]: IPageStateAllFn<TElements> | IDomState | DomState;
+};
+
+export type IPageActionFn<TElements extends IPageElementsDefinition> = (
+  page: IPageContext<TElements>,
+  ...args: any[]
+) => Promise<any>;
+
+export interface IPageActionWithOptions<TElements extends IPageElementsDefinition>
+  extends Omit<IFlowCommandOptions, 'exitState'> {
+  run: IPageActionFn<TElements>;
+  // name of a page state that must match when the action completes
+  exitState?: string;
+}
+
+export interface IPageActionsDefinition<TElements extends IPageElementsDefinition> {
+  [name: string]: IPageActionFn<TElements> | IPageActionWithOptions<TElements>;
+}
+
+export type IPageActions<TActions> = {
+  readonly [K in keyof TActions]: TActions[K] extends {
+    run: (page: any, ...args: infer A) => infer R;
+  }
+    ? (...args: A) => R
+    : TActions[K] extends (page: any, ...args: infer A) => infer R
+    ? (...args: A) => R
+    : never;
+};
+
+export default interface IPageDefinition<
+  TElements extends IPageElementsDefinition,
+  TStates extends IPageStatesDefinition<TElements>,
+  TActions extends IPageActionsDefinition<TElements>,
+> {
+  name?: string;
+  url?: string | RegExp;
+  elements?: TElements;
+  states?: TStates;
+  actions?: TActions;
+}
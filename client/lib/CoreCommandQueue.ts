@@ -2,16 +2,26 @@ import ISessionMeta from '@ulixee/hero-interfaces/ISessionMeta';
 import SourceLoader from '@ulixee/commons/lib/SourceLoader';
 import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEvent';
 import Queue from '@ulixee/commons/lib/Queue';
-import ICoreCommandRequestPayload from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
+import Resolvable from '@ulixee/commons/lib/Resolvable';
+import ICoreCommandRequestPayload, {
+  ICoreBatchCommand,
+  ICoreBatchCommandResult,
+} from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
 import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
 import DisconnectedError from '@ulixee/net/errors/DisconnectedError';
+import { AsyncLocalStorage } from 'async_hooks';
 import ConnectionToHeroCore from '../connections/ConnectionToHeroCore';
 import { convertJsPathArgs } from './SetupAwaitedHandler';
+import { ILiveQuery } from './LiveAwaitedPath';
 import ICommandCounter from '../interfaces/ICommandCounter';
 import { scriptInstance } from './internal';
 
+type IBatch = { commands: { command: ICoreBatchCommand; resolvable: Resolvable<any> }[] };
+
 export default class CoreCommandQueue {
   public static maxCommandRetries = 3;
+  // commands that wait on the page would hold up the results of every other command in a batch
+  public static unbatchedCommandRegex = /\.(waitFor|goto|goBack|goForward|reload)/;
 
   public mode: ISessionCreateOptions['mode'];
   public get lastCommandId(): number {
@@ -53,14 +63,15 @@ export default class CoreCommandQueue {
     interceptQueue?: Queue;
     lastCommand?: Pick<
       ICoreCommandRequestPayload,
-      'command' | 'commandId' | 'args' | 'callsite' | 'meta' | 'startTime'
-    >;
+      'command' | 'commandId' | 'args' | 'callsite' | 'meta' | 'startTime' | 'liveQueryResolution'
+    > & { liveQuery?: ILiveQuery };
     retryingCommand?: CoreCommandQueue['internalState']['lastCommand'];
     commandRetryHandlerFns: ((
       command: CoreCommandQueue['internalState']['lastCommand'],
       error: Error,
     ) => Promise<boolean>)[];
     commandMetadata?: Record<string, any>;
+    batchStorage?: AsyncLocalStorage<IBatch>;
     isCheckingForRetry: boolean;
     shouldRetryCommands: boolean;
   };
@@ -133,6 +144,15 @@ export default class CoreCommandQueue {
     });
   }
 
+  public async batch<T>(batchFn: () => Promise<T>): Promise<T> {
+    // only commands issued from inside batchFn are batched, so concurrent callers aren't pulled in
+    this.internalState.batchStorage ??= new AsyncLocalStorage();
+    // nested batches join the outer one
+    if (this.internalState.batchStorage.getStore()) return await batchFn();
+
+    return await this.internalState.batchStorage.run({ commands: [] }, batchFn);
+  }
+
   public record(command: { command: string; args: any[]; commandId?: number }): void {
     this.internalState.commandsToRecord.push({
       ...command,
@@ -182,6 +202,34 @@ export default class CoreCommandQueue {
   }
 
   public run<T>(command: string, ...args: any[]): Promise<T> {
+    return this.runCommand<T>(command, args);
+  }
+
+  // runs a command on a liveQuery path, so it can be retried if the path's node goes missing
+  public runLiveQuery<T>(liveQuery: ILiveQuery, command: string, ...args: any[]): Promise<T> {
+    return this.runCommand<T>(command, args, liveQuery);
+  }
+
+  public willStop(): void {
+    this.internalQueue.willStop();
+  }
+
+  public stop(cancelError: CanceledPromiseError): void {
+    clearTimeout(this.flushOnTimeout);
+    this.internalQueue.stop(cancelError);
+  }
+
+  public createSharedQueue(meta: ISessionMeta & { sessionName: string }): CoreCommandQueue {
+    return new CoreCommandQueue(
+      meta,
+      this.mode,
+      this.connection,
+      this.commandCounter,
+      this.internalState,
+    );
+  }
+
+  private runCommand<T>(command: string, args: any[], liveQuery?: ILiveQuery): Promise<T> {
     clearTimeout(this.flushOnTimeout);
     this.flushOnTimeout = null;
 
@@ -214,27 +262,21 @@ export default class CoreCommandQueue {
       ...(this.internalState.commandMetadata ?? {}),
     };
 
-    return this.internalQueue
-      .run<T>(async () => {
-        const recordCommands = [...this.internalState.commandsToRecord];
-        this.internalState.commandsToRecord.length = 0;
-
-        this.internalState.lastCommand = {
-          meta: this.meta,
-          ...commandPayload,
-        };
-
-        this.commandCounter?.emitter.emit('command', command, commandId, args);
+    const batch = this.internalState.batchStorage?.getStore();
+    let commandPromise: Promise<T>;
+    if (batch && !CoreCommandQueue.unbatchedCommandRegex.test(command)) {
+      commandPromise = this.addToBatch<T>(batch, commandPayload);
+    } else {
+      // keep the order commands were issued in
+      if (batch) void this.sendBatch(batch);
+      commandPromise = this.sendCommand<T>(commandPayload);
+    }
 
-        return await this.sendRequest<T>({
-          ...commandPayload,
-          recordCommands,
-        });
-      })
+    return commandPromise
       .catch(error => {
         if (error instanceof DisconnectedError) throw error;
 
-        this.internalState.retryingCommand = commandPayload;
+        this.internalState.retryingCommand = { ...commandPayload, liveQuery };
         return this.tryRetryCommand<T>(error);
       })
       .catch(error => {
@@ -258,23 +300,73 @@ export default class CoreCommandQueue {
       });
   }
 
-  public willStop(): void {
-    this.internalQueue.willStop();
+  private sendCommand<T>(commandPayload: Omit<ICoreBatchCommand, 'meta'>): Promise<T> {
+    return this.internalQueue.run<T>(async () => {
+      const recordCommands = [...this.internalState.commandsToRecord];
+      this.internalState.commandsToRecord.length = 0;
+
+      this.internalState.lastCommand = {
+        meta: this.meta,
+        ...commandPayload,
+      };
+
+      const { command, commandId, args } = commandPayload;
+      this.commandCounter?.emitter.emit('command', command, commandId, args);
+
+      return await this.sendRequest<T>({
+        ...commandPayload,
+        recordCommands,
+      });
+    });
   }
 
-  public stop(cancelError: CanceledPromiseError): void {
-    clearTimeout(this.flushOnTimeout);
-    this.internalQueue.stop(cancelError);
+  private addToBatch<T>(batch: IBatch, command: Omit<ICoreBatchCommand, 'meta'>): Promise<T> {
+    const resolvable = new Resolvable<T>();
+    batch.commands.push({ command: { meta: this.meta, ...command }, resolvable });
+    // a tick runs once pending promise callbacks are done, so it collects every command issued
+    // together (eg, in a Promise.all) without adding a turn of the event loop
+    if (batch.commands.length === 1) {
+      process.nextTick(() => void this.sendBatch(batch));
+    }
+    return resolvable.promise;
   }
 
-  public createSharedQueue(meta: ISessionMeta & { sessionName: string }): CoreCommandQueue {
-    return new CoreCommandQueue(
-      meta,
-      this.mode,
-      this.connection,
-      this.commandCounter,
-      this.internalState,
-    );
+  private async sendBatch(batch: IBatch): Promise<void> {
+    const pending = batch.commands.splice(0, batch.commands.length);
+    if (!pending.length) return;
+
+    try {
+      if (pending.length === 1) {
+        const [{ command, resolvable }] = pending;
+        resolvable.resolve(await this.sendCommand(command));
+        return;
+      }
+
+      const results = await this.internalQueue.run(async () => {
+        const recordCommands = [...this.internalState.commandsToRecord];
+        this.internalState.commandsToRecord.length = 0;
+
+        const commands = pending.map(x => x.command);
+        this.internalState.lastCommand = commands[commands.length - 1];
+        for (const { command, commandId, args } of commands) {
+          this.commandCounter?.emitter.emit('command', command, commandId, args);
+        }
+
+        return await this.sendRequest<ICoreBatchCommandResult[]>({
+          command: 'Core.runBatch',
+          args: [commands],
+          startTime: Date.now(),
+          recordCommands,
+        });
+      });
+      for (let i = 0; i < pending.length; i += 1) {
+        const { data, error } = results?.[i] ?? {};
+        if (error) pending[i].resolvable.reject(error);
+        else pending[i].resolvable.resolve(data);
+      }
+    } catch (error) {
+      for (const { resolvable } of pending) resolvable.reject(error);
+    }
   }
 
   private async sendRequest<T>(
@@ -303,11 +395,11 @@ export default class CoreCommandQueue {
       );
       if (!shouldRetry) break;
 
+      const retryingCommand = { ...this.internalState.retryingCommand, retryNumber };
+      // liveQuery only tells the retry handlers how a command was built, so it's not sent to core
+      delete retryingCommand.liveQuery;
       try {
-        return await this.sendRequest<T>({
-          ...this.internalState.retryingCommand,
-          retryNumber,
-        });
+        return await this.sendRequest<T>(retryingCommand);
       } catch (nestedError) {
         lastError = nestedError;
       }
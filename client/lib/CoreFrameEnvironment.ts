@@ -26,9 +26,11 @@ import { IElementIsolate, INodeIsolate } from 'awaited-dom/base/interfaces/isola
 import { ISuperElement } from 'awaited-dom/base/interfaces/super';
 import TimeoutError from '@ulixee/commons/interfaces/TimeoutError';
 import IDetachedElement from '@ulixee/hero-interfaces/IDetachedElement';
+import IExtractSchema from '@ulixee/hero-interfaces/IExtractSchema';
 import IAwaitedOptions from '../interfaces/IAwaitedOptions';
 import CoreCommandQueue from './CoreCommandQueue';
 import CoreTab from './CoreTab';
+import { ILiveQuery } from './LiveAwaitedPath';
 import {
   convertJsPathArgs,
   createInstanceWithNodePointer,
@@ -76,7 +78,13 @@ export default class CoreFrameEnvironment {
     return await this.commandQueue.run('FrameEnvironment.getChildFrameEnvironment', jsPath);
   }
 
-  public async execJsPath<T = any>(jsPath: IJsPath): Promise<IExecJsPathResult<T>> {
+  public async execJsPath<T = any>(
+    jsPath: IJsPath,
+    liveQuery?: ILiveQuery,
+  ): Promise<IExecJsPathResult<T>> {
+    if (liveQuery) {
+      return await this.commandQueue.runLiveQuery(liveQuery, 'FrameEnvironment.execJsPath', jsPath);
+    }
     return await this.commandQueue.run('FrameEnvironment.execJsPath', jsPath);
   }
 
@@ -84,6 +92,10 @@ export default class CoreFrameEnvironment {
     return await this.commandQueue.run('FrameEnvironment.getJsValue', expression);
   }
 
+  public async extract<T>(schema: IExtractSchema): Promise<T> {
+    return await this.commandQueue.run('FrameEnvironment.extract', schema);
+  }
+
   public async fetch(request: string | number, init?: IRequestInit): Promise<INodePointer> {
     return await this.commandQueue.run('FrameEnvironment.fetch', request, init);
   }
@@ -124,7 +136,10 @@ export default class CoreFrameEnvironment {
     return await this.commandQueue.run('FrameEnvironment.isAllContentLoaded');
   }
 
-  public async interact(interactionGroups: IInteractionGroups): Promise<void> {
+  public async interact(
+    interactionGroups: IInteractionGroups,
+    liveQuery?: ILiveQuery,
+  ): Promise<void> {
     for (const interactionGroup of interactionGroups) {
       for (const interactionStep of interactionGroup) {
         if (interactionStep.mousePosition && !isMousePositionXY(interactionStep.mousePosition)) {
@@ -132,6 +147,14 @@ export default class CoreFrameEnvironment {
         }
       }
     }
+    if (liveQuery) {
+      await this.commandQueue.runLiveQuery(
+        liveQuery,
+        'FrameEnvironment.interact',
+        ...interactionGroups,
+      );
+      return;
+    }
     await this.commandQueue.run('FrameEnvironment.interact', ...interactionGroups);
   }
 
@@ -9,7 +9,13 @@ import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEve
 import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
 import IDetachedElement from '@ulixee/hero-interfaces/IDetachedElement';
 import IDataSnippet from '@ulixee/hero-interfaces/IDataSnippet';
+import IDetachedPdf from '@ulixee/hero-interfaces/IDetachedPdf';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
 import IDetachedResource from '@ulixee/hero-interfaces/IDetachedResource';
+import IHar, { IHarExportOptions } from '@ulixee/hero-interfaces/IHar';
+import IGeneratedExitState, {
+  IExitStateGenerateOptions,
+} from '@ulixee/hero-interfaces/IGeneratedExitState';
 import { TypedEventEmitter } from '@ulixee/commons/lib/eventUtils';
 import ShutdownHandler from '@ulixee/commons/lib/ShutdownHandler';
 import CoreCommandQueue from './CoreCommandQueue';
@@ -33,6 +39,8 @@ export default class CoreSession
   public emitter = new EventEmitter();
   public readonly mode: ISessionCreateOptions['mode'];
   public readonly hero: Hero;
+  // proves to Core that this client created the session when reattaching after a dropped connection
+  public readonly reattachToken: string;
 
   public get lastCommandId(): number {
     return this.commandId;
@@ -57,15 +65,16 @@ export default class CoreSession
   private closingPromise: Promise<{ didKeepAlive: boolean; message?: string }>;
 
   constructor(
-    sessionMeta: ISessionMeta,
+    sessionMeta: ISessionMeta & { reattachToken?: string },
     connectionToCore: ConnectionToHeroCore,
     options: ISessionCreateOptions,
   ) {
     super();
     const { sessionName, mode } = options;
     this.mode = mode;
-    const { sessionId } = sessionMeta;
+    const { sessionId, reattachToken } = sessionMeta;
     this.sessionId = sessionId;
+    this.reattachToken = reattachToken;
     this.sessionName = sessionName;
     this.meta = {
       sessionId,
@@ -105,6 +114,14 @@ export default class CoreSession
     return this.commandQueue.run('Session.getHeroMeta');
   }
 
+  public exportHar(options?: IHarExportOptions): Promise<IHar> {
+    return this.commandQueue.run('Session.exportHar', options);
+  }
+
+  public generateExitState(options: IExitStateGenerateOptions): Promise<IGeneratedExitState> {
+    return this.commandQueue.run('Session.generateExitState', options);
+  }
+
   public async getTabs(): Promise<CoreTab[]> {
     const tabSessionMetas = await this.commandQueue.run<ISessionMeta[]>('Session.getTabs');
     for (const tabMeta of tabSessionMetas) {
@@ -142,7 +159,7 @@ export default class CoreSession
 
   public async getCollectedAssetNames(
     sessionId: string,
-  ): Promise<{ resources: string[]; elements: string[]; snippets: string[] }> {
+  ): Promise<{ resources: string[]; elements: string[]; snippets: string[]; pdfs: string[] }> {
     return await this.commandQueue.run('Session.getCollectedAssetNames', sessionId);
   }
 
@@ -154,6 +171,18 @@ export default class CoreSession
     return await this.commandQueue.run('Session.getDetachedElements', sessionId, name);
   }
 
+  public async getDetachedPdfs(sessionId: string, name: string): Promise<IDetachedPdf[]> {
+    return await this.commandQueue.run('Session.getDetachedPdfs', sessionId, name);
+  }
+
+  public async getDownloads(sessionId: string): Promise<IDownload[]> {
+    return await this.commandQueue.run('Session.getDownloads', sessionId);
+  }
+
+  public async getDownloadBuffer(sessionId: string, downloadId: string): Promise<Buffer> {
+    return await this.commandQueue.run('Session.getDownloadBuffer', sessionId, downloadId);
+  }
+
   public async getDetachedResources(
     sessionId: string,
     name: string,
@@ -13,6 +13,7 @@ export default class CoreSessions {
   private readonly sessionsById = new Map<string, CoreSession>();
   private readonly queue: Queue;
   private readonly sessionTimeoutMillis: number;
+  private reportedQueueSize = 0;
 
   constructor(
     readonly connection: ConnectionToHeroCore,
@@ -28,10 +29,10 @@ export default class CoreSessions {
     const sessionResolvable = new Resolvable<CoreSession>();
     void this.queue
       .run<void>(async () => {
-        const sessionMeta = await this.connection.commandQueue.run<ISessionMeta>(
-          'Core.createSession',
-          options,
-        );
+        this.reportQueueSize();
+        const sessionMeta = await this.connection.commandQueue.run<
+          ISessionMeta & { reattachToken?: string }
+        >('Core.createSession', options);
         const coreSession = new CoreSession(sessionMeta, this.connection, options);
         const id = coreSession.sessionId;
         this.sessionsById.set(id, coreSession);
@@ -42,6 +43,7 @@ export default class CoreSessions {
         await new Promise(resolve => coreSession.once('close', resolve));
       }, this.sessionTimeoutMillis)
       .catch(sessionResolvable.reject);
+    this.reportQueueSize();
     return sessionResolvable.promise;
   }
 
@@ -57,6 +59,10 @@ export default class CoreSessions {
     return this.sessionsById.get(sessionId);
   }
 
+  public getAll(): CoreSession[] {
+    return [...this.sessionsById.values()];
+  }
+
   public willStop(): void {
     this.queue.willStop();
   }
@@ -69,4 +75,12 @@ export default class CoreSessions {
     }
     return hasSessions;
   }
+
+  private reportQueueSize(): void {
+    // Core includes the sessions waiting here in its metrics
+    const size = this.queue.size;
+    if (size === this.reportedQueueSize) return;
+    this.reportedQueueSize = size;
+    this.connection.reportQueuedSessions(size).catch(() => null);
+  }
 }
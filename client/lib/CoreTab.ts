@@ -5,16 +5,29 @@ import IResourceMeta from '@ulixee/unblocked-specification/agent/net/IResourceMe
 import IUserProfile from '@ulixee/hero-interfaces/IUserProfile';
 import IConfigureSessionOptions from '@ulixee/hero-interfaces/IConfigureSessionOptions';
 import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
-import IScreenshotOptions from '@ulixee/unblocked-specification/agent/browser/IScreenshotOptions';
+import { ICoreScreenshotOptions } from '@ulixee/hero-interfaces/IScreenshotOptions';
+import IPdfOptions from '@ulixee/hero-interfaces/IPdfOptions';
 import IFrameMeta from '@ulixee/hero-interfaces/IFrameMeta';
 import TimeoutError from '@ulixee/commons/interfaces/TimeoutError';
+import Resolvable from '@ulixee/commons/lib/Resolvable';
 import IFileChooserPrompt from '@ulixee/unblocked-specification/agent/browser/IFileChooserPrompt';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
 import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEvent';
+import NodeNotFoundError from '@ulixee/hero-interfaces/NodeNotFoundError';
 import ISourceCodeLocation from '@ulixee/commons/interfaces/ISourceCodeLocation';
 import IDomState, { IDomStateAllFn } from '@ulixee/hero-interfaces/IDomState';
 import IResourceFilterProperties from '@ulixee/hero-interfaces/IResourceFilterProperties';
 import ICoreCommandRequestPayload from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
 import IFlowCommandOptions from '@ulixee/hero-interfaces/IFlowCommandOptions';
+import IFlowHandlerOptions, {
+  IFlowHandlerEvaluation,
+  IFlowHandlerUnregisterReason,
+} from '@ulixee/hero-interfaces/IFlowHandlerOptions';
+import { IInterceptAction, IInterceptFilter } from '@ulixee/hero-interfaces/IInterceptedRequest';
+import stringToRegex from '@ulixee/hero-plugin-utils/lib/utils/stringToRegex';
+import IBlockedResources, {
+  IBlockedResourceStats,
+} from '@ulixee/hero-interfaces/IBlockedResources';
 import CoreCommandQueue from './CoreCommandQueue';
 import CoreEventHeap from './CoreEventHeap';
 import IWaitForResourceFilter from '../interfaces/IWaitForResourceFilter';
@@ -23,13 +36,15 @@ import IJsPathEventTarget from '../interfaces/IJsPathEventTarget';
 import ConnectionToHeroCore from '../connections/ConnectionToHeroCore';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
 import { createDialog } from './Dialog';
+import InterceptedRequest, { createInterceptedRequest } from './InterceptedRequest';
 import CoreSession from './CoreSession';
 import ICommandCounter from '../interfaces/ICommandCounter';
-import IFlowHandler from '../interfaces/IFlowHandler';
+import IFlowHandler, { IRegisteredFlowHandler } from '../interfaces/IFlowHandler';
 import DomStateHandler from './DomStateHandler';
 import DomState from './DomState';
 import { scriptInstance } from './internal';
 import FlowCommands from './FlowCommands';
+import LiveAwaitedPath from './LiveAwaitedPath';
 
 export default class CoreTab implements IJsPathEventTarget {
   private static waitForStateCommandPlaceholder = 'waitForState';
@@ -47,6 +62,8 @@ export default class CoreTab implements IJsPathEventTarget {
   protected readonly meta: ISessionMeta & { sessionName: string };
   private readonly flowCommands = new FlowCommands(this);
   private readonly flowHandlers: IFlowHandler[] = [];
+  private flowHandlerIdCounter = 0;
+  private interceptIdCounter = 0;
   private readonly connection: ConnectionToHeroCore;
   private readonly mainFrameId: number;
 
@@ -71,6 +88,7 @@ export default class CoreTab implements IJsPathEventTarget {
       connection,
       coreSession as ICommandCounter,
     );
+    this.commandQueue.registerCommandRetryHandlerFn(this.shouldRetryLiveQuery.bind(this));
     this.commandQueue.registerCommandRetryHandlerFn(this.shouldRetryFlowHandlers.bind(this));
     this.coreSession = coreSession;
     this.eventHeap = new CoreEventHeap(this.meta, connection, coreSession as ICommandCounter);
@@ -80,6 +98,7 @@ export default class CoreTab implements IJsPathEventTarget {
     this.eventHeap.registerEventInterceptors({
       resource: createResource.bind(null, resolvedThis),
       dialog: createDialog.bind(null, resolvedThis),
+      intercept: createInterceptedRequest.bind(null, resolvedThis),
     });
   }
 
@@ -119,6 +138,43 @@ export default class CoreTab implements IJsPathEventTarget {
     }
   }
 
+  public async waitForAnyState(
+    states: { name: string; state: IDomState }[],
+    options: Pick<IWaitForOptions, 'timeoutMs'> = { timeoutMs: 30e3 },
+  ): Promise<number> {
+    const callsitePath = scriptInstance.getScriptCallsite();
+    const handlers = states.map(
+      ({ name, state }) =>
+        new DomStateHandler(state, name, this, callsitePath, {
+          flowCommand: this.flowCommands.runningFlowCommand,
+        }),
+    );
+    const firstMatch = new Resolvable<number>();
+    let pendingCount = handlers.length;
+    let timeoutError: TimeoutError;
+    const waitForMatch = async (handler: DomStateHandler, index: number): Promise<void> => {
+      try {
+        if (await handler.waitFor(options.timeoutMs)) firstMatch.resolve(index);
+      } catch (error) {
+        // a broken state (eg, an invalid selector) won't fix itself, so don't wait on the others
+        if (error instanceof TimeoutError) timeoutError = error;
+        else firstMatch.reject(error);
+      }
+      pendingCount -= 1;
+      if (pendingCount > 0) return;
+      if (timeoutError) firstMatch.reject(timeoutError);
+      else firstMatch.resolve(-1);
+    };
+    handlers.forEach(waitForMatch);
+
+    try {
+      return await firstMatch.promise;
+    } finally {
+      const canceled = new CanceledPromiseError('Another DomState already matched');
+      await Promise.all(handlers.map(x => x.cancel(canceled)));
+    }
+  }
+
   public async validateState(
     state: IDomState | DomState | IDomStateAllFn,
     callsitePath: ISourceCodeLocation[],
@@ -135,13 +191,51 @@ export default class CoreTab implements IJsPathEventTarget {
     state: IDomState | DomState | IDomStateAllFn,
     handlerFn: (error?: Error) => Promise<any>,
     callsitePath: ISourceCodeLocation[],
-  ): Promise<void> {
-    const id = this.flowHandlers.length + 1;
+    options?: IFlowHandlerOptions,
+  ): Promise<IRegisteredFlowHandler> {
+    let flowCommandId: number;
+    if (options?.scopeToFlowCommand) {
+      flowCommandId = this.flowCommands.runningFlowCommand?.id;
+      if (!flowCommandId) {
+        throw new Error(
+          `The FlowHandler "${name}" is scoped to a FlowCommand, but it was not registered inside a FlowCommand.`,
+        );
+      }
+    }
+    this.flowHandlerIdCounter += 1;
+    const id = this.flowHandlerIdCounter;
     if (typeof state === 'function') {
       state = { all: state };
     }
-    this.flowHandlers.push({ id, name, state, callsitePath, handlerFn });
-    await this.commandQueue.runOutOfBand('Tab.registerFlowHandler', name, id, callsitePath);
+    this.flowHandlers.push({
+      id,
+      name,
+      state,
+      callsitePath,
+      handlerFn,
+      options,
+      flowCommandId,
+      triggerCount: 0,
+    });
+    await this.commandQueue.runOutOfBand('Tab.registerFlowHandler', name, id, callsitePath, {
+      ...options,
+      flowCommandId,
+    });
+    return {
+      id,
+      name,
+      unregister: this.unregisterFlowHandler.bind(this, id, 'unregister'),
+    };
+  }
+
+  public async unregisterFlowHandler(
+    id: number,
+    reason: IFlowHandlerUnregisterReason = 'unregister',
+  ): Promise<void> {
+    const index = this.flowHandlers.findIndex(x => x.id === id);
+    if (index === -1) return;
+    this.flowHandlers.splice(index, 1);
+    await this.commandQueue.runOutOfBand('Tab.unregisterFlowHandler', id, reason);
   }
 
   public async runFlowCommand<T>(
@@ -155,7 +249,29 @@ export default class CoreTab implements IJsPathEventTarget {
     }
     const flowCommand = await this.flowCommands.create(commandFn, exitState, callsitePath, options);
 
-    return await flowCommand.run();
+    try {
+      return await flowCommand.run();
+    } finally {
+      for (const flowHandler of [...this.flowHandlers]) {
+        if (flowHandler.flowCommandId !== flowCommand.id) continue;
+        await this.unregisterFlowHandler(flowHandler.id, 'flowCommandComplete');
+      }
+    }
+  }
+
+  public async shouldRetryLiveQuery(
+    command: CoreCommandQueue['internalState']['lastCommand'],
+    error: Error,
+  ): Promise<boolean> {
+    if (!(error instanceof NodeNotFoundError) || !command?.liveQuery) return false;
+
+    // give a re-rendering page a moment to attach the replacement node
+    await new Promise(resolve => setTimeout(resolve, LiveAwaitedPath.retryDelayMs));
+    this.commandQueue.retryingCommand = {
+      ...command,
+      liveQueryResolution: { ...command.liveQuery, error: error.message },
+    };
+    return true;
   }
 
   public async shouldRetryFlowHandlers(
@@ -175,35 +291,42 @@ export default class CoreTab implements IJsPathEventTarget {
   }
 
   public async triggerFlowHandlers(): Promise<boolean> {
-    const matchingStates: IFlowHandler[] = [];
-    await Promise.all(
-      this.flowHandlers.map(async flowHandler => {
-        const handler = new DomStateHandler(
-          flowHandler.state,
-          null,
-          this,
-          flowHandler.callsitePath,
-          { flowHandlerId: flowHandler.id },
-        );
-        try {
-          if (await handler.check()) {
-            matchingStates.push(flowHandler);
-          }
-        } catch (err) {
-          await flowHandler.handlerFn(err);
-        }
-      }),
+    const evaluations: IFlowHandlerEvaluation[] = [];
+    const flowHandlers = await this.getActiveFlowHandlers();
+    const results = await Promise.all(
+      flowHandlers.map(x => this.evaluateFlowHandler(x, evaluations)),
     );
-    if (!matchingStates.length) return false;
+    const matchingStates = flowHandlers.filter((_, i) => results[i].didMatch);
 
+    const triggered: IFlowHandler[] = [];
     try {
-      const flowHandler = matchingStates[0];
-      this.flowCommands.didRunFlowHandlers();
-      this.commandQueue.setCommandMetadata({ activeFlowHandlerId: flowHandler.id });
-      await flowHandler.handlerFn();
-      return true;
+      // matches run in priority order until one is exclusive (the default), so usually only one runs
+      for (const flowHandler of matchingStates) {
+        let evaluation = results[flowHandlers.indexOf(flowHandler)];
+        // a handler that already ran might have resolved this state
+        if (triggered.length) {
+          evaluation = await this.evaluateFlowHandler(flowHandler, evaluations);
+          if (!evaluation.didMatch) continue;
+        }
+        this.flowCommands.didRunFlowHandlers();
+        this.commandQueue.setCommandMetadata({ activeFlowHandlerId: flowHandler.id });
+        flowHandler.triggerCount += 1;
+        triggered.push(flowHandler);
+        evaluation.didRun = true;
+        await flowHandler.handlerFn();
+        if (flowHandler.options?.exclusive !== false) break;
+      }
+      return triggered.length > 0;
     } finally {
       this.commandQueue.setCommandMetadata({ activeFlowHandlerId: undefined });
+      if (evaluations.length) {
+        await this.commandQueue.runOutOfBand('Tab.recordFlowHandlerEvaluations', evaluations);
+      }
+      for (const flowHandler of triggered) {
+        if (hasReachedMaxTriggers(flowHandler)) {
+          await this.unregisterFlowHandler(flowHandler.id, 'maxTriggers');
+        }
+      }
     }
   }
 
@@ -273,14 +396,34 @@ export default class CoreTab implements IJsPathEventTarget {
     return await this.commandQueue.run('Session.exportUserProfile');
   }
 
-  public async takeScreenshot(options: IScreenshotOptions): Promise<Buffer> {
+  public async setBlockedResources(options: IBlockedResources): Promise<void> {
+    await this.commandQueue.run('Tab.setBlockedResources', options);
+  }
+
+  public async getBlockedResourceStats(): Promise<IBlockedResourceStats> {
+    return await this.commandQueue.run('Tab.getBlockedResourceStats');
+  }
+
+  public async takeScreenshot(options: ICoreScreenshotOptions): Promise<Buffer> {
     return await this.commandQueue.run('Tab.takeScreenshot', options);
   }
 
+  public async printToPdf(options: IPdfOptions): Promise<Buffer> {
+    return await this.commandQueue.run('Tab.printToPdf', options);
+  }
+
   public async waitForFileChooser(options: IWaitForOptions): Promise<IFileChooserPrompt> {
     return await this.commandQueue.run('Tab.waitForFileChooser', options);
   }
 
+  public async waitForDownload(options: IWaitForOptions): Promise<IDownload> {
+    return await this.commandQueue.run('Tab.waitForDownload', options);
+  }
+
+  public async getDownloadBuffer(downloadId: string, timeoutMs?: number): Promise<Buffer> {
+    return await this.commandQueue.runOutOfBand('Tab.getDownloadBuffer', downloadId, timeoutMs);
+  }
+
   public async waitForResources(
     filter: Pick<IWaitForResourceFilter, 'url' | 'type'>,
     opts: IWaitForResourceOptions,
@@ -306,6 +449,28 @@ export default class CoreTab implements IJsPathEventTarget {
     await this.commandQueue.runOutOfBand('Tab.dismissDialog', accept, promptText);
   }
 
+  public async intercept(
+    filter: IInterceptFilter,
+    handler: (request: InterceptedRequest) => Promise<void> | void,
+  ): Promise<() => Promise<void>> {
+    const listenerFn = async (request: InterceptedRequest): Promise<void> => {
+      try {
+        await handler(request);
+      } finally {
+        // requests the handler didn't resolve are sent on unchanged
+        if (!request.isResolved) await request.continue();
+      }
+    };
+    // every intercept gets its own path since the event heap de-duplicates listeners by their source
+    const jsPath = ['intercepts', (this.interceptIdCounter += 1)];
+    await this.addEventListener(jsPath, 'intercept', listenerFn, { filter });
+    return () => this.removeEventListener(jsPath, 'intercept', listenerFn);
+  }
+
+  public async resolveIntercept(interceptId: string, action: IInterceptAction): Promise<void> {
+    await this.commandQueue.runOutOfBand('Tab.resolveIntercept', interceptId, action);
+  }
+
   public async addEventListener(
     jsPath: IJsPath | null,
     eventType: string,
@@ -348,4 +513,55 @@ export default class CoreTab implements IJsPathEventTarget {
     const session = this.connection.getSession(this.sessionId);
     session?.removeTab(this);
   }
+
+  private async getActiveFlowHandlers(): Promise<IFlowHandler[]> {
+    let flowHandlers = this.flowHandlers.filter(x => !hasReachedMaxTriggers(x));
+    if (flowHandlers.some(x => x.options?.urlPattern)) {
+      const url = await this.mainFrameEnvironment.getUrl();
+      flowHandlers = flowHandlers.filter(x => {
+        const urlPattern = x.options?.urlPattern;
+        if (!urlPattern) return true;
+        if (urlPattern instanceof RegExp) return urlPattern.test(url);
+        return stringToRegex(urlPattern).test(url);
+      });
+    }
+    // highest priority first. Array sort is stable, so ties stay in registration order
+    return flowHandlers.sort((a, b) => (b.options?.priority ?? 0) - (a.options?.priority ?? 0));
+  }
+
+  private async evaluateFlowHandler(
+    flowHandler: IFlowHandler,
+    evaluations: IFlowHandlerEvaluation[],
+  ): Promise<IFlowHandlerEvaluation> {
+    const evaluation: IFlowHandlerEvaluation = {
+      flowHandlerId: flowHandler.id,
+      didMatch: false,
+      didRun: false,
+      startTime: Date.now(),
+      durationMs: 0,
+    };
+    evaluations.push(evaluation);
+    const handler = new DomStateHandler(flowHandler.state, null, this, flowHandler.callsitePath, {
+      flowHandlerId: flowHandler.id,
+    });
+    let error: Error;
+    try {
+      evaluation.didMatch = await handler.check();
+    } catch (err) {
+      error = err;
+    }
+    evaluation.durationMs = Date.now() - evaluation.startTime;
+
+    if (error) {
+      evaluation.error = error.message;
+      evaluation.didRun = true;
+      await flowHandler.handlerFn(error);
+    }
+    return evaluation;
+  }
+}
+
+function hasReachedMaxTriggers(flowHandler: IFlowHandler): boolean {
+  const maxTriggers = flowHandler.options?.maxTriggers;
+  return typeof maxTriggers === 'number' && flowHandler.triggerCount >= maxTriggers;
 }
@@ -19,6 +19,8 @@ import { createSuperDocument, createSuperNode } from 'awaited-dom/impl/create';
 import { KeyboardShortcuts } from '@ulixee/unblocked-specification/agent/interact/IKeyboardShortcuts';
 import SuperDocument from 'awaited-dom/impl/super-klasses/SuperDocument';
 import { IElement, IHTMLCollection, IHTMLElement, INode, INodeList } from 'awaited-dom/base/interfaces/official';
+import IDomState, { IDomStateAssertions } from '@ulixee/hero-interfaces/IDomState';
+import { IElementScreenshotOptions } from '@ulixee/hero-interfaces/IScreenshotOptions';
 import { ITypeInteraction } from '../interfaces/IInteractions';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
 import IAwaitedOptions from '../interfaces/IAwaitedOptions';
@@ -32,6 +34,8 @@ const awaitedPathState = StateMachine<
   { awaitedPath: AwaitedPath; awaitedOptions: IAwaitedOptions; nodePointer?: INodePointer }
 >();
 
+type IElementStateAllFn = (assert: IDomStateAssertions, element: ISuperElement) => void;
+
 interface IBaseExtendNode {
   $isVisible: Promise<boolean>;
   $exists: Promise<boolean>;
@@ -45,9 +49,12 @@ interface IBaseExtendNode {
   $waitForClickable(options?: { timeoutMs?: number }): Promise<ISuperElement>;
   $waitForHidden(options?: { timeoutMs?: number }): Promise<ISuperElement>;
   $waitForVisible(options?: { timeoutMs?: number }): Promise<ISuperElement>;
+  $waitForState(state: IElementStateAllFn, options?: { timeoutMs?: number }): Promise<void>;
+  $validateState(state: IElementStateAllFn): Promise<boolean>;
   $xpathSelector(selector: string): ISuperNode;
   $detach(): Promise<globalThis.Element>;
   $addToDetachedElements(name: string): Promise<void>;
+  $screenshot(options?: IElementScreenshotOptions): Promise<Buffer>;
 }
 
 interface IBaseExtendNodeList {
@@ -125,6 +132,15 @@ const NodeExtensionFns: INodeExtensionFns = {
       ...options,
     });
   },
+  async $waitForState(state: IElementStateAllFn, options?: { timeoutMs?: number }): Promise<void> {
+    const coreFrame = await getCoreFrame(this);
+    await coreFrame.coreTab.waitForState(createElementState(this, state), options);
+  },
+  async $validateState(state: IElementStateAllFn): Promise<boolean> {
+    const callsitePath = scriptInstance.getScriptCallsite();
+    const coreFrame = await getCoreFrame(this);
+    return await coreFrame.coreTab.validateState(createElementState(this, state), callsitePath);
+  },
   async $clearInputText(): Promise<void> {
     const { awaitedOptions } = awaitedPathState.getState(this);
     const coreFrame = await awaitedOptions.coreFrame;
@@ -172,6 +188,14 @@ const NodeExtensionFns: INodeExtensionFns = {
     const coreFrame = await awaitedOptions.coreFrame;
     await coreFrame.detachElement(name, awaitedPath.toJSON(), false, true);
   },
+  async $screenshot(options?: IElementScreenshotOptions): Promise<Buffer> {
+    const { awaitedPath, awaitedOptions } = awaitedPathState.getState(this);
+    const coreFrame = await awaitedOptions.coreFrame;
+    return await coreFrame.coreTab.takeScreenshot({
+      ...options,
+      element: { frameId: coreFrame.frameId, jsPath: awaitedPath.toJSON() },
+    });
+  },
 };
 
 type INodeExtensionGetters = { [name: string]: () => any };
@@ -297,6 +321,15 @@ async function getCoreFrame(element: ISuperElement): Promise<CoreFrameEnvironmen
   return await awaitedOptions.coreFrame;
 }
 
+function createElementState(element: ISuperElement, state: IElementStateAllFn): IDomState {
+  // assertions run in the DomStateHandler batches, scoped to this element
+  return {
+    all(assert) {
+      state(assert, element);
+    },
+  };
+}
+
 extendNodes<INodeExtensionFns, INodeExtensionGetters>(NodeExtensionFns, NodeExtensionGetters);
 extendNodeLists(NodeListExtensionFns);
 
@@ -0,0 +1,54 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import AwaitedPath from 'awaited-dom/base/AwaitedPath';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
+import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
+import CoreTab from './CoreTab';
+import AwaitedEventTarget from './AwaitedEventTarget';
+
+interface IEventType {
+  progress: (download: IDownload) => void;
+}
+
+export default class Download extends AwaitedEventTarget<IEventType> {
+  public readonly id: string;
+  public readonly url: string;
+  public readonly suggestedFilename: string;
+  public readonly mimeType?: string;
+  public readonly commandId: number;
+
+  readonly #awaitedPath: AwaitedPath;
+  readonly #coreTabPromise: Promise<CoreTab>;
+
+  constructor(coreTabPromise: Promise<CoreTab>, download: IDownload) {
+    super(() => {
+      return {
+        target: this.#coreTabPromise,
+        jsPath: this.#awaitedPath.toJSON(),
+      };
+    });
+    this.#awaitedPath = new AwaitedPath(null, 'downloads', download.id);
+    this.#coreTabPromise = coreTabPromise;
+    this.id = download.id;
+    this.url = download.url;
+    this.suggestedFilename = download.suggestedFilename;
+    this.mimeType = download.mimeType;
+    this.commandId = download.commandId;
+  }
+
+  // waits for the download to finish
+  public get buffer(): Promise<Buffer> {
+    return this.getBuffer();
+  }
+
+  public async getBuffer(options?: Pick<IWaitForOptions, 'timeoutMs'>): Promise<Buffer> {
+    const coreTab = await this.#coreTabPromise;
+    return await coreTab.getDownloadBuffer(this.id, options?.timeoutMs);
+  }
+
+  public async saveAs(path: string, options?: Pick<IWaitForOptions, 'timeoutMs'>): Promise<void> {
+    const buffer = await this.getBuffer(options);
+    await Fs.promises.mkdir(Path.dirname(path), { recursive: true });
+    await Fs.promises.writeFile(path, buffer);
+  }
+}
@@ -6,6 +6,7 @@ import CoreTab from './CoreTab';
 import DomStateHandler from './DomStateHandler';
 import IFlowCommand from '../interfaces/IFlowCommand';
 import CoreCommandQueue from './CoreCommandQueue';
+import FlowCommandRetriesExhaustedError from './FlowCommandRetriesExhaustedError';
 
 export default class FlowCommand<T= void> implements IFlowCommand {
   public retryNumber = 0;
@@ -40,7 +41,7 @@ export default class FlowCommand<T= void> implements IFlowCommand {
     readonly callsitePath: ISourceCodeLocation[],
     readonly options?: IFlowCommandOptions,
   ) {
-    this.options ??= { maxRetries: CoreCommandQueue.maxCommandRetries };
+    this.options = { maxRetries: CoreCommandQueue.maxCommandRetries, ...options };
     if (exitState) {
       this.exitHandler = new DomStateHandler(exitState, null, coreTab, this.callsitePath, {
         flowCommand: this,
@@ -54,39 +55,111 @@ export default class FlowCommand<T= void> implements IFlowCommand {
       return this.lastResult;
     }
 
+    const startTime = Date.now();
+    const attemptErrors: Error[] = [];
     // Retry until isComplete is satisfied, or we have retried a max number of times
     for (let count = 0; count < this.options.maxRetries; count += 1) {
+      if (count > 0) await this.waitToRetry(count, attemptErrors, startTime);
       try {
         this.isRunning = true;
         this.isFlowStateChanged = false; // clear out any flow state changes
         this.retryNumber += count; // add to retry count because we might be nested
         this.setCommandState();
-        this.lastResult = await this.runCommandsFn();
-
-        if (await this.isComplete) return this.lastResult;
-
-        if (this.isFlowStateChanged) continue;
-        // if not complete, trigger flow handlers to retry (catch will trigger on its own)
-        const shouldRetry = await this.coreTab.triggerFlowHandlers();
-
-        if (!shouldRetry) {
-          throw new Error(
-            'The FlowCommand cannot be completed. The Exit State is not satisfied and no FlowHandlers were triggered.',
-          );
-        }
+        const attempt = this.runAttempt(attemptErrors);
+        if (await this.raceTimeout(attempt, attemptErrors, startTime)) return this.lastResult;
       } catch (error) {
         if (error instanceof CanceledPromiseError) throw error;
+        if (error instanceof FlowCommandRetriesExhaustedError && error.isTimeout) throw error;
 
         const shouldRetry = await this.coreTab.shouldRetryFlowHandlers(
           this.commandQueue.retryingCommand,
           error,
         );
         if (!shouldRetry && !this.isFlowStateChanged) throw error;
+        attemptErrors.push(error);
       } finally {
         this.clearCommandState();
         this.isRunning = false;
       }
     }
+
+    throw new FlowCommandRetriesExhaustedError(
+      `The FlowCommand could not be completed after ${attemptErrors.length} attempts. Last error: ${
+        attemptErrors[attemptErrors.length - 1]?.message
+      }`,
+      attemptErrors,
+    );
+  }
+
+  private async runAttempt(attemptErrors: Error[]): Promise<boolean> {
+    this.lastResult = await this.runCommandsFn();
+
+    if (await this.isComplete) return true;
+
+    const exitStateError = new Error('The FlowCommand Exit State was not satisfied.');
+    if (this.isFlowStateChanged) {
+      attemptErrors.push(exitStateError);
+      return false;
+    }
+    // if not complete, trigger flow handlers to retry (catch will trigger on its own)
+    const shouldRetry = await this.coreTab.triggerFlowHandlers();
+
+    if (!shouldRetry) {
+      throw new Error(
+        'The FlowCommand cannot be completed. The Exit State is not satisfied and no FlowHandlers were triggered.',
+      );
+    }
+    attemptErrors.push(exitStateError);
+    return false;
+  }
+
+  private async raceTimeout<R>(
+    attempt: Promise<R>,
+    attemptErrors: Error[],
+    startTime: number,
+  ): Promise<R> {
+    const { timeoutMs } = this.options;
+    if (timeoutMs === undefined) return await attempt;
+
+    // commands can't be canceled, so a timed out attempt finishes in the background
+    attempt.catch(() => null);
+    let timeout: NodeJS.Timeout;
+    const timeoutPromise = new Promise<never>((_resolve, reject) => {
+      const remainingMs = Math.max(startTime + timeoutMs - Date.now(), 0);
+      timeout = setTimeout(() => reject(this.createTimeoutError(attemptErrors)), remainingMs);
+    });
+    try {
+      return await Promise.race([attempt, timeoutPromise]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private createTimeoutError(attemptErrors: Error[]): FlowCommandRetriesExhaustedError {
+    return new FlowCommandRetriesExhaustedError(
+      `The FlowCommand timed out after ${attemptErrors.length} attempts (timeoutMs: ${this.options.timeoutMs}).`,
+      attemptErrors,
+      true,
+    );
+  }
+
+  private async waitToRetry(
+    attempt: number,
+    attemptErrors: Error[],
+    startTime: number,
+  ): Promise<void> {
+    const { retryDelayMs, retryBackoff, maxRetryDelayMs, timeoutMs, onRetry } = this.options;
+    let delayMs = retryDelayMs ?? 0;
+    if (retryBackoff === 'exponential') delayMs *= 2 ** (attempt - 1);
+    if (maxRetryDelayMs !== undefined) delayMs = Math.min(delayMs, maxRetryDelayMs);
+
+    // don't start another attempt that would only time out
+    if (timeoutMs !== undefined && Date.now() - startTime + delayMs >= timeoutMs) {
+      throw this.createTimeoutError(attemptErrors);
+    }
+
+    if (onRetry) await onRetry(attemptErrors[attemptErrors.length - 1], attempt);
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
   }
 
   private clearCommandState(): void {
@@ -0,0 +1,8 @@
+export default class FlowCommandRetriesExhaustedError extends Error {
+  public readonly code = 'FlowCommandRetriesExhausted';
+
+  constructor(message: string, readonly attemptErrors: Error[], readonly isTimeout = false) {
+    super(message);
+    this.name = 'FlowCommandRetriesExhaustedError';
+  }
+}
@@ -23,6 +23,11 @@ import {
 import IWaitForElementOptions from '@ulixee/hero-interfaces/IWaitForElementOptions';
 import Response from 'awaited-dom/impl/official-klasses/Response';
 import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
+import IQuerySelectorOptions from '@ulixee/hero-interfaces/IQuerySelectorOptions';
+import IExtractSchema, {
+  IExtractOptions,
+  IExtractResult,
+} from '@ulixee/hero-interfaces/IExtractSchema';
 import {
   IElementIsolate,
   IHTMLFrameElementIsolate,
@@ -30,7 +35,7 @@ import {
   IHTMLObjectElementIsolate,
   INodeIsolate,
 } from 'awaited-dom/base/interfaces/isolate';
-import { INodeVisibility } from '@ulixee/js-path';
+import { IJsPath, INodeVisibility } from '@ulixee/js-path';
 import { INodePointer } from '@ulixee/hero-interfaces/AwaitedDom';
 import { IMousePositionXY } from '@ulixee/unblocked-specification/agent/interact/IInteractions';
 import IAwaitedOptions from '../interfaces/IAwaitedOptions';
@@ -39,6 +44,7 @@ import CookieStorage, { createCookieStorage } from './CookieStorage';
 import Hero from './Hero';
 import { getAwaitedPathAsMethodArg } from './SetupAwaitedHandler';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
+import LiveAwaitedPath from './LiveAwaitedPath';
 import Tab, { getCoreTab } from './Tab';
 import Resource, { createResource } from './Resource';
 import { InternalPropertiesSymbol } from './internal';
@@ -157,6 +163,26 @@ export default class FrameEnvironment {
 
   // METHODS
 
+  public async extract<T extends IExtractSchema>(
+    schema: T,
+    options?: IExtractOptions,
+  ): Promise<IExtractResult<T>> {
+    const coreFrame = await this.#coreFramePromise;
+    const result = await coreFrame.extract<IExtractResult<T>>(schema);
+    if (options?.outputKey) {
+      const coreSession = await this.#hero[InternalPropertiesSymbol].coreSessionPromise;
+      coreSession.recordOutput([
+        {
+          type: 'insert',
+          path: JSON.stringify([options.outputKey]),
+          value: result,
+          timestamp: Date.now(),
+        },
+      ]);
+    }
+    return result;
+  }
+
   public async fetch(request: Request | string, init?: IRequestInit): Promise<Response> {
     const requestInput = await getRequestIdOrUrl(request);
     const coreFrame = await this.#coreFramePromise;
@@ -201,20 +227,30 @@ export default class FrameEnvironment {
     return coreFrame.getJsValue<T>(path);
   }
 
-  public querySelector(selector: string): ISuperNode {
-    const awaitedPath = new AwaitedPath(null, 'document', ['querySelector', selector]);
+  public querySelector(selector: string, options?: IQuerySelectorOptions): ISuperNode {
+    const jsPath: IJsPath = ['document', ['querySelector', selector]];
+    const awaitedPath = options?.liveQuery
+      ? new LiveAwaitedPath(null, jsPath)
+      : new AwaitedPath(null, ...jsPath);
     const awaitedOptions: IAwaitedOptions = { coreFrame: this.#coreFramePromise };
     return createSuperNode(awaitedPath, awaitedOptions);
   }
 
-  public querySelectorAll(selector: string): ISuperNodeList {
-    const awaitedPath = new AwaitedPath(null, 'document', ['querySelectorAll', selector]);
+  public querySelectorAll(selector: string, options?: IQuerySelectorOptions): ISuperNodeList {
+    const jsPath: IJsPath = ['document', ['querySelectorAll', selector]];
+    const awaitedPath = options?.liveQuery
+      ? new LiveAwaitedPath(null, jsPath)
+      : new AwaitedPath(null, ...jsPath);
     const awaitedOptions: IAwaitedOptions = { coreFrame: this.#coreFramePromise };
     return createSuperNodeList(awaitedPath, awaitedOptions);
   }
 
-  public xpathSelector(xpath: string, orderedNodeResults = false): ISuperNode {
-    return this.document.evaluate(
+  public xpathSelector(
+    xpath: string,
+    orderedNodeResults = false,
+    options?: IQuerySelectorOptions,
+  ): ISuperNode {
+    const node = this.document.evaluate(
       xpath,
       this.document,
       null,
@@ -222,6 +258,10 @@ export default class FrameEnvironment {
         ? XPathResult.FIRST_ORDERED_NODE_TYPE
         : XPathResult.ANY_UNORDERED_NODE_TYPE,
     ).singleNodeValue;
+    if (!options?.liveQuery) return node;
+
+    const { awaitedPath, awaitedOptions } = awaitedPathState.getState(node);
+    return createSuperNode(new LiveAwaitedPath(null, awaitedPath.toJSON()), awaitedOptions);
   }
 
   public async xpathSelectorAll(xpath: string, orderedNodeResults = false): Promise<ISuperNode[]> {
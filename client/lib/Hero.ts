@@ -4,6 +4,10 @@ import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions
 import SuperDocument from 'awaited-dom/impl/super-klasses/SuperDocument';
 import IDomStorage from '@ulixee/unblocked-specification/agent/browser/IDomStorage';
 import IUserProfile from '@ulixee/hero-interfaces/IUserProfile';
+import IHar, { IHarExportOptions } from '@ulixee/hero-interfaces/IHar';
+import IGeneratedExitState, {
+  IExitStateGenerateOptions,
+} from '@ulixee/hero-interfaces/IGeneratedExitState';
 import { IRequestInit } from 'awaited-dom/base/interfaces/official';
 import Response from 'awaited-dom/impl/official-klasses/Response';
 import { ISuperElement, ISuperNode, ISuperNodeList } from 'awaited-dom/base/interfaces/super';
@@ -15,6 +19,11 @@ import {
 } from '@ulixee/unblocked-specification/agent/browser/Location';
 import Request from 'awaited-dom/impl/official-klasses/Request';
 import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
+import IQuerySelectorOptions from '@ulixee/hero-interfaces/IQuerySelectorOptions';
+import IExtractSchema, {
+  IExtractOptions,
+  IExtractResult,
+} from '@ulixee/hero-interfaces/IExtractSchema';
 import {
   IElementIsolate,
   IHTMLFrameElementIsolate,
@@ -24,7 +33,8 @@ import {
 } from 'awaited-dom/base/interfaces/isolate';
 import CSSStyleDeclaration from 'awaited-dom/impl/official-klasses/CSSStyleDeclaration';
 import IHeroMeta from '@ulixee/hero-interfaces/IHeroMeta';
-import IScreenshotOptions from '@ulixee/unblocked-specification/agent/browser/IScreenshotOptions';
+import IScreenshotOptions from '@ulixee/hero-interfaces/IScreenshotOptions';
+import IPdfOptions from '@ulixee/hero-interfaces/IPdfOptions';
 import { INodeVisibility } from '@ulixee/js-path';
 import IClientPlugin, { IClientPluginClass } from '@ulixee/hero-interfaces/IClientPlugin';
 import { PluginTypes } from '@ulixee/hero-interfaces/IPluginTypes';
@@ -32,6 +42,7 @@ import requirePlugins from '@ulixee/hero-plugin-utils/lib/utils/requirePlugins';
 import filterPlugins from '@ulixee/hero-plugin-utils/lib/utils/filterPlugins';
 import extractPlugins from '@ulixee/hero-plugin-utils/lib/utils/extractPlugins';
 import IFlowCommandOptions from '@ulixee/hero-interfaces/IFlowCommandOptions';
+import IFlowHandlerOptions from '@ulixee/hero-interfaces/IFlowHandlerOptions';
 import DisconnectedError from '@ulixee/net/errors/DisconnectedError';
 import { IPluginClass } from '@ulixee/hero-interfaces/IPlugin';
 import {
@@ -41,8 +52,10 @@ import {
 } from '@ulixee/unblocked-specification/agent/interact/IInteractions';
 import IDomState, { IDomStateAllFn } from '@ulixee/hero-interfaces/IDomState';
 import IResourceFilterProperties from '@ulixee/hero-interfaces/IResourceFilterProperties';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
 import WebsocketResource from './WebsocketResource';
 import IWaitForResourceFilter from '../interfaces/IWaitForResourceFilter';
+import { IRegisteredFlowHandler } from '../interfaces/IFlowHandler';
 import Resource from './Resource';
 import Interactor from './Interactor';
 import IInteractions, {
@@ -57,8 +70,11 @@ import IHeroDefaults from '../interfaces/IHeroDefaults';
 import ConnectionFactory from '../connections/ConnectionFactory';
 import FrameEnvironment, { getCoreFrameEnvironmentForPosition } from './FrameEnvironment';
 import FileChooser from './FileChooser';
+import Download from './Download';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
 import DomState from './DomState';
+import PageDefinition from './PageDefinition';
+import { IPageObjectFor } from './PageObject';
 import ConnectionToHeroCore from '../connections/ConnectionToHeroCore';
 import CoreSession from './CoreSession';
 import { InternalPropertiesSymbol, scriptInstance } from './internal';
@@ -308,6 +324,27 @@ export default class Hero extends AwaitedEventTarget<{
     return snippets[snippets.length - 1].value as T;
   }
 
+  public async getPdf(name: string): Promise<Buffer> {
+    const coreSession = await this.#getCoreSessionOrReject();
+    const sessionId = this.#options.replaySessionId ?? (await this.sessionId);
+    const pdfs = await coreSession.getDetachedPdfs(sessionId, name);
+    if (!pdfs.length) return null;
+
+    return pdfs[pdfs.length - 1].pdf;
+  }
+
+  public async getDownloads(): Promise<IDownload[]> {
+    const coreSession = await this.#getCoreSessionOrReject();
+    const sessionId = this.#options.replaySessionId ?? (await this.sessionId);
+    return await coreSession.getDownloads(sessionId);
+  }
+
+  public async getDownloadBuffer(downloadId: string): Promise<Buffer> {
+    const coreSession = await this.#getCoreSessionOrReject();
+    const sessionId = this.#options.replaySessionId ?? (await this.sessionId);
+    return await coreSession.getDownloadBuffer(sessionId, downloadId);
+  }
+
   public async setSnippet(key: string, value: any): Promise<void> {
     const coreSession = await this.#getCoreSessionOrReject();
     await coreSession.setSnippet(key, value);
@@ -379,6 +416,16 @@ export default class Hero extends AwaitedEventTarget<{
     return await coreTab.exportUserProfile();
   }
 
+  public async exportHar(options?: IHarExportOptions): Promise<IHar> {
+    const coreSession = await this.#getCoreSessionOrReject();
+    return await coreSession.exportHar(options);
+  }
+
+  public async generateExitState(options: IExitStateGenerateOptions): Promise<IGeneratedExitState> {
+    const coreSession = await this.#getCoreSessionOrReject();
+    return await coreSession.generateExitState(options);
+  }
+
   // PLUGINS
 
   public use(PluginObject: string | IClientPluginClass | { [name: string]: IPluginClass }): void {
@@ -436,6 +483,13 @@ export default class Hero extends AwaitedEventTarget<{
     return this.activeTab.reload(options);
   }
 
+  public extract<T extends IExtractSchema>(
+    schema: T,
+    options?: IExtractOptions,
+  ): Promise<IExtractResult<T>> {
+    return this.activeTab.extract(schema, options);
+  }
+
   public fetch(request: Request | string, init?: IRequestInit): Promise<Response> {
     return this.activeTab.fetch(request, init);
   }
@@ -462,16 +516,20 @@ export default class Hero extends AwaitedEventTarget<{
     await session.pause();
   }
 
-  public querySelector(selector: string): ISuperNode {
-    return this.activeTab.querySelector(selector);
+  public querySelector(selector: string, options?: IQuerySelectorOptions): ISuperNode {
+    return this.activeTab.querySelector(selector, options);
   }
 
-  public querySelectorAll(selector: string): ISuperNodeList {
-    return this.activeTab.querySelectorAll(selector);
+  public querySelectorAll(selector: string, options?: IQuerySelectorOptions): ISuperNodeList {
+    return this.activeTab.querySelectorAll(selector, options);
   }
 
-  public xpathSelector(xpath: string, orderedNodeResults = false): ISuperNode {
-    return this.activeTab.xpathSelector(xpath, orderedNodeResults);
+  public xpathSelector(
+    xpath: string,
+    orderedNodeResults = false,
+    options?: IQuerySelectorOptions,
+  ): ISuperNode {
+    return this.activeTab.xpathSelector(xpath, orderedNodeResults, options);
   }
 
   public xpathSelectorAll(xpath: string, orderedNodeResults = false): Promise<ISuperNode[]> {
@@ -482,6 +540,10 @@ export default class Hero extends AwaitedEventTarget<{
     return this.activeTab.takeScreenshot(options);
   }
 
+  public printToPdf(options?: IPdfOptions): Promise<Buffer> {
+    return this.activeTab.printToPdf(options);
+  }
+
   public waitForPaintingStable(options?: IWaitForOptions): Promise<void> {
     return this.activeTab.waitForPaintingStable(options);
   }
@@ -511,6 +573,10 @@ export default class Hero extends AwaitedEventTarget<{
     return this.activeTab.waitForFileChooser(options);
   }
 
+  public waitForDownload(options?: IWaitForOptions): Promise<Download> {
+    return this.activeTab.waitForDownload(options);
+  }
+
   public waitForLocation(trigger: ILocationTrigger, options?: IWaitForOptions): Promise<Resource> {
     return this.activeTab.waitForLocation(trigger, options);
   }
@@ -523,6 +589,13 @@ export default class Hero extends AwaitedEventTarget<{
     return this.activeTab.waitForMillis(millis);
   }
 
+  public async waitForPage<T extends PageDefinition<any, any, any>>(
+    pages: T | T[],
+    options?: Pick<IWaitForOptions, 'timeoutMs'>,
+  ): Promise<IPageObjectFor<T>> {
+    return await this.activeTab.waitForPage(pages, options);
+  }
+
   public async waitForState(
     state: IDomState | DomState | IDomStateAllFn,
     options?: Pick<IWaitForOptions, 'timeoutMs'>,
@@ -534,6 +607,10 @@ export default class Hero extends AwaitedEventTarget<{
     return await this.activeTab.validateState(state);
   }
 
+  public async batch<T>(batchFn: () => Promise<T>): Promise<T> {
+    return await this.activeTab.batch(batchFn);
+  }
+
   public async flowCommand(
     commandFn: () => Promise<void>,
     optionsOrExitState?: IDomStateAllFn | IFlowCommandOptions,
@@ -545,8 +622,9 @@ export default class Hero extends AwaitedEventTarget<{
     name: string,
     state: IDomState | DomState | IDomStateAllFn,
     handlerCallbackFn: (error?: Error) => Promise<any>,
-  ): Promise<void> {
-    return await this.activeTab.registerFlowHandler(name, state, handlerCallbackFn);
+    options?: IFlowHandlerOptions,
+  ): Promise<IRegisteredFlowHandler> {
+    return await this.activeTab.registerFlowHandler(name, state, handlerCallbackFn, options);
   }
 
   public async triggerFlowHandlers(): Promise<void> {
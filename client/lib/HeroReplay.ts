@@ -1,3 +1,4 @@
+import IDownload from '@ulixee/hero-interfaces/IDownload';
 import Hero from './Hero';
 import IHeroReplayCreateOptions from '../interfaces/IHeroReplayCreateOptions';
 import DetachedElements from './DetachedElements';
@@ -27,6 +28,18 @@ export default class HeroReplay {
     return this.#hero.getSnippet<T>(key);
   }
 
+  public getPdf(name: string): Promise<Buffer> {
+    return this.#hero.getPdf(name);
+  }
+
+  public getDownloads(): Promise<IDownload[]> {
+    return this.#hero.getDownloads();
+  }
+
+  public getDownloadBuffer(downloadId: string): Promise<Buffer> {
+    return this.#hero.getDownloadBuffer(downloadId);
+  }
+
   public get sessionId(): Promise<string> {
     return this.#hero.sessionId;
   }
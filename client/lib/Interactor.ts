@@ -23,6 +23,7 @@ import IInteractions, {
 } from '../interfaces/IInteractions';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
 import { isAwaitedNode } from './SetupAwaitedHandler';
+import LiveAwaitedPath, { ILiveQuery } from './LiveAwaitedPath';
 
 const { getState } = StateMachine<ISuperElement | ISuperNode, { awaitedPath: AwaitedPath }>();
 
@@ -47,10 +48,24 @@ export default class Interactor {
     interactions: IInteractions,
   ): Promise<void> {
     const interactionGroups = convertToInteractionGroups(interactions);
-    await coreFrame.interact(interactionGroups);
+    await coreFrame.interact(interactionGroups, findLiveQuery(interactions));
   }
 }
 
+function findLiveQuery(interactions: IInteractions): ILiveQuery | undefined {
+  for (const interaction of interactions) {
+    if (typeof interaction === 'string') continue;
+    for (const value of Object.values(interaction)) {
+      const element = isAwaitedNode(value?.element) ? value.element : value;
+      if (!isAwaitedNode(element)) continue;
+
+      const liveQuery = LiveAwaitedPath.toLiveQuery(getState(element).awaitedPath);
+      if (liveQuery) return liveQuery;
+    }
+  }
+  return undefined;
+}
+
 function convertToInteractionGroups(interactions: IInteractions): IInteractionGroups {
   let lastPosition: ICoreMousePosition = [0, 0];
   const interactionGroups: IInteractionGroups = [];
@@ -0,0 +1,105 @@
+import IResourceType from '@ulixee/unblocked-specification/agent/net/IResourceType';
+import IInterceptedRequest, {
+  IInterceptAbortReason,
+  IInterceptAction,
+  IInterceptBody,
+} from '@ulixee/hero-interfaces/IInterceptedRequest';
+import CoreTab from './CoreTab';
+
+export interface IInterceptRewrite {
+  url?: string;
+  method?: string;
+  headers?: { [name: string]: string };
+  body?: string | Buffer;
+}
+
+export interface IInterceptResponse {
+  statusCode?: number;
+  headers?: { [name: string]: string };
+  body?: string | Buffer;
+}
+
+export interface IInterceptedResponse {
+  statusCode: number;
+  headers: { [name: string]: string };
+  body: Buffer;
+}
+
+export default class InterceptedRequest {
+  url: string;
+  method: string;
+  headers: { [name: string]: string };
+  postData?: string;
+  resourceType: IResourceType;
+  // the server response, for requests intercepted at the "response" stage
+  response?: IInterceptedResponse;
+
+  get isResolved(): boolean {
+    return this.#isResolved;
+  }
+
+  #coreTab: Promise<CoreTab>;
+  #interceptId: string;
+  #isResolved = false;
+
+  constructor(coreTab: Promise<CoreTab>, data: IInterceptedRequest) {
+    this.#coreTab = coreTab;
+    this.#interceptId = data.interceptId;
+    this.url = data.url;
+    this.method = data.method;
+    this.headers = data.headers;
+    this.postData = data.postData;
+    this.resourceType = data.resourceType;
+    if (data.response) {
+      const { statusCode, headers, body, bodyEncoding } = data.response;
+      this.response = {
+        statusCode,
+        headers,
+        body: Buffer.from(body ?? '', bodyEncoding === 'base64' ? 'base64' : 'utf8'),
+      };
+    }
+  }
+
+  async continue(overrides?: IInterceptRewrite): Promise<void> {
+    if (!overrides) return this.#resolve({ action: 'continue' });
+    if (this.response) {
+      throw new Error(
+        'A request can not be rewritten after its response was received. Use "fulfill" to change the response.',
+      );
+    }
+
+    const { url, method, headers, body } = overrides;
+    return this.#resolve({ action: 'rewrite', url, method, headers, ...toInterceptBody(body) });
+  }
+
+  async abort(reason?: IInterceptAbortReason): Promise<void> {
+    return this.#resolve({ action: 'abort', reason });
+  }
+
+  async fulfill(response: IInterceptResponse): Promise<void> {
+    const { statusCode, headers, body } = response;
+    return this.#resolve({ action: 'fulfill', statusCode, headers, ...toInterceptBody(body) });
+  }
+
+  async #resolve(action: IInterceptAction): Promise<void> {
+    if (this.#isResolved) {
+      throw new Error(`This request has already been resolved (${this.method} ${this.url})`);
+    }
+    this.#isResolved = true;
+    const coreTab = await this.#coreTab;
+    await coreTab.resolveIntercept(this.#interceptId, action);
+  }
+}
+
+export function createInterceptedRequest(
+  coreTab: Promise<CoreTab>,
+  data: IInterceptedRequest,
+): InterceptedRequest {
+  return new InterceptedRequest(coreTab, data);
+}
+
+function toInterceptBody(body: string | Buffer): IInterceptBody {
+  if (body === undefined || body === null) return {};
+  if (Buffer.isBuffer(body)) return { body: body.toString('base64'), bodyEncoding: 'base64' };
+  return { body };
+}
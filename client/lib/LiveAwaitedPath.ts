@@ -0,0 +1,39 @@
+import AwaitedPath from 'awaited-dom/base/AwaitedPath';
+import { IJsPath } from '@ulixee/js-path';
+import ILiveQueryResolution from '@ulixee/hero-interfaces/ILiveQueryResolution';
+
+export type ILiveQuery = Omit<ILiveQueryResolution, 'error'>;
+
+/**
+ * An AwaitedPath that keeps the original selector path after it resolves to a node, so every
+ * action re-runs the selector instead of pointing at a node that might have been replaced.
+ */
+export default class LiveAwaitedPath extends AwaitedPath {
+  public static retryDelayMs = 100;
+
+  constructor(parent: object | null, jsPath: IJsPath, readonly resolvedNodeId?: number) {
+    super(parent, ...jsPath);
+  }
+
+  public override addProperty(parent: object | null, name: string): AwaitedPath {
+    return new LiveAwaitedPath(parent, [...this.toJSON(), name], this.resolvedNodeId);
+  }
+
+  public override addMethod(parent: object | null, name: string, ...args: any[]): AwaitedPath {
+    return new LiveAwaitedPath(parent, [...this.toJSON(), [name, ...args]], this.resolvedNodeId);
+  }
+
+  public override withNodeId(parent: object | null, id: number): AwaitedPath {
+    // items iterated out of a live list don't know their index, so they have to track the node
+    if (parent !== this.parent) return super.withNodeId(parent, id);
+    return new LiveAwaitedPath(parent, this.toJSON(), id);
+  }
+
+  public toLiveQuery(): ILiveQuery {
+    return { jsPath: this.toJSON(), previousNodeId: this.resolvedNodeId };
+  }
+
+  public static toLiveQuery(awaitedPath: AwaitedPath): ILiveQuery | undefined {
+    return awaitedPath instanceof LiveAwaitedPath ? awaitedPath.toLiveQuery() : undefined;
+  }
+}
@@ -0,0 +1,51 @@
+import IPageDefinition, {
+  IPageActionsDefinition,
+  IPageElementsDefinition,
+  IPageStatesDefinition,
+} from '../interfaces/IPageDefinition';
+
+export default class PageDefinition<
+  TElements extends IPageElementsDefinition = IPageElementsDefinition,
+  TStates extends IPageStatesDefinition<TElements> = IPageStatesDefinition<TElements>,
+  TActions extends IPageActionsDefinition<TElements> = IPageActionsDefinition<TElements>,
+> {
+  public readonly name: string;
+  public readonly url?: string | RegExp;
+  public readonly elements: TElements;
+  public readonly states: TStates;
+  public readonly actions: TActions;
+
+  constructor(definition: IPageDefinition<TElements, TStates, TActions>) {
+    const { name, url, elements, states, actions } = definition;
+    if (!url && !Object.keys(states ?? {}).length) {
+      throw new Error(
+        `The page definition${
+          name ? ` (${name})` : ''
+        } needs a url or at least one state to detect when it's loaded.`,
+      );
+    }
+    for (const [actionName, action] of Object.entries(actions ?? {})) {
+      if (typeof action === 'function' || !action.exitState) continue;
+      if (!states?.[action.exitState]) {
+        throw new Error(
+          `The "${actionName}" action has an exitState (${action.exitState}) that isn't one of the page states.`,
+        );
+      }
+    }
+    this.name = name ?? (url ? String(url) : Object.keys(states).join('|'));
+    this.url = url;
+    this.elements = elements ?? ({} as TElements);
+    this.states = states ?? ({} as TStates);
+    this.actions = actions ?? ({} as TActions);
+  }
+}
+
+export function definePage<
+  TElements extends IPageElementsDefinition,
+  TStates extends IPageStatesDefinition<TElements>,
+  TActions extends IPageActionsDefinition<TElements>,
+>(
+  definition: IPageDefinition<TElements, TStates, TActions>,
+): PageDefinition<TElements, TStates, TActions> {
+  return new PageDefinition(definition);
+}
@@ -0,0 +1,104 @@
+import IDomState from '@ulixee/hero-interfaces/IDomState';
+import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
+import IFlowCommandOptions from '@ulixee/hero-interfaces/IFlowCommandOptions';
+import stringToRegex from '@ulixee/hero-plugin-utils/lib/utils/stringToRegex';
+import {
+  IPageActions,
+  IPageActionsDefinition,
+  IPageActionWithOptions,
+  IPageContext,
+  IPageElements,
+  IPageElementsDefinition,
+  IPageStatesDefinition,
+} from '../interfaces/IPageDefinition';
+import PageDefinition from './PageDefinition';
+import Tab from './Tab';
+
+export type IPageObjectFor<T> = T extends PageDefinition<infer E, infer S, infer A>
+  ? PageObject<E, S, A>
+  : never;
+
+export default class PageObject<
+  TElements extends IPageElementsDefinition = IPageElementsDefinition,
+  TStates extends IPageStatesDefinition<TElements> = IPageStatesDefinition<TElements>,
+  TActions extends IPageActionsDefinition<TElements> = IPageActionsDefinition<TElements>,
+> implements IPageContext<TElements>
+{
+  public readonly elements: IPageElements<TElements>;
+  public readonly actions: IPageActions<TActions>;
+  // the state that matched when this page was detected by waitForPage
+  public state?: keyof TStates & string;
+
+  public get name(): string {
+    return this.definition.name;
+  }
+
+  constructor(
+    readonly definition: PageDefinition<TElements, TStates, TActions>,
+    readonly tab: Tab,
+  ) {
+    this.elements = {} as IPageElements<TElements>;
+    for (const [name, selector] of Object.entries(definition.elements)) {
+      // resolved on every access so each use queries the current DOM
+      Object.defineProperty(this.elements, name, {
+        enumerable: true,
+        get: () => (typeof selector === 'string' ? tab.querySelector(selector) : selector(tab)),
+      });
+    }
+
+    const actions: { [name: string]: (...args: any[]) => Promise<any> } = {};
+    for (const [name, action] of Object.entries(definition.actions)) {
+      const { run, exitState, ...options }: IPageActionWithOptions<TElements> =
+        typeof action === 'function' ? { run: action } : action;
+      const flowOptions: IFlowCommandOptions = options;
+      if (exitState) flowOptions.exitState = this.getDomState(exitState);
+
+      actions[name] = (...args) => tab.flowCommand(() => run(this, ...args), flowOptions);
+    }
+    this.actions = actions as IPageActions<TActions>;
+  }
+
+  public is<T extends PageDefinition<any, any, any>>(definition: T): this is IPageObjectFor<T> {
+    return this.definition === definition;
+  }
+
+  public async waitForState(
+    stateName: keyof TStates & string,
+    options?: Pick<IWaitForOptions, 'timeoutMs'>,
+  ): Promise<void> {
+    await this.tab.waitForState(this.getDomState(stateName), options);
+  }
+
+  public async validateState(stateName: keyof TStates & string): Promise<boolean> {
+    return await this.tab.validateState(this.getDomState(stateName));
+  }
+
+  public getDomStates(): { name: keyof TStates & string; state: IDomState }[] {
+    const stateNames = Object.keys(this.definition.states);
+    // without states, a page is detected by its url alone
+    if (!stateNames.length) return [{ name: undefined, state: this.createDomState() }];
+
+    return stateNames.map(name => ({ name, state: this.getDomState(name) }));
+  }
+
+  public getDomState(stateName: keyof TStates & string): IDomState {
+    const state = this.definition.states[stateName];
+    if (!state) {
+      throw new Error(`"${stateName}" is not a state of the page definition (${this.name}).`);
+    }
+    return this.createDomState(state);
+  }
+
+  private createDomState(state?: TStates[keyof TStates]): IDomState {
+    const url = (typeof state === 'object' ? state.url : null) ?? this.definition.url;
+    const urlRegex = typeof url === 'string' ? stringToRegex(url) : url;
+    return {
+      url,
+      all: assert => {
+        if (urlRegex) assert(this.tab.url, currentUrl => urlRegex.test(currentUrl));
+        if (typeof state === 'function') state(assert, this);
+        else state?.all(assert);
+      },
+    };
+  }
+}
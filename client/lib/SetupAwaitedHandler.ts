@@ -8,6 +8,7 @@ import StateMachine from 'awaited-dom/base/StateMachine';
 import NodeFactory from 'awaited-dom/base/NodeFactory';
 import IAwaitedOptions from '../interfaces/IAwaitedOptions';
 import CoreFrameEnvironment from './CoreFrameEnvironment';
+import LiveAwaitedPath from './LiveAwaitedPath';
 
 export const delegate = {
   getProperty,
@@ -40,7 +41,7 @@ async function getProperty<T, TClass>(
   const { awaitedPath, coreFrame, awaitedOptions } = await getAwaitedState(stateHandler, instance);
   const finalPath = awaitedPath.addProperty(instance as any, name);
 
-  const result = await execJsPath<T>(coreFrame, awaitedOptions, finalPath.toJSON());
+  const result = await execJsPath<T>(coreFrame, awaitedOptions, finalPath);
   return cleanResult(stateHandler, instance, result, new Error().stack);
 }
 
@@ -63,7 +64,7 @@ async function runMethod<T, TClass>(
   const { awaitedPath, coreFrame, awaitedOptions } = await getAwaitedState(stateHandler, instance);
   const finalPath = awaitedPath.addMethod(instance as any, name, ...args);
 
-  const result = await execJsPath<T>(coreFrame, awaitedOptions, finalPath.toJSON());
+  const result = await execJsPath<T>(coreFrame, awaitedOptions, finalPath);
   return cleanResult(stateHandler, instance, result, new Error().stack);
 }
 
@@ -74,7 +75,7 @@ async function createNodePointer<TClass>(
   const { awaitedPath, coreFrame, awaitedOptions } = await getAwaitedState(stateHandler, instance);
   const finalPath = awaitedPath.addMethod(instance as any, getNodePointerFnName);
 
-  const result = await execJsPath<null>(coreFrame, awaitedOptions, finalPath.toJSON());
+  const result = await execJsPath<null>(coreFrame, awaitedOptions, finalPath);
   return result?.nodePointer;
 }
 
@@ -154,10 +155,11 @@ export function convertJsPathArgs(path: IJsPath): void {
 export async function execJsPath<T>(
   coreFrame: CoreFrameEnvironment,
   awaitedOptions: IAwaitedOptions,
-  path: IJsPath,
+  awaitedPath: AwaitedPath,
 ): Promise<IExecJsPathResult<T>> {
+  const path = awaitedPath.toJSON();
   convertJsPathArgs(path);
-  return await coreFrame.execJsPath<T>(path);
+  return await coreFrame.execJsPath<T>(path, LiveAwaitedPath.toLiveQuery(awaitedPath));
 }
 
 export function cleanResult<T, TClass>(
@@ -13,6 +13,12 @@ import IWaitForResourceOptions from '@ulixee/hero-interfaces/IWaitForResourceOpt
 import IWaitForElementOptions from '@ulixee/hero-interfaces/IWaitForElementOptions';
 import Response from 'awaited-dom/impl/official-klasses/Response';
 import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
+import TimeoutError from '@ulixee/commons/interfaces/TimeoutError';
+import IQuerySelectorOptions from '@ulixee/hero-interfaces/IQuerySelectorOptions';
+import IExtractSchema, {
+  IExtractOptions,
+  IExtractResult,
+} from '@ulixee/hero-interfaces/IExtractSchema';
 import {
   IElementIsolate,
   IHTMLFrameElementIsolate,
@@ -20,12 +26,20 @@ import {
   IHTMLObjectElementIsolate,
   INodeIsolate,
 } from 'awaited-dom/base/interfaces/isolate';
-import IScreenshotOptions from '@ulixee/unblocked-specification/agent/browser/IScreenshotOptions';
+import IScreenshotOptions, {
+  ICoreScreenshotOptions,
+} from '@ulixee/hero-interfaces/IScreenshotOptions';
+import IPdfOptions from '@ulixee/hero-interfaces/IPdfOptions';
 import AwaitedPath from 'awaited-dom/base/AwaitedPath';
 import { INodeVisibility } from '@ulixee/js-path';
 import IResourceFilterProperties from '@ulixee/hero-interfaces/IResourceFilterProperties';
 import IDomState, { IDomStateAllFn } from '@ulixee/hero-interfaces/IDomState';
 import IFlowCommandOptions from '@ulixee/hero-interfaces/IFlowCommandOptions';
+import IFlowHandlerOptions from '@ulixee/hero-interfaces/IFlowHandlerOptions';
+import { IInterceptFilter } from '@ulixee/hero-interfaces/IInterceptedRequest';
+import IBlockedResources, {
+  IBlockedResourceStats,
+} from '@ulixee/hero-interfaces/IBlockedResources';
 import CoreTab from './CoreTab';
 import Resource, { createResource } from './Resource';
 import IWaitForResourceFilter from '../interfaces/IWaitForResourceFilter';
@@ -38,9 +52,14 @@ import CoreFrameEnvironment from './CoreFrameEnvironment';
 import IAwaitedOptions from '../interfaces/IAwaitedOptions';
 import Dialog from './Dialog';
 import FileChooser from './FileChooser';
+import Download from './Download';
+import InterceptedRequest from './InterceptedRequest';
 import DomState from './DomState';
+import PageDefinition from './PageDefinition';
+import PageObject, { IPageObjectFor } from './PageObject';
 import { InternalPropertiesSymbol, scriptInstance } from './internal';
 import IWaitForResourcesFilter from '../interfaces/IWaitForResourcesFilter';
+import { IRegisteredFlowHandler } from '../interfaces/IFlowHandler';
 
 const awaitedPathState = StateMachine<
   any,
@@ -165,6 +184,13 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     return Resource.findAll(this, filter, options);
   }
 
+  public async extract<T extends IExtractSchema>(
+    schema: T,
+    options?: IExtractOptions,
+  ): Promise<IExtractResult<T>> {
+    return await this.mainFrameEnvironment.extract(schema, options);
+  }
+
   public async fetch(request: Request | string, init?: IRequestInit): Promise<Response> {
     return await this.mainFrameEnvironment.fetch(request, init);
   }
@@ -220,16 +246,20 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     return await this.mainFrameEnvironment.getComputedVisibility(node);
   }
 
-  public querySelector(selector: string): ISuperNode {
-    return this.mainFrameEnvironment.querySelector(selector);
+  public querySelector(selector: string, options?: IQuerySelectorOptions): ISuperNode {
+    return this.mainFrameEnvironment.querySelector(selector, options);
   }
 
-  public querySelectorAll(selector: string): ISuperNodeList {
-    return this.mainFrameEnvironment.querySelectorAll(selector);
+  public querySelectorAll(selector: string, options?: IQuerySelectorOptions): ISuperNodeList {
+    return this.mainFrameEnvironment.querySelectorAll(selector, options);
   }
 
-  public xpathSelector(xpath: string, orderedNodeResults = false): ISuperNode {
-    return this.mainFrameEnvironment.xpathSelector(xpath, orderedNodeResults);
+  public xpathSelector(
+    xpath: string,
+    orderedNodeResults = false,
+    options?: IQuerySelectorOptions,
+  ): ISuperNode {
+    return this.mainFrameEnvironment.xpathSelector(xpath, orderedNodeResults, options);
   }
 
   public xpathSelectorAll(xpath: string, orderedNodeResults = false): Promise<ISuperNode[]> {
@@ -237,8 +267,20 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
   }
 
   public async takeScreenshot(options?: IScreenshotOptions): Promise<Buffer> {
+    const { element, ...screenshotOptions } = options ?? {};
+    const coreOptions: ICoreScreenshotOptions = screenshotOptions;
+    if (element) {
+      const { awaitedPath, awaitedOptions } = awaitedPathState.getState(element);
+      const elementCoreFrame = await awaitedOptions.coreFrame;
+      coreOptions.element = { frameId: elementCoreFrame.frameId, jsPath: awaitedPath.toJSON() };
+    }
+    const coreTab = await this.#coreTabPromise;
+    return coreTab.takeScreenshot(coreOptions);
+  }
+
+  public async printToPdf(options?: IPdfOptions): Promise<Buffer> {
     const coreTab = await this.#coreTabPromise;
-    return coreTab.takeScreenshot(options);
+    return coreTab.printToPdf(options);
   }
 
   public async waitForFileChooser(options?: IWaitForOptions): Promise<FileChooser> {
@@ -248,6 +290,30 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     return new FileChooser(Promise.resolve(coreFrame), prompt);
   }
 
+  public async waitForDownload(options?: IWaitForOptions): Promise<Download> {
+    const coreTab = await this.#coreTabPromise;
+    const download = await coreTab.waitForDownload(options);
+    return new Download(Promise.resolve(coreTab), download);
+  }
+
+  public async setBlockedResources(options: IBlockedResources): Promise<void> {
+    const coreTab = await this.#coreTabPromise;
+    await coreTab.setBlockedResources(options);
+  }
+
+  public async getBlockedResourceStats(): Promise<IBlockedResourceStats> {
+    const coreTab = await this.#coreTabPromise;
+    return coreTab.getBlockedResourceStats();
+  }
+
+  public async intercept(
+    filter: IInterceptFilter,
+    handler: (request: InterceptedRequest) => Promise<void> | void,
+  ): Promise<() => Promise<void>> {
+    const coreTab = await this.#coreTabPromise;
+    return await coreTab.intercept(filter, handler);
+  }
+
   public async waitForPaintingStable(options?: IWaitForOptions): Promise<void> {
     return await this.mainFrameEnvironment.waitForPaintingStable(options);
   }
@@ -256,6 +322,42 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     return await this.mainFrameEnvironment.waitForLoad(status, options);
   }
 
+  public async waitForPage<T extends PageDefinition<any, any, any>>(
+    pages: T | T[],
+    options: Pick<IWaitForOptions, 'timeoutMs'> = { timeoutMs: 30e3 },
+  ): Promise<IPageObjectFor<T>> {
+    const pageObjects = (Array.isArray(pages) ? pages : [pages]).map(
+      page => new PageObject(page, this),
+    );
+    const candidates = pageObjects.reduce(
+      (list, page) =>
+        list.concat(
+          page.getDomStates().map(({ name, state }) => ({ page, stateName: name, state })),
+        ),
+      [] as { page: PageObject<any, any, any>; stateName: string; state: IDomState }[],
+    );
+    const coreTab = await this.#coreTabPromise;
+    let index: number;
+    try {
+      index = await coreTab.waitForAnyState(
+        candidates.map(x => ({
+          name: [x.page.name, x.stateName].filter(Boolean).join('.'),
+          state: x.state,
+        })),
+        options,
+      );
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) throw error;
+      const names = pageObjects.map(x => x.name).join(', ');
+      throw new TimeoutError(`Timeout waiting for one of these pages to load: ${names}`);
+    }
+    if (index === -1) return null;
+
+    const { page, stateName } = candidates[index];
+    page.state = stateName;
+    return page as IPageObjectFor<T>;
+  }
+
   public async waitForState(
     state: IDomState | DomState | IDomStateAllFn,
     options: Pick<IWaitForOptions, 'timeoutMs'> = { timeoutMs: 30e3 },
@@ -274,11 +376,12 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     name: string,
     state: IDomState | DomState | IDomStateAllFn,
     handlerFn: (error?: Error) => Promise<any>,
-  ): Promise<void> {
+    options?: IFlowHandlerOptions,
+  ): Promise<IRegisteredFlowHandler> {
     const callsitePath = scriptInstance.getScriptCallsite();
 
     const coreTab = await this.#coreTabPromise;
-    await coreTab.registerFlowHandler(name, state, handlerFn, callsitePath);
+    return await coreTab.registerFlowHandler(name, state, handlerFn, callsitePath, options);
   }
 
   public async triggerFlowHandlers(): Promise<void> {
@@ -286,6 +389,11 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     await coreTab.triggerFlowHandlers();
   }
 
+  public async batch<T>(batchFn: () => Promise<T>): Promise<T> {
+    const coreTab = await this.#coreTabPromise;
+    return await coreTab.commandQueue.batch(batchFn);
+  }
+
   public async flowCommand<T = void>(
     commandFn: () => Promise<T>,
     optionsOrExitState?: IDomStateAllFn | IFlowCommandOptions,
@@ -299,12 +407,7 @@ export default class Tab extends AwaitedEventTarget<IEventType> {
     if (optionsOrExitState) {
       if (typeof optionsOrExitState === 'function') exitState = { all: optionsOrExitState };
       else {
-        if ('maxRetries' in optionsOrExitState) {
-          options = { maxRetries: optionsOrExitState.maxRetries };
-        }
-        if ('exitState' in optionsOrExitState) {
-          exitState = optionsOrExitState.exitState;
-        }
+        ({ exitState, ...options } = optionsOrExitState);
       }
     }
 
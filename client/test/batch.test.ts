@@ -0,0 +1,136 @@
+import { Helpers } from '@ulixee/hero-testing';
+import { ICoreBatchCommand } from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
+import Hero from '../index';
+import MockConnectionToCore from './_MockConnectionToCore';
+
+afterAll(Helpers.afterAll);
+
+function createConnection(): MockConnectionToCore {
+  return new MockConnectionToCore(async payload => {
+    const { command, args, messageId: responseId } = payload;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    if (command === 'Core.createSession') {
+      return {
+        responseId,
+        data: { tabId: 'tab-id', sessionId: 'session-id', frameId: 1 },
+      };
+    }
+    if (command === 'Core.runBatch') {
+      const [commands] = args as [ICoreBatchCommand[]];
+      return {
+        responseId,
+        data: commands.map(x => {
+          if (x.command === 'FrameEnvironment.getJsValue') return { error: new Error('Not found') };
+          const [jsPath] = x.args;
+          return { data: { value: `${jsPath[1]}-${x.commandId}` } };
+        }),
+      };
+    }
+    return {
+      responseId,
+      data: {},
+    };
+  });
+}
+
+describe('batch tests', () => {
+  it('sends commands issued together in a single request', async () => {
+    const connectionToCore = createConnection();
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    const results = await hero.batch(() =>
+      Promise.all([hero.document.title, hero.document.URL, hero.document.characterSet]),
+    );
+    await hero.close();
+
+    const outgoingCommands = connectionToCore.outgoingSpy.mock.calls;
+    expect(outgoingCommands.map(x => x[0].command)).toMatchObject([
+      'Core.connect',
+      'Core.createSession',
+      'Core.runBatch',
+      'Session.close',
+    ]);
+    const batched: ICoreBatchCommand[] = outgoingCommands[2][0].args[0];
+    expect(batched.map(x => x.command)).toEqual([
+      'FrameEnvironment.execJsPath',
+      'FrameEnvironment.execJsPath',
+      'FrameEnvironment.execJsPath',
+    ]);
+    expect(batched.map(x => x.commandId)).toEqual([1, 2, 3]);
+    expect(batched[0].meta).toMatchObject({ sessionId: 'session-id', tabId: 'tab-id', frameId: 1 });
+    expect(results).toEqual(['title-1', 'URL-2', 'characterSet-3']);
+  });
+
+  it('rejects only the commands that failed', async () => {
+    const connectionToCore = createConnection();
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    const settle = (promise: Promise<any>): Promise<{ value?: any; error?: Error }> =>
+      promise.then(value => ({ value })).catch(error => ({ error }));
+    const results = await hero.batch(() =>
+      Promise.all([settle(hero.document.title), settle(hero.getJsValue('missing'))]),
+    );
+    await hero.close();
+
+    // getJsValue can reach the queue first, so the command id isn't fixed
+    expect(results[0]).toEqual({ value: expect.stringMatching(/^title-\d$/) });
+    expect(results[1]).toEqual({ error: expect.any(Error) });
+  });
+
+  it('sends dependent commands on their own', async () => {
+    const connectionToCore = createConnection();
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    await hero.batch(async () => {
+      await hero.document.title;
+      await hero.document.URL;
+    });
+    await hero.close();
+
+    const outgoingCommands = connectionToCore.outgoingSpy.mock.calls.map(x => x[0].command);
+    expect(outgoingCommands).not.toContain('Core.runBatch');
+    expect(outgoingCommands.filter(x => x === 'FrameEnvironment.execJsPath')).toHaveLength(2);
+  });
+
+  it('only batches commands issued inside the batch function', async () => {
+    const connectionToCore = createConnection();
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+    await hero.activeTab.tabId;
+
+    const outside = hero.getJsValue('outside');
+    await hero.batch(() => Promise.all([hero.document.title, hero.document.URL]));
+    await outside;
+    await hero.close();
+
+    const outgoingCommands = connectionToCore.outgoingSpy.mock.calls;
+    const batches = outgoingCommands.filter(x => x[0].command === 'Core.runBatch');
+    expect(batches).toHaveLength(1);
+    expect(batches[0][0].args[0].map(x => x.command)).toEqual([
+      'FrameEnvironment.execJsPath',
+      'FrameEnvironment.execJsPath',
+    ]);
+    expect(outgoingCommands.map(x => x[0].command)).toContain('FrameEnvironment.getJsValue');
+  });
+
+  it('does not batch commands that wait on the page', async () => {
+    const connectionToCore = createConnection();
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    await hero.batch(() =>
+      Promise.all([hero.document.title, hero.waitForMillis(10), hero.document.URL]),
+    );
+    await hero.close();
+
+    const outgoingCommands = connectionToCore.outgoingSpy.mock.calls;
+    expect(outgoingCommands.map(x => x[0].command)).toContain('Tab.waitForMillis');
+    const batched: ICoreBatchCommand[] = outgoingCommands
+      .filter(x => x[0].command === 'Core.runBatch')
+      .reduce((list, x) => list.concat(x[0].args[0]), []);
+    expect(batched.map(x => x.command)).not.toContain('Tab.waitForMillis');
+  });
+});
@@ -5,6 +5,7 @@ import { getState as getElementState } from 'awaited-dom/base/official-klasses/E
 import IExecJsPathResult from '@ulixee/unblocked-specification/agent/browser/IExecJsPathResult';
 import { getNodePointerFnName } from '@ulixee/unblocked-specification/agent/browser/IJsPathFunctions';
 import { Helpers } from '@ulixee/hero-testing';
+import NodeNotFoundError from '@ulixee/hero-interfaces/NodeNotFoundError';
 import Hero from '../index';
 import MockConnectionToCore from './_MockConnectionToCore';
 
@@ -64,4 +65,129 @@ describe('document tests', () => {
     expect(outgoingCommands[2][0].args).toMatchObject([[...jsPath, [getNodePointerFnName]]]);
     expect(outgoingCommands[3][0].args).toMatchObject([[1, 'tagName']]);
   });
+
+  it('re-resolves live querySelectors for each action', async () => {
+    let textContentRequests = 0;
+    const connectionToCore = new MockConnectionToCore(async payload => {
+      const { command, args, messageId: responseId } = payload;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (command === 'Core.createSession') {
+        return {
+          responseId,
+          data: { tabId: 'tab-id', sessionId: 'session-id' },
+        };
+      }
+      if (command === 'FrameEnvironment.execJsPath') {
+        const [jsPath] = args as any;
+        const lastPath = jsPath[jsPath.length - 1];
+        if (lastPath && lastPath[0] === getNodePointerFnName) {
+          return {
+            responseId,
+            data: {
+              value: null,
+              nodePointer: { id: 1 },
+            } as IExecJsPathResult,
+          };
+        }
+        if (lastPath === 'textContent') {
+          textContentRequests += 1;
+          // the page replaced the node before it could be read
+          if (textContentRequests === 1) {
+            return {
+              responseId,
+              data: new NodeNotFoundError(
+                `Cannot read properties of null (reading 'textContent')`,
+                { step: 'textContent', index: 2 },
+              ),
+            };
+          }
+          return { responseId, data: { value: 'Replaced' } as IExecJsPathResult };
+        }
+      }
+      return {
+        responseId,
+        data: {},
+      };
+    });
+
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    const element = await hero.querySelector('h1', { liveQuery: true });
+    const jsPath = getElementState(element).awaitedPath.toJSON();
+    expect(jsPath).toMatchObject(['document', ['querySelector', 'h1']]);
+
+    await expect(element.textContent).resolves.toBe('Replaced');
+    await hero.close();
+
+    const outgoingCommands = connectionToCore.outgoingSpy.mock.calls.map(x => x[0]);
+    const textContentCommands = outgoingCommands.filter(
+      x => x.command === 'FrameEnvironment.execJsPath' && x.args[0].includes('textContent'),
+    );
+    expect(textContentCommands).toHaveLength(2);
+    expect(textContentCommands[0].args).toMatchObject([
+      ['document', ['querySelector', 'h1'], 'textContent'],
+    ]);
+    expect(textContentCommands[0].liveQueryResolution).toBeUndefined();
+    expect(textContentCommands[1].commandId).toBe(textContentCommands[0].commandId);
+    expect(textContentCommands[1].retryNumber).toBe(1);
+    expect(textContentCommands[1].liveQueryResolution).toMatchObject({
+      jsPath: ['document', ['querySelector', 'h1'], 'textContent'],
+      previousNodeId: 1,
+      error: expect.stringContaining('Cannot read properties of null'),
+    });
+  });
+
+  it('only retries live queries when the node is missing', async () => {
+    const connectionToCore = new MockConnectionToCore(async payload => {
+      const { command, args, messageId: responseId } = payload;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (command === 'Core.createSession') {
+        return {
+          responseId,
+          data: { tabId: 'tab-id', sessionId: 'session-id' },
+        };
+      }
+      if (command === 'FrameEnvironment.execJsPath') {
+        const [jsPath] = args as any;
+        if (jsPath.includes('textContent')) {
+          return {
+            responseId,
+            data: new NodeNotFoundError(`Cannot read properties of null (reading 'textContent')`),
+          };
+        }
+        if (jsPath.includes('tagName')) {
+          return { responseId, data: new Error(`Failed to execute 'querySelectorAll'`) };
+        }
+      }
+      return {
+        responseId,
+        data: {},
+      };
+    });
+
+    const hero = new Hero({ connectionToCore });
+    Helpers.needsClosing.push(hero);
+
+    const items = hero.querySelectorAll('li', { liveQuery: true });
+    await expect(items.item(0).textContent).rejects.toThrow('Cannot read properties of null');
+    await expect(items.item(0).tagName).rejects.toThrow(`Failed to execute 'querySelectorAll'`);
+    // a plain query with the same selector isn't retried
+    await expect(hero.querySelectorAll('li').item(0).textContent).rejects.toThrow(
+      'Cannot read properties of null',
+    );
+    await hero.close();
+
+    const execCommands = connectionToCore.outgoingSpy.mock.calls
+      .map(x => x[0])
+      .filter(x => x.command === 'FrameEnvironment.execJsPath');
+    expect(execCommands.map(x => x.retryNumber ?? 0)).toEqual([0, 1, 2, 0, 0]);
+    expect(execCommands[1].args).toMatchObject([
+      ['document', ['querySelectorAll', 'li'], ['item', 0], 'textContent'],
+    ]);
+    expect(execCommands[1].liveQuery).toBeUndefined();
+    expect(execCommands[2].liveQueryResolution).toMatchObject({
+      jsPath: ['document', ['querySelectorAll', 'li'], ['item', 0], 'textContent'],
+    });
+  });
 });
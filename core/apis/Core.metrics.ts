@@ -0,0 +1,13 @@
+import Core from '../index';
+
+export default function coreMetricsApi(): ICoreMetricsResult {
+  return {
+    contentType: 'text/plain; version=0.0.4',
+    metrics: Core.getMetrics(),
+  };
+}
+
+interface ICoreMetricsResult {
+  contentType: string;
+  metrics: string;
+}
@@ -0,0 +1,196 @@
+import ICommandMeta from '@ulixee/hero-interfaces/ICommandMeta';
+import SessionDb from '../dbs/SessionDb';
+import ImageDiffer from '../lib/ImageDiffer';
+import { loadCommandTimeline } from './Session.commands';
+
+export default async function sessionCompareScreenshotsApi(
+  args: ISessionCompareScreenshotsArgs,
+): Promise<ISessionCompareScreenshotsResult> {
+  const { sessionIdA, sessionIdB, ...options } = args;
+  const matchBy = options.matchBy ?? 'command';
+
+  const screenshotsA = loadScreenshots(sessionIdA, matchBy);
+  const screenshotsB = loadScreenshots(sessionIdB, matchBy);
+
+  const comparisons: IScreenshotComparison[] = [];
+  const imageDiffer = new ImageDiffer();
+  try {
+    for (const [key, screenshotA] of screenshotsA) {
+      const screenshotB = screenshotsB.get(key);
+      comparisons.push(
+        await compareScreenshots(imageDiffer, key, screenshotA, screenshotB, options),
+      );
+    }
+    for (const [key, screenshotB] of screenshotsB) {
+      if (screenshotsA.has(key)) continue;
+      comparisons.push(await compareScreenshots(imageDiffer, key, null, screenshotB, options));
+    }
+  } finally {
+    await imageDiffer.close();
+  }
+
+  return {
+    comparisons,
+    changed: comparisons.filter(x => x.status === 'changed').length,
+  };
+}
+
+/////// HELPER FUNCTIONS  //////////////////////////////////////////////////////////////////////////////////////////////
+
+function loadScreenshots(
+  sessionId: string,
+  matchBy: ISessionCompareScreenshotsArgs['matchBy'],
+): Map<string, IMatchedScreenshot> {
+  // flushes an active session
+  const { commands } = loadCommandTimeline({ sessionId });
+  const sessionDb = SessionDb.getCached(sessionId, true);
+
+  const screenshots = sessionDb.screenshots
+    .all()
+    .map(x => ({ ...x, timestamp: Number(x.timestamp) }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const occurrencesByCallsite = new Map<string, number>();
+  const screenshotsByKey = new Map<string, IMatchedScreenshot>();
+  for (const screenshot of screenshots) {
+    const command = findCommand(commands, screenshot.commandId, screenshot.timestamp);
+    if (!command) continue;
+
+    const callsite = formatCallsite(command);
+    let key = String(command.id);
+    if (matchBy === 'callsite') {
+      if (!callsite) continue;
+      // a callsite in a loop will take a screenshot on each iteration
+      const occurrence = (occurrencesByCallsite.get(callsite) ?? 0) + 1;
+      occurrencesByCallsite.set(callsite, occurrence);
+      key = occurrence > 1 ? `${callsite} (${occurrence})` : callsite;
+    }
+
+    screenshotsByKey.set(key, {
+      tabId: screenshot.tabId,
+      commandId: command.id,
+      callsite,
+      timestamp: screenshot.timestamp,
+      image: screenshot.image,
+    });
+  }
+  return screenshotsByKey;
+}
+
+function findCommand(
+  commands: ICommandMeta[],
+  commandId: number,
+  timestamp: number,
+): ICommandMeta | undefined {
+  let match: ICommandMeta;
+  for (const command of commands) {
+    if (commandId) {
+      if (command.id === commandId) match = command;
+      continue;
+    }
+    // screenshots recorded before command ids were stored are matched to the last command run
+    if (command.runStartDate > timestamp) break;
+    match = command;
+  }
+  return match;
+}
+
+function formatCallsite(command: ICommandMeta): string {
+  if (!command.callsite?.length) return null;
+  return command.callsite.map(x => `${x.filename}:${x.line}:${x.column}`).join(' < ');
+}
+
+async function compareScreenshots(
+  imageDiffer: ImageDiffer,
+  key: string,
+  screenshotA: IMatchedScreenshot,
+  screenshotB: IMatchedScreenshot,
+  options: IScreenshotComparisonOptions,
+): Promise<IScreenshotComparison> {
+  const comparison: IScreenshotComparison = {
+    key,
+    status: 'unchanged',
+    screenshotA: toComparedScreenshot(screenshotA),
+    screenshotB: toComparedScreenshot(screenshotB),
+  };
+  if (!screenshotA || !screenshotB) {
+    comparison.status = screenshotA ? 'removed' : 'added';
+    return comparison;
+  }
+
+  const diff = await imageDiffer.diff(screenshotA.image, screenshotB.image, {
+    threshold: options.threshold ?? 0.1,
+    includeDiffImage: options.includeDiffImages !== false,
+  });
+  if (diff.unsupportedReason) {
+    comparison.status = 'unsupported';
+    comparison.unsupportedReason = diff.unsupportedReason;
+    return comparison;
+  }
+
+  Object.assign(comparison.screenshotA, diff.sizeA);
+  Object.assign(comparison.screenshotB, diff.sizeB);
+  comparison.diffPixels = diff.diffPixels;
+  comparison.diffPercent = Math.round(100 * diff.diffPercent) / 100;
+
+  if (diff.diffPixels > 0 && diff.diffPercent > (options.maxDiffPercent ?? 0)) {
+    comparison.status = 'changed';
+    comparison.diffImage = diff.diffImage;
+  }
+  return comparison;
+}
+
+function toComparedScreenshot(screenshot: IMatchedScreenshot): IComparedScreenshot {
+  if (!screenshot) return undefined;
+  const { tabId, commandId, callsite, timestamp, width, height } = screenshot;
+  return { tabId, commandId, callsite, timestamp, width, height };
+}
+
+interface IMatchedScreenshot extends IComparedScreenshot {
+  image: Buffer;
+}
+
+export interface IScreenshotComparisonOptions {
+  // pair screenshots by the id of the command that took them, or by the script line
+  matchBy?: 'command' | 'callsite';
+  // color difference (0-1) a pixel channel can have before the pixel is considered changed
+  threshold?: number;
+  // percent of changed pixels allowed before a screenshot is reported as changed
+  maxDiffPercent?: number;
+  // include a png highlighting changed pixels in red. Defaults to true.
+  includeDiffImages?: boolean;
+}
+
+interface ISessionCompareScreenshotsArgs extends IScreenshotComparisonOptions {
+  sessionIdA: string;
+  sessionIdB: string;
+}
+
+export interface IComparedScreenshot {
+  tabId: number;
+  commandId: number;
+  callsite: string;
+  timestamp: number;
+  width?: number;
+  height?: number;
+}
+
+export interface IScreenshotComparison {
+  // command id or callsite the screenshots were matched by
+  key: string;
+  // added/removed screenshots only exist in session B/A
+  status: 'unchanged' | 'changed' | 'added' | 'removed' | 'unsupported';
+  // why the images of an 'unsupported' comparison couldn't be decoded
+  unsupportedReason?: string;
+  screenshotA?: IComparedScreenshot;
+  screenshotB?: IComparedScreenshot;
+  diffPixels?: number;
+  diffPercent?: number;
+  diffImage?: Buffer;
+}
+
+interface ISessionCompareScreenshotsResult {
+  comparisons: IScreenshotComparison[];
+  // number of matched screenshots with pixel changes
+  changed: number;
+}
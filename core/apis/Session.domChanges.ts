@@ -5,6 +5,7 @@ export default function sessionDomChangesApi(
   args: ISessionDomChangesArgs,
 ): ISessionDomChangesResult {
   const sessionDb = SessionDb.getCached(args.sessionId, true);
+  sessionDb.recordingPolicy.assertRecorded(args.sessionId, 'Session.domChanges', 'domChanges');
 
   const changes = sessionDb.domChanges.all();
 
@@ -0,0 +1,23 @@
+import IHar, { IHarExportOptions } from '@ulixee/hero-interfaces/IHar';
+import SessionDb from '../dbs/SessionDb';
+import Session from '../lib/Session';
+import HarExporter from '../lib/HarExporter';
+
+export default async function sessionExportHarApi(
+  args: ISessionExportHarArgs,
+): Promise<ISessionExportHarResult> {
+  const { sessionId, ...options } = args;
+  Session.get(sessionId)?.db?.flush();
+
+  const sessionDb = SessionDb.getCached(sessionId, true);
+  const har = await HarExporter.export(sessionDb, options);
+  return { har };
+}
+
+interface ISessionExportHarArgs extends IHarExportOptions {
+  sessionId: string;
+}
+
+interface ISessionExportHarResult {
+  har: IHar;
+}
@@ -0,0 +1,28 @@
+import IGeneratedExitState, {
+  IExitStateGenerateOptions,
+} from '@ulixee/hero-interfaces/IGeneratedExitState';
+import SessionDb from '../dbs/SessionDb';
+import Session from '../lib/Session';
+import ExitStateGenerator from '../lib/ExitStateGenerator';
+
+export default async function sessionGenerateExitStateApi(
+  args: ISessionGenerateExitStateArgs,
+): Promise<ISessionGenerateExitStateResult> {
+  const { sessionId, ...options } = args;
+  Session.get(sessionId)?.db?.flush();
+  for (const other of options.otherSessions ?? []) {
+    Session.get(other.sessionId)?.db?.flush();
+  }
+
+  const sessionDb = SessionDb.getCached(sessionId, true);
+  const exitState = await ExitStateGenerator.generate(sessionDb, options);
+  return { exitState };
+}
+
+interface ISessionGenerateExitStateArgs extends IExitStateGenerateOptions {
+  sessionId: string;
+}
+
+interface ISessionGenerateExitStateResult {
+  exitState: IGeneratedExitState;
+}
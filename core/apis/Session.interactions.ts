@@ -7,6 +7,13 @@ export default function sessionInteractionsApi(
   args: ISessionInteractionsArgs,
 ): ISessionInteractionsResult {
   const sessionDb = SessionDb.getCached(args.sessionId, true);
+  sessionDb.recordingPolicy.assertRecorded(
+    args.sessionId,
+    'Session.interactions',
+    'mouseEvents',
+    'focusEvents',
+    'scrollEvents',
+  );
 
   function sort(a: { timestamp: number }, b: { timestamp: number }): number {
     return a.timestamp - b.timestamp;
@@ -1,75 +1,56 @@
-import * as Fs from 'fs';
-import SessionDb from '../dbs/SessionDb';
-import CommandFormatter from '../lib/CommandFormatter';
-
-export default function sessionsSearchApi(args: ISessionsSearchArgs): ISessionsSearchResult {
-  const results = {
-    sessions: [],
+import SessionsDb, { ISessionsSearchQuery } from '../dbs/SessionsDb';
+
+export default async function sessionsSearchApi(
+  args: ISessionsSearchQuery,
+): Promise<ISessionsSearchResult> {
+  const query = args ?? {};
+  const sessionsDb = SessionsDb.find();
+  await sessionsDb.backfillSearchIndex();
+
+  const { total, sessions } = sessionsDb.search(query);
+  return {
+    total,
+    sessions: sessions.map(session => {
+      const { id, name, scriptEntrypoint, startDate, closeDate, terms, didMatchDevtools } = session;
+      const termsOfType = (type: string): string[] =>
+        terms.filter(x => x.type === type).map(x => x.value);
+
+      return {
+        id,
+        name,
+        scriptEntrypoint,
+        start: new Date(startDate),
+        end: closeDate ? new Date(closeDate) : null,
+        commands: termsOfType('command'),
+        urls: termsOfType('url'),
+        errorTypes: termsOfType('errorType'),
+        outputKeys: termsOfType('outputKey'),
+        didMatchCommands: hasCommandArg(terms, query.commandArg),
+        didMatchDevtools,
+      };
+    }),
   };
-
-  for (const dbName of Fs.readdirSync(SessionDb.databaseDir)) {
-    if (!dbName.endsWith('.db')) continue;
-
-    try {
-      const sessionDb = new SessionDb(dbName.replace('.db', ''), {
-        fileMustExist: true,
-        readonly: true,
-      });
-
-      let didMatchDevtools = false;
-      let didMatchCommands = false;
-      const commands = sessionDb.commands.all();
-
-      if (args.commandArg) {
-        didMatchCommands = commands.some(x => x.args?.includes(args.commandArg));
-      }
-
-      if (args.devtoolsKey) {
-        for (const msg of sessionDb.devtoolsMessages.all()) {
-          if (
-            msg.params?.includes(args.devtoolsKey) ||
-            msg.result?.includes(args.devtoolsKey) ||
-            msg.error?.includes(args.devtoolsKey)
-          ) {
-            didMatchDevtools = true;
-            break;
-          }
-        }
-      }
-
-      if (didMatchCommands || didMatchDevtools) {
-        const session = sessionDb.session.get();
-        const { id, name, startDate, closeDate } = session;
-
-        results.sessions.push({
-          id,
-          name,
-          start: new Date(startDate),
-          end: new Date(closeDate),
-          commands: commands.map(x => CommandFormatter.toString(x)),
-          didMatchCommands,
-          didMatchDevtools,
-        });
-      }
-    } catch (err) {
-      // just ignore if db couldn't be opened
-    }
-  }
-  return results;
 }
 
-interface ISessionsSearchArgs {
-  commandArg?: string;
-  devtoolsKey?: string;
+/////// HELPER FUNCTIONS  //////////////////////////////////////////////////////////////////////////////////////////////
+
+function hasCommandArg(terms: { type: string; value: string }[], commandArg: string): boolean {
+  if (!commandArg) return false;
+  return terms.some(x => x.type === 'commandArgs' && x.value.includes(commandArg));
 }
 
 interface ISessionsSearchResult {
+  total: number;
   sessions: {
     id: string;
     name: string;
+    scriptEntrypoint: string;
     start: Date;
     end: Date;
     commands: string[];
+    urls: string[];
+    errorTypes: string[];
+    outputKeys: string[];
     didMatchDevtools: boolean;
     didMatchCommands: boolean;
   }[];
@@ -1,8 +1,12 @@
 import { IApiSpec } from '@ulixee/net/interfaces/IApiHandlers';
 import ICoreRequestPayload from '@ulixee/net/interfaces/ICoreRequestPayload';
 import ICoreResponsePayload from '@ulixee/net/interfaces/ICoreResponsePayload';
+import coreMetricsApi from './Core.metrics';
 import sessionCommandsApi from './Session.commands';
+import sessionCompareScreenshotsApi from './Session.compareScreenshots';
 import sessionDomChangesApi from './Session.domChanges';
+import sessionExportHarApi from './Session.exportHar';
+import sessionGenerateExitStateApi from './Session.generateExitState';
 import sessionInteractionsApi from './Session.interactions';
 import sessionResourceApi from './Session.resource';
 import sessionResourcesApi from './Session.resources';
@@ -14,8 +18,12 @@ import sessionsFindWithErrorsApi from './Sessions.findWithErrors';
 import sessionsSearchApi from './Sessions.search';
 
 const heroApiHandlers = {
+  'Core.metrics': coreMetricsApi,
   'Session.commands': sessionCommandsApi,
+  'Session.compareScreenshots': sessionCompareScreenshotsApi,
   'Session.domChanges': sessionDomChangesApi,
+  'Session.exportHar': sessionExportHarApi,
+  'Session.generateExitState': sessionGenerateExitStateApi,
   'Session.interactions': sessionInteractionsApi,
   'Session.find': sessionFindApi,
   'Session.resource': sessionResourceApi,
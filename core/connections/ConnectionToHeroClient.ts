@@ -1,6 +1,10 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
 import ISessionMeta from '@ulixee/hero-interfaces/ISessionMeta';
 import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
-import ICoreCommandRequestPayload from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
+import ICoreCommandRequestPayload, {
+  ICoreBatchCommand,
+  ICoreBatchCommandResult,
+} from '@ulixee/hero-interfaces/ICoreCommandRequestPayload';
 import ICoreResponsePayload from '@ulixee/net/interfaces/ICoreResponsePayload';
 import ICoreConfigureOptions from '@ulixee/hero-interfaces/ICoreConfigureOptions';
 import Log from '@ulixee/commons/lib/Logger';
@@ -14,6 +18,7 @@ import IConnectionToClient, {
   IConnectionToClientEvents,
 } from '@ulixee/net/interfaces/IConnectionToClient';
 import Resolvable from '@ulixee/commons/lib/Resolvable';
+import SessionClosedOrMissingError from '@ulixee/commons/lib/SessionClosedOrMissingError';
 import EmittingTransportToClient from '@ulixee/net/lib/EmittingTransportToClient';
 import { TypedEventEmitter } from '@ulixee/commons/lib/eventUtils';
 import { ICommandPresetMeta } from '../lib/Commands';
@@ -32,17 +37,32 @@ export default class ConnectionToHeroClient
   extends TypedEventEmitter<IConnectionToClientEvents>
   implements IConnectionToClient<any, {}>, ICommandableTarget
 {
+  private static readonly detachedSessionsById = new Map<
+    string,
+    { remoteEvents: RemoteEvents; closeTimer: NodeJS.Timer }
+  >();
+
+  // issued to the client that created a session. Only that client can reattach to it.
+  private static readonly reattachTokensBySessionId = new Map<string, string>();
+
   public disconnectPromise: Promise<void>;
   public autoShutdownMillis = 500;
+  // sessions the client has queued, but not created yet (reported by the client)
+  public queuedSessionCount = 0;
 
   private autoShutdownTimer: NodeJS.Timer;
   private readonly sessionIdToRemoteEvents = new Map<string, RemoteEvents>();
   private hasActiveCommand = false;
+  private sessionReattachTimeoutMillis = 0;
 
   constructor(readonly transport: ITransportToClient<any>) {
     super();
     transport.on('message', message => this.handleRequest(message));
-    transport.once('disconnected', error => this.disconnect(error));
+    transport.once('disconnected', error => {
+      // a dropped client (vs one that asked to disconnect) can come back and reattach its sessions
+      if (!this.disconnectPromise && this.sessionReattachTimeoutMillis > 0) this.detachSessions();
+      return this.disconnect(error);
+    });
     this.sendEvent = this.sendEvent.bind(this);
     this.checkForAutoShutdown = this.checkForAutoShutdown.bind(this);
     this.disconnectIfInactive = this.disconnectIfInactive.bind(this);
@@ -60,7 +80,9 @@ export default class ConnectionToHeroClient
     let data: any;
     try {
       this.hasActiveCommand = true;
-      if (recordCommands) await this.recordCommands(meta, payload.sendTime, recordCommands);
+      if (recordCommands) {
+        await this.recordCommands(meta, payload.sendTime, recordCommands, payload.isReplay);
+      }
       data = await this.executeCommand(command, args, meta, nextCommandMeta);
 
       // make sure to get tab metadata
@@ -108,7 +130,10 @@ export default class ConnectionToHeroClient
   }
 
   public async connect(
-    options: ICoreConfigureOptions & { version?: string } = {},
+    options: ICoreConfigureOptions & {
+      version?: string;
+      sessionReattachTimeoutMillis?: number;
+    } = {},
   ): Promise<{ maxConcurrency: number }> {
     if (options.version) {
       if (!isSemverSatisfied(options.version, version)) {
@@ -118,6 +143,7 @@ export default class ConnectionToHeroClient
       }
     }
     this.disconnectPromise = null;
+    this.sessionReattachTimeoutMillis = options.sessionReattachTimeoutMillis ?? 0;
     await Core.start(options);
     return {
       maxConcurrency: Core.pool.maxConcurrentAgents,
@@ -168,7 +194,10 @@ export default class ConnectionToHeroClient
       method === 'connect' ||
       method === 'disconnect' ||
       method === 'logUnhandledError' ||
-      method === 'createSession'
+      method === 'createSession' ||
+      method === 'reattachSession' ||
+      method === 'reportQueuedSessions' ||
+      method === 'runBatch'
     );
   }
 
@@ -180,19 +209,90 @@ export default class ConnectionToHeroClient
 
   ///////  SESSION /////////////////////////////////////////////////////////////////////////////////////////////////////
 
-  public async createSession(options: ISessionCreateOptions = {}): Promise<ISessionMeta> {
+  public async createSession(
+    options: ISessionCreateOptions = {},
+  ): Promise<ISessionMeta & { reattachToken: string }> {
     if (this.disconnectPromise) throw new Error('Connection closed');
     clearTimeout(this.autoShutdownTimer);
 
-    const { session, tab } = await Session.create(options);
+    const isInProcessClient = this.transport instanceof EmittingTransportToClient;
+    const { session, tab } = await Session.create(options, isInProcessClient);
     const sessionId = session.id;
     if (!this.sessionIdToRemoteEvents.has(sessionId)) {
-      const remoteEvents = new RemoteEvents(session, this.sendEvent);
-      this.sessionIdToRemoteEvents.set(sessionId, remoteEvents);
-      session.once('closing', () => this.sessionIdToRemoteEvents.delete(sessionId));
-      session.once('closed', this.checkForAutoShutdown);
+      this.trackSession(session, new RemoteEvents(session, this.sendEvent));
+    }
+
+    const { reattachTokensBySessionId } = ConnectionToHeroClient;
+    let reattachToken = reattachTokensBySessionId.get(sessionId);
+    if (!reattachToken) {
+      reattachToken = randomBytes(24).toString('hex');
+      reattachTokensBySessionId.set(sessionId, reattachToken);
+      session.once('closed', () => reattachTokensBySessionId.delete(sessionId));
+    }
+    return { tabId: tab?.id, sessionId: session.id, frameId: tab?.mainFrameId, reattachToken };
+  }
+
+  public reportQueuedSessions(count: number): void {
+    this.queuedSessionCount = count;
+  }
+
+  // moves a still running session (and its event listeners) from a dropped connection to this one
+  public reattachSession(sessionId: string, reattachToken: string): ISessionMeta {
+    if (this.disconnectPromise) throw new Error('Connection closed');
+    const session = Session.get(sessionId);
+    const expectedToken = ConnectionToHeroClient.reattachTokensBySessionId.get(sessionId);
+    // a wrong token gets the same error as a missing session, so session ids can't be probed
+    if (
+      !session ||
+      session.isClosing ||
+      !ConnectionToHeroClient.isTokenMatch(expectedToken, reattachToken)
+    ) {
+      throw new SessionClosedOrMissingError(
+        `The session (${sessionId}) is closed or no longer available to reattach.`,
+      );
     }
-    return { tabId: tab?.id, sessionId: session.id, frameId: tab?.mainFrameId };
+    clearTimeout(this.autoShutdownTimer);
+
+    let remoteEvents = this.sessionIdToRemoteEvents.get(sessionId);
+    const detached = ConnectionToHeroClient.detachedSessionsById.get(sessionId);
+    if (detached) {
+      clearTimeout(detached.closeTimer);
+      ConnectionToHeroClient.detachedSessionsById.delete(sessionId);
+      remoteEvents = detached.remoteEvents;
+    }
+    // the previous connection might not have noticed its client is gone yet
+    for (const connection of Core.connections) {
+      if (remoteEvents || connection === this) continue;
+      remoteEvents = connection.sessionIdToRemoteEvents.get(sessionId);
+      connection.sessionIdToRemoteEvents.delete(sessionId);
+    }
+    remoteEvents ??= new RemoteEvents(session, this.sendEvent);
+
+    if (!this.sessionIdToRemoteEvents.has(sessionId)) this.trackSession(session, remoteEvents);
+    remoteEvents.attach(this.sendEvent);
+    log.info('ConnectionToClient.ReattachedSession', { sessionId });
+
+    const tab = session.getLastActiveTab();
+    return { tabId: tab?.id, sessionId, frameId: tab?.mainFrameId };
+  }
+
+  // runs pipelined client commands in order. Each command is recorded like it was sent on its own.
+  public async runBatch(commands: ICoreBatchCommand[]): Promise<ICoreBatchCommandResult[]> {
+    const sendTime = Date.now();
+    const results: ICoreBatchCommandResult[] = [];
+    for (const { command, meta, args, ...commandMeta } of commands) {
+      const cleanArgs = args.map(x => (x === null ? undefined : x));
+      try {
+        const data = await this.executeCommand(command, cleanArgs, meta, {
+          ...commandMeta,
+          sendTime,
+        });
+        results.push({ data: this.serializeToMetadata(data) });
+      } catch (error) {
+        results.push({ error: this.serializeError(error) as Error });
+      }
+    }
+    return results;
   }
 
   /////// INTERNAL FUNCTIONS /////////////////////////////////////////////////////////////////////////////
@@ -201,6 +301,7 @@ export default class ConnectionToHeroClient
     meta: ISessionMeta,
     sendTime: number,
     recordCommands: ICoreCommandRequestPayload['recordCommands'],
+    isReplay: boolean,
   ): Promise<void> {
     if (!recordCommands.length) return;
 
@@ -211,6 +312,7 @@ export default class ConnectionToHeroClient
         commandId,
         startTime,
         sendTime,
+        isReplay,
       }).catch(error => {
         log.warn('RecordingCommandsFailed', {
           sessionId: meta.sessionId,
@@ -230,6 +332,12 @@ export default class ConnectionToHeroClient
     commandMeta: ICommandPresetMeta,
   ): Promise<any> {
     const session = Session.get(meta?.sessionId);
+    if (session && commandMeta?.isReplay) {
+      const [, method] = command.split('.');
+      const previousRun = session.commands.findReplayedCommand(commandMeta, method);
+      if (previousRun) return await session.commands.waitForResult(previousRun);
+    }
+
     const tab = Session.getTab(meta);
     const frame = tab?.getFrameEnvironment(meta?.frameId);
     const events = this.sessionIdToRemoteEvents.get(meta?.sessionId);
@@ -249,6 +357,35 @@ export default class ConnectionToHeroClient
     return await commandRunner.runFn();
   }
 
+  private trackSession(session: Session, remoteEvents: RemoteEvents): void {
+    const sessionId = session.id;
+    this.sessionIdToRemoteEvents.set(sessionId, remoteEvents);
+    session.once('closing', () => this.sessionIdToRemoteEvents.delete(sessionId));
+    session.once('closed', this.checkForAutoShutdown);
+  }
+
+  private detachSessions(): void {
+    const { detachedSessionsById } = ConnectionToHeroClient;
+    for (const [sessionId, remoteEvents] of this.sessionIdToRemoteEvents) {
+      const session = Session.get(sessionId);
+      if (!session || session.isClosing) continue;
+
+      remoteEvents.detach();
+      const closeTimer = setTimeout(() => {
+        log.info('ConnectionToClient.DetachedSessionTimeout', { sessionId });
+        void session.close(true).catch(err => err);
+      }, this.sessionReattachTimeoutMillis).unref();
+      detachedSessionsById.set(sessionId, { remoteEvents, closeTimer });
+      session.once('closing', () => {
+        if (detachedSessionsById.get(sessionId)?.closeTimer !== closeTimer) return;
+        clearTimeout(closeTimer);
+        detachedSessionsById.delete(sessionId);
+      });
+    }
+    // these are no longer closed by this connection
+    this.sessionIdToRemoteEvents.clear();
+  }
+
   private disconnectIfInactive(): Promise<void> {
     if (this.isActive()) return;
     return this.disconnect();
@@ -294,4 +431,12 @@ export default class ConnectionToHeroClient
 
     return new Error(`Unknown error occurred ${error}`);
   }
+
+  private static isTokenMatch(expected: string, token: string): boolean {
+    if (!expected || typeof token !== 'string') return false;
+    const expectedBuffer = Buffer.from(expected);
+    const tokenBuffer = Buffer.from(token);
+    if (expectedBuffer.length !== tokenBuffer.length) return false;
+    return timingSafeEqual(expectedBuffer, tokenBuffer);
+  }
 }
@@ -27,10 +27,14 @@ import AwaitedEventsTable from '../models/AwaitedEventsTable';
 import DetachedElementsTable from '../models/DetachedElementsTable';
 import SnippetsTable from '../models/SnippetsTable';
 import DetachedResourcesTable from '../models/DetachedResourcesTable';
+import DetachedPdfsTable from '../models/DetachedPdfsTable';
 import OutputTable from '../models/OutputTable';
 import FlowHandlersTable from '../models/FlowHandlersTable';
+import FlowHandlerEvaluationsTable from '../models/FlowHandlerEvaluationsTable';
 import FlowCommandsTable from '../models/FlowCommandsTable';
 import InteractionStepsTable from '../models/InteractionStepsTable';
+import DownloadsTable from '../models/DownloadsTable';
+import RecordingPolicy from '../lib/RecordingPolicy';
 
 const { log } = Log(module);
 
@@ -47,6 +51,18 @@ export default class SessionDb {
     return this.db?.readonly;
   }
 
+  public get recordingPolicy(): RecordingPolicy {
+    // sessions loaded from disk restore the policy from their stored create options
+    this._recordingPolicy ??= new RecordingPolicy(
+      this.session.get()?.createSessionOptions?.recording,
+    );
+    return this._recordingPolicy;
+  }
+
+  public set recordingPolicy(value: RecordingPolicy) {
+    this._recordingPolicy = value;
+  }
+
   public readonly commands: CommandsTable;
   public readonly frames: FramesTable;
   public readonly frameNavigations: FrameNavigationsTable;
@@ -57,9 +73,11 @@ export default class SessionDb {
   public readonly domChanges: DomChangesTable;
   public readonly detachedElements: DetachedElementsTable;
   public readonly detachedResources: DetachedResourcesTable;
+  public readonly detachedPdfs: DetachedPdfsTable;
   public readonly snippets: SnippetsTable;
   public readonly interactions: InteractionStepsTable;
   public readonly flowHandlers: FlowHandlersTable;
+  public readonly flowHandlerEvaluations: FlowHandlerEvaluationsTable;
   public readonly flowCommands: FlowCommandsTable;
   public readonly pageLogs: PageLogsTable;
   public readonly sessionLogs: SessionLogsTable;
@@ -73,15 +91,25 @@ export default class SessionDb {
   public readonly awaitedEvents: AwaitedEventsTable;
   public readonly tabs: TabsTable;
   public readonly output: OutputTable;
+  public readonly downloads: DownloadsTable;
   public readonly sessionId: string;
 
   public keepAlive = false;
 
+  public get pendingInsertCount(): number {
+    let count = 0;
+    for (const table of this.tables) {
+      count += table.findPendingInserts(() => true).length;
+    }
+    return count;
+  }
+
   private readonly batchInsert?: Transaction;
   private readonly saveInterval: NodeJS.Timeout;
 
   private db: SqliteDatabase;
   private readonly tables: SqliteTable<any>[] = [];
+  private _recordingPolicy: RecordingPolicy;
 
   constructor(sessionId: string, dbOptions: IDbOptions = {}) {
     SessionDb.createDir();
@@ -103,8 +131,10 @@ export default class SessionDb {
     this.domChanges = new DomChangesTable(this.db);
     this.detachedElements = new DetachedElementsTable(this.db);
     this.detachedResources = new DetachedResourcesTable(this.db);
+    this.detachedPdfs = new DetachedPdfsTable(this.db);
     this.snippets = new SnippetsTable(this.db);
     this.flowHandlers = new FlowHandlersTable(this.db);
+    this.flowHandlerEvaluations = new FlowHandlerEvaluationsTable(this.db);
     this.flowCommands = new FlowCommandsTable(this.db);
     this.pageLogs = new PageLogsTable(this.db);
     this.session = new SessionTable(this.db);
@@ -118,6 +148,7 @@ export default class SessionDb {
     this.devtoolsMessages = new DevtoolsMessagesTable(this.db);
     this.awaitedEvents = new AwaitedEventsTable(this.db);
     this.output = new OutputTable(this.db);
+    this.downloads = new DownloadsTable(this.db);
 
     this.tables.push(
       this.commands,
@@ -131,8 +162,10 @@ export default class SessionDb {
       this.domChanges,
       this.detachedElements,
       this.detachedResources,
+      this.detachedPdfs,
       this.snippets,
       this.flowHandlers,
+      this.flowHandlerEvaluations,
       this.flowCommands,
       this.pageLogs,
       this.session,
@@ -146,6 +179,7 @@ export default class SessionDb {
       this.storageChanges,
       this.awaitedEvents,
       this.output,
+      this.downloads,
     );
 
     if (!readonly) {
@@ -202,6 +236,14 @@ export default class SessionDb {
     }
   }
 
+  // readonly dbs don't create missing tables, so sessions recorded by older versions can lack some
+  public hasTable(table: SqliteTable<any>): boolean {
+    const record = this.db
+      .prepare(`select name from sqlite_master where type='table' and name=?`)
+      .get(table.tableName);
+    return !!record;
+  }
+
   public static getCached(sessionId: string, fileMustExist = false): SessionDb {
     if (sessionId.endsWith('.db')) sessionId = sessionId.split('.db').shift();
     if (!this.byId.get(sessionId)?.db?.open) {
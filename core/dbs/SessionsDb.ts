@@ -1,9 +1,22 @@
 import * as Database from 'better-sqlite3';
 import { Database as SqliteDatabase } from 'better-sqlite3';
 import * as fs from 'fs';
+import TypeSerializer from '@ulixee/commons/lib/TypeSerializer';
+import Log from '@ulixee/commons/lib/Logger';
 import SessionsTable from '../models/SessionsTable';
+import SessionSearchIndexTable, {
+  ISessionSearchIndexRecord,
+} from '../models/SessionSearchIndexTable';
+import SessionSearchTermsTable, {
+  ISessionSearchTermRecord,
+  ISessionSearchTermType,
+} from '../models/SessionSearchTermsTable';
 import Core from '../index';
 import Session from '../lib/Session';
+import SessionDb from './SessionDb';
+import CommandFormatter from '../lib/CommandFormatter';
+
+const { log } = Log(module);
 
 interface IDbOptions {
   readonly?: boolean;
@@ -13,9 +26,14 @@ interface IDbOptions {
 export default class SessionsDb {
   private static instance: SessionsDb;
   private static hasInitialized = false;
+  // sessions indexed between yields to the event loop while backfilling
+  private static backfillBatchSize = 10;
   public readonly sessions: SessionsTable;
+  public readonly sessionSearchIndex: SessionSearchIndexTable;
+  public readonly sessionSearchTerms: SessionSearchTermsTable;
   public readonly readonly: boolean;
   private db: SqliteDatabase;
+  private backfillPromise: Promise<void>;
 
   constructor(dbOptions: IDbOptions = {}) {
     SessionsDb.createDir();
@@ -23,6 +41,8 @@ export default class SessionsDb {
     this.db = new Database(SessionsDb.databasePath, { readonly, fileMustExist });
     this.readonly = readonly;
     this.sessions = new SessionsTable(this.db);
+    this.sessionSearchIndex = new SessionSearchIndexTable(this.db);
+    this.sessionSearchTerms = new SessionSearchTermsTable(this.db);
   }
 
   public findLatestSessionId(script: {
@@ -82,6 +102,173 @@ export default class SessionsDb {
     this.sessions.insert(session);
   }
 
+  public indexSession(sessionDb: SessionDb): void {
+    const session = sessionDb.session.get();
+    if (!session) return;
+
+    const terms: Omit<ISessionSearchTermRecord, 'sessionId'>[] = [];
+    const addTerms = (type: ISessionSearchTermType, values: Iterable<string>): void => {
+      for (const value of new Set(values)) {
+        if (value) terms.push({ type, value });
+      }
+    };
+
+    const urls: string[] = [];
+    for (const navigation of sessionDb.frameNavigations.all()) {
+      urls.push(navigation.requestedUrl, navigation.finalUrl);
+    }
+    addTerms('url', urls);
+
+    const commands = sessionDb.commands.all();
+    const commandNames: string[] = [];
+    const commandArgs: string[] = [];
+    const errorTypes: string[] = [];
+    for (const command of commands) {
+      terms.push({ type: 'command', value: CommandFormatter.toString(command) });
+      commandNames.push(command.name);
+      commandArgs.push(command.args);
+      if (command.resultType?.endsWith('Error')) errorTypes.push(command.resultType);
+    }
+    addTerms('commandName', commandNames);
+    addTerms('commandArgs', commandArgs);
+
+    for (const logError of sessionDb.sessionLogs.allErrors()) {
+      // failed commands are already counted by their result type
+      if (logError.action === 'ConnectionToClient.HandleRequestError') continue;
+      errorTypes.push(SessionsDb.getErrorType(logError.data));
+    }
+    addTerms('errorType', errorTypes);
+
+    const outputs = sessionDb.output.all();
+    addTerms(
+      'outputKey',
+      outputs.map(x => SessionsDb.getOutputKey(x.path)),
+    );
+
+    const devtools: string[] = [];
+    for (const message of sessionDb.devtoolsMessages.all()) {
+      devtools.push(message.params, message.result, message.error);
+    }
+    addTerms('devtools', devtools);
+
+    const transaction = this.db.transaction(() => {
+      this.sessionSearchIndex.insert({
+        id: session.id,
+        name: session.name,
+        scriptInstanceId: session.scriptInstanceId,
+        scriptEntrypoint: session.scriptEntrypoint,
+        startDate: session.startDate,
+        closeDate: session.closeDate,
+        commandCount: commands.length,
+        errorCount: errorTypes.length,
+        outputCount: outputs.length,
+      });
+      this.sessionSearchTerms.replaceAll(session.id, terms);
+    });
+    transaction();
+  }
+
+  public indexSessionFile(sessionId: string): ISessionSearchIndexRecord {
+    const sessionDb = new SessionDb(sessionId, { readonly: true, fileMustExist: true });
+    try {
+      this.indexSession(sessionDb);
+    } finally {
+      sessionDb.close();
+    }
+    return this.sessionSearchIndex.get(sessionId);
+  }
+
+  public backfillSearchIndex(): Promise<void> {
+    this.backfillPromise ??= this.indexUnindexedSessions();
+    return this.backfillPromise;
+  }
+
+  public deleteSession(sessionId: string): void {
+    const transaction = this.db.transaction(() => {
+      this.sessions.deleteById(sessionId);
+      this.sessionSearchIndex.deleteById(sessionId);
+      this.sessionSearchTerms.deleteBySessionId(sessionId);
+    });
+    transaction();
+  }
+
+  public search(query: ISessionsSearchQuery): {
+    total: number;
+    sessions: (ISessionSearchIndexRecord & {
+      terms: ISessionSearchTermRecord[];
+      didMatchDevtools: boolean;
+    })[];
+  } {
+    const where: string[] = [];
+    const params: any[] = [];
+
+    const index = this.sessionSearchIndex.tableName;
+    const termsTable = this.sessionSearchTerms.tableName;
+    const matchTerm = (type: ISessionSearchTermType, value: string, isPartial: boolean): string => {
+      const comparison = isPartial ? `value LIKE ? ESCAPE '\\'` : 'value = ?';
+      params.push(type, isPartial ? SessionsDb.toLikeParam(value) : value);
+      return `EXISTS (SELECT 1 FROM ${termsTable} t WHERE t.sessionId = s.id AND t.type = ? AND t.${comparison})`;
+    };
+
+    if (query.name) {
+      where.push(`s.name LIKE ? ESCAPE '\\'`);
+      params.push(SessionsDb.toLikeParam(query.name));
+    }
+    if (query.scriptEntrypoint) {
+      where.push('s.scriptEntrypoint = ?');
+      params.push(query.scriptEntrypoint);
+    }
+    if (query.startDateAfter) {
+      where.push('s.startDate >= ?');
+      params.push(new Date(query.startDateAfter).getTime());
+    }
+    if (query.startDateBefore) {
+      where.push('s.startDate <= ?');
+      params.push(new Date(query.startDateBefore).getTime());
+    }
+    if (query.url) where.push(matchTerm('url', query.url, true));
+    if (query.commandName) where.push(matchTerm('commandName', query.commandName, false));
+    if (query.commandArg && query.devtoolsKey) {
+      // a session matches on either its command args or devtools messages
+      const commandArgMatch = matchTerm('commandArgs', query.commandArg, true);
+      const devtoolsMatch = matchTerm('devtools', query.devtoolsKey, true);
+      where.push(`(${commandArgMatch} OR ${devtoolsMatch})`);
+    } else if (query.commandArg) {
+      where.push(matchTerm('commandArgs', query.commandArg, true));
+    } else if (query.devtoolsKey) {
+      where.push(matchTerm('devtools', query.devtoolsKey, true));
+    }
+    if (query.errorType) where.push(matchTerm('errorType', query.errorType, false));
+    if (query.outputKey) where.push(matchTerm('outputKey', query.outputKey, false));
+
+    const whereSql = where.length ? ` WHERE ${where.join(' AND ')}` : '';
+    const { total } = this.db
+      .prepare(`SELECT COUNT(1) as total FROM ${index} s${whereSql}`)
+      .get(params) as { total: number };
+
+    // a negative limit returns all matches
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    const records = this.db
+      .prepare(`SELECT s.* FROM ${index} s${whereSql} ORDER BY s.startDate DESC LIMIT ? OFFSET ?`)
+      .all([...params, limit, offset]) as ISessionSearchIndexRecord[];
+
+    const matchesDevtools = this.db.prepare(
+      `SELECT 1 FROM ${termsTable} WHERE sessionId = ? AND type = 'devtools' AND value LIKE ? ESCAPE '\\'`,
+    );
+    return {
+      total,
+      sessions: records.map(record => ({
+        ...record,
+        // devtools messages are only indexed to search them
+        terms: this.sessionSearchTerms.findBySessionId(record.id, 'devtools'),
+        didMatchDevtools:
+          !!query.devtoolsKey &&
+          !!matchesDevtools.get(record.id, SessionsDb.toLikeParam(query.devtoolsKey)),
+      })),
+    };
+  }
+
   public close(): void {
     if (this.db) {
       this.db.close();
@@ -90,6 +277,35 @@ export default class SessionsDb {
     SessionsDb.instance = undefined;
   }
 
+  private async indexUnindexedSessions(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(SessionDb.databaseDir);
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    // sessions recorded before the search index existed
+    let indexedCount = 0;
+    for (const file of files) {
+      // stop if Core shut down in the meantime
+      if (!this.db) return;
+      if (!file.endsWith('.db')) continue;
+      const sessionId = file.replace('.db', '');
+      // running sessions are indexed when they close
+      if (Session.get(sessionId) || this.sessionSearchIndex.get(sessionId)) continue;
+      try {
+        this.indexSessionFile(sessionId);
+      } catch (error) {
+        log.warn('SessionsDb.BackfillIndexError', { error, sessionId });
+      }
+      indexedCount += 1;
+      if (indexedCount % SessionsDb.backfillBatchSize === 0) {
+        await new Promise(setImmediate);
+      }
+    }
+  }
+
   public static shutdown(): void {
     this.instance?.close();
     this.instance = undefined;
@@ -107,6 +323,38 @@ export default class SessionsDb {
     }
   }
 
+  private static getErrorType(data: string): string {
+    if (!data) return 'Error';
+    try {
+      const parsed = TypeSerializer.parse(data);
+      const error = parsed?.clientError ?? parsed?.error ?? parsed;
+      if (error instanceof Error) return error.name;
+      const description = typeof error === 'string' ? error : error?.stack;
+      if (typeof description === 'string') {
+        const match = description.match(/^(\w*Error)\b/);
+        if (match) return match[1];
+      }
+    } catch {
+      // fall through to a generic error type
+    }
+    return 'Error';
+  }
+
+  private static getOutputKey(path: string): string {
+    if (!path) return null;
+    try {
+      const parsedPath = JSON.parse(path);
+      if (Array.isArray(parsedPath)) return String(parsedPath[0] ?? '');
+    } catch {
+      // not a json path
+    }
+    return path.split('.')[0];
+  }
+
+  private static toLikeParam(value: string): string {
+    return `%${value.replace(/[\\%_]/g, x => `\\${x}`)}%`;
+  }
+
   public static get databaseDir(): string {
     return `${Core.dataDir}`;
   }
@@ -116,6 +364,22 @@ export default class SessionsDb {
   }
 }
 
+export interface ISessionsSearchQuery {
+  name?: string;
+  scriptEntrypoint?: string;
+  startDateAfter?: Date | number;
+  startDateBefore?: Date | number;
+  url?: string;
+  commandName?: string;
+  commandArg?: string;
+  errorType?: string;
+  outputKey?: string;
+  // text to find in the devtools messages of a session
+  devtoolsKey?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ISessionsFindRelatedResult {
   relatedSessions: { id: string; name: string }[];
   relatedScriptInstances: { id: string; startDate: number; defaultSessionId: string }[];
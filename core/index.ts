@@ -25,6 +25,9 @@ import { dataDir } from './env';
 import Tab from './lib/Tab';
 import Session from './lib/Session';
 import ConnectionToHeroClient from './connections/ConnectionToHeroClient';
+import SessionRetention from './lib/SessionRetention';
+import BrowserContextPool from './lib/BrowserContextPool';
+import CoreMetrics from './lib/CoreMetrics';
 
 const { log } = Log(module);
 
@@ -57,7 +60,8 @@ export default class Core {
     Pick<
       Pool['EventTypes'],
       'browser-has-no-open-windows' | 'browser-launched' | 'all-browsers-closed'
-    >
+    > &
+      SessionRetention['EventTypes']
   >();
 
   public static readonly connections = new Set<ConnectionToHeroClient>();
@@ -66,6 +70,9 @@ export default class Core {
 
   public static onShutdown: () => void;
   public static pool: Pool;
+  public static sessionRetention: SessionRetention;
+  public static browserContextPool: BrowserContextPool;
+  public static readonly metrics = new CoreMetrics();
 
   public static allowDynamicPluginLoading = true;
   public static isClosing: Promise<void>;
@@ -106,6 +113,10 @@ export default class Core {
     }
   }
 
+  public static getMetrics(): string {
+    return this.metrics.toPrometheus();
+  }
+
   public static getUtilityContext(): Promise<BrowserContext> {
     if (this.utilityBrowserContext) return this.utilityBrowserContext;
 
@@ -131,6 +142,7 @@ export default class Core {
     this.isClosing = null;
     this.isStarting = true;
     this.registerSignals();
+    this.metrics.start();
 
     const { maxConcurrentClientCount } = options;
 
@@ -158,6 +170,21 @@ export default class Core {
 
     await this.pool.start();
 
+    this.browserContextPool = new BrowserContextPool(this.pool, options.prewarmContexts);
+    this.browserContextPool.start();
+
+    this.sessionRetention = new SessionRetention(options.sessionRetention);
+    this.sessionRetention.addEventEmitter(this.events, [
+      'session-pruned',
+      'session-retention-finished',
+    ]);
+    this.sessionRetention.start();
+
+    // index sessions recorded before the search index existed
+    SessionsDb.find()
+      .backfillSearchIndex()
+      .catch(error => log.warn('SessionsDb.BackfillIndexError', { error, sessionId: null }));
+
     log.info('Core started', {
       sessionId: null,
       parentLogId: startLogId,
@@ -178,11 +205,14 @@ export default class Core {
       shutDownErrors = await Promise.all([
         ...[...this.connections].map(x => x.disconnect().catch(err => err)),
         this.utilityBrowserContext?.then(x => x.close()).catch(err => err),
+        this.browserContextPool?.close().catch(err => err),
         this.pool?.close().catch(err => err),
       ]);
       shutDownErrors = shutDownErrors.filter(Boolean);
 
       this.utilityBrowserContext = null;
+      this.metrics.stop();
+      await this.sessionRetention?.stop();
       this.networkDb?.close();
       SessionsDb.shutdown();
 
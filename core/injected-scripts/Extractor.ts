@@ -0,0 +1,109 @@
+import type IExtractSchema from '@ulixee/hero-interfaces/IExtractSchema';
+import type {
+  IExtractFieldOptions,
+  IExtractTransform,
+} from '@ulixee/hero-interfaces/IExtractSchema';
+
+class Extractor {
+  public static extract(schema: IExtractSchema): { result?: any; error?: string } {
+    const missingFields: string[] = [];
+    const result = this.extractFields(document, schema, '', missingFields);
+    if (missingFields.length) {
+      return {
+        error: `No elements matched these required extract fields: ${missingFields.join(', ')}`,
+      };
+    }
+    // NOTE: wrapped so a field named "error" isn't mistaken for a failure
+    return { result };
+  }
+
+  private static extractFields(
+    scope: ParentNode,
+    schema: IExtractSchema,
+    path: string,
+    missingFields: string[],
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, fieldOrSelector] of Object.entries(schema)) {
+      const field: IExtractFieldOptions =
+        typeof fieldOrSelector === 'string' ? { selector: fieldOrSelector } : fieldOrSelector;
+      const fieldPath = path ? `${path}.${key}` : key;
+
+      if (field.list) {
+        const elements = field.selector
+          ? Array.from(scope.querySelectorAll(field.selector))
+          : [scope as Element];
+        if (!elements.length && !field.optional) {
+          missingFields.push(`${fieldPath} (${field.selector})`);
+        }
+        result[key] = elements.map((element, i) =>
+          this.extractField(element, field, `${fieldPath}[${i}]`, missingFields),
+        );
+        continue;
+      }
+
+      const element = field.selector ? scope.querySelector(field.selector) : (scope as Element);
+      if (!element) {
+        if (!field.optional) missingFields.push(`${fieldPath} (${field.selector})`);
+        result[key] = null;
+        continue;
+      }
+      result[key] = this.extractField(element, field, fieldPath, missingFields);
+    }
+    return result;
+  }
+
+  private static extractField(
+    element: Element,
+    field: IExtractFieldOptions,
+    path: string,
+    missingFields: string[],
+  ): any {
+    if (field.fields) {
+      return this.extractFields(element, field.fields, path, missingFields);
+    }
+
+    let value: any;
+    if (field.attribute) value = element.getAttribute(field.attribute);
+    else if (field.property) value = element[field.property];
+    else value = element.textContent;
+
+    let transforms = field.transform ?? [];
+    if (!Array.isArray(transforms)) transforms = [transforms];
+    // text content is almost always padded with markup whitespace
+    if (!transforms.length && !field.attribute && !field.property) transforms = ['trim'];
+
+    for (const transform of transforms) {
+      value = this.transform(value, transform);
+    }
+    return value ?? null;
+  }
+
+  private static transform(value: any, transform: IExtractTransform): any {
+    if (value === null || value === undefined) return value;
+    const text = String(value).trim();
+
+    if (transform === 'trim') return text;
+    if (transform === 'number') {
+      if (typeof value === 'number') return value;
+      // the first number in the text, allowing thousands separators (eg, "$1,200.50 / month")
+      const match = text.match(
+        /(?:(?<!\w)[-+])?(?:(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|\.\d+)(?:e[-+]?\d+)?/i,
+      );
+      return match ? parseFloat(match[0].replace(/,/g, '')) : null;
+    }
+    if (transform === 'date') {
+      const date = new Date(text);
+      return Number.isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    if (transform === 'url') {
+      if (!text) return null;
+      try {
+        return new URL(text, document.baseURI).href;
+      } catch {
+        return null;
+      }
+    }
+    throw new Error(`Unknown extract transform: ${transform}`);
+  }
+}
@@ -0,0 +1,25 @@
+class ScreenshotMasker {
+  // NOTE: nothing is added to the page. Core paints over these rects once the image is captured.
+  public static getRects(selectors: string[]): IScreenshotMaskRect[] {
+    const rects: IScreenshotMaskRect[] = [];
+    for (const selector of selectors) {
+      for (const element of Array.from(document.querySelectorAll(selector))) {
+        const { x, y, width, height } = element.getBoundingClientRect();
+        if (!width || !height) continue;
+        rects.push({ x, y, width, height });
+      }
+    }
+    return rects;
+  }
+
+  public static getViewport(): { scrollX: number; scrollY: number; devicePixelRatio: number } {
+    return { scrollX: window.scrollX, scrollY: window.scrollY, devicePixelRatio };
+  }
+}
+
+interface IScreenshotMaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
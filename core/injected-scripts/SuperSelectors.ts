@@ -0,0 +1,327 @@
+type IPseudoClassName =
+  | 'visible'
+  | 'hidden'
+  | 'clickable'
+  | 'in-viewport'
+  | 'has-text'
+  | 'text-matches';
+
+interface IPseudoClass {
+  name: IPseudoClassName;
+  text?: string;
+  regex?: RegExp;
+}
+
+interface ISelectorStep {
+  css?: string;
+  pseudoClasses: IPseudoClass[];
+  nth?: number;
+}
+
+type IJsPathStep = string | number | any[];
+
+interface IJsPathResolver {
+  exec(jsPath: IJsPathStep[], ...args: any[]): Promise<any>;
+  simulateOptionClick(jsPath: IJsPathStep[]): any;
+}
+
+const pseudoClassNames = new Set<string>([
+  'visible',
+  'hidden',
+  'clickable',
+  'in-viewport',
+  'has-text',
+  'text-matches',
+]);
+const superSelectorRegex = /:(?:visible|hidden|clickable|in-viewport|has-text|text-matches)\b|>>/;
+const queryMethodNames = new Set(['querySelector', 'querySelectorAll']);
+const jsPathArgPrefix = '$$jsPath=';
+
+class StaticNodeList extends Array<Element> {
+  public item(index: number): Element | null {
+    return this[index] ?? null;
+  }
+}
+
+class SuperSelectors {
+  private static stepsBySelector = new Map<string, ISelectorStep[]>();
+
+  public static installInJsPath(resolver: IJsPathResolver): void {
+    if (!resolver) return;
+    const { exec, simulateOptionClick } = resolver;
+    resolver.exec = (jsPath, ...args) => exec.call(resolver, this.toJsPath(jsPath), ...args);
+    resolver.simulateOptionClick = jsPath =>
+      simulateOptionClick.call(resolver, this.toJsPath(jsPath));
+  }
+
+  // JsPath only resolves property and method lookups. A super selector query is changed into a
+  // call of this class (at window.HERO) with the queried node's path, so dom apis stay native.
+  public static toJsPath(jsPath: IJsPathStep[]): IJsPathStep[] {
+    if (!Array.isArray(jsPath)) return jsPath;
+    let result: IJsPathStep[] = [];
+    for (const step of jsPath) {
+      if (!Array.isArray(step)) {
+        result.push(step);
+        continue;
+      }
+      const [methodName, ...args] = step;
+      const finalArgs = args.map(arg => {
+        if (typeof arg !== 'string' || !arg.startsWith(jsPathArgPrefix)) return arg;
+        const innerPath = JSON.parse(arg.substring(jsPathArgPrefix.length));
+        return `${jsPathArgPrefix}${JSON.stringify(this.toJsPath(innerPath))}`;
+      });
+      if (queryMethodNames.has(methodName) && this.isSuperSelector(finalArgs[0])) {
+        const scopeArg = `${jsPathArgPrefix}${JSON.stringify(result)}`;
+        result = ['HERO', 'SuperSelectors', [methodName, scopeArg, finalArgs[0]]];
+      } else {
+        result.push([methodName, ...finalArgs]);
+      }
+    }
+    return result;
+  }
+
+  public static querySelector(scope: ParentNode, selector: string): Element | null {
+    return this.queryAll(scope, selector)[0] ?? null;
+  }
+
+  public static querySelectorAll(scope: ParentNode, selector: string): StaticNodeList {
+    const nodeList = new StaticNodeList();
+    nodeList.push(...this.queryAll(scope, selector));
+    return nodeList;
+  }
+
+  public static isSuperSelector(selector: string): boolean {
+    if (typeof selector !== 'string' || !superSelectorRegex.test(selector)) return false;
+    let steps: ISelectorStep[];
+    try {
+      steps = this.parse(selector);
+    } catch (error) {
+      // invalid super selectors throw when they're queried, so the error has a JsPath step
+      return true;
+    }
+    return steps.length > 1 || steps[0].pseudoClasses.length > 0;
+  }
+
+  public static queryAll(root: ParentNode, selector: string): Element[] {
+    let scopes: ParentNode[] = [root];
+    let matches: Element[] = [];
+    for (const step of this.parse(selector)) {
+      if (step.nth !== undefined) {
+        const index = step.nth < 0 ? matches.length + step.nth : step.nth;
+        matches = matches[index] ? [matches[index]] : [];
+      } else {
+        const found = new Set<Element>();
+        for (const scope of scopes) {
+          for (const element of scope.querySelectorAll(step.css)) {
+            if (this.matchesPseudoClasses(element, step.pseudoClasses)) found.add(element);
+          }
+        }
+        matches = [...found];
+        if (scopes.length > 1) {
+          matches.sort((a, b) =>
+            a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+          );
+        }
+      }
+      scopes = matches;
+    }
+    return matches;
+  }
+
+  private static matchesPseudoClasses(element: Element, pseudoClasses: IPseudoClass[]): boolean {
+    for (const pseudoClass of pseudoClasses) {
+      const { name } = pseudoClass;
+      if (name === 'visible' && !this.isVisible(element)) return false;
+      if (name === 'hidden' && this.isVisible(element)) return false;
+      if (name === 'in-viewport' && !this.isInViewport(element)) return false;
+      if (name === 'clickable' && !this.isClickable(element)) return false;
+      if (name === 'has-text') {
+        const text = normalizeText(element.textContent).toLowerCase();
+        if (!text.includes(pseudoClass.text.toLowerCase())) return false;
+      }
+      if (name === 'text-matches' && !pseudoClass.regex.test(normalizeText(element.textContent))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // same rules as the visibility checks of JsPath
+  private static isVisible(element: Element): boolean {
+    if (!element.isConnected) return false;
+    const style = getComputedStyle(element);
+    if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') {
+      return false;
+    }
+    const rect = element.getBoundingClientRect();
+    return !(rect.width === 0 && rect.height === 0);
+  }
+
+  private static isInViewport(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    return (
+      rect.y + rect.height > 0 &&
+      rect.y < window.innerHeight &&
+      rect.x + rect.width > 0 &&
+      rect.x < window.innerWidth
+    );
+  }
+
+  private static isClickable(element: Element): boolean {
+    if (!this.isVisible(element) || !this.isInViewport(element)) return false;
+    const rect = element.getBoundingClientRect();
+    const overlapping = document.elementFromPoint(
+      Math.round(rect.x + rect.width / 2),
+      Math.round(rect.y + rect.height / 2),
+    );
+    if (!overlapping || element === overlapping || element.contains(overlapping)) return true;
+
+    const overlappingRect = overlapping.getBoundingClientRect();
+    return overlappingRect.width < rect.width / 2 || overlappingRect.height < rect.height / 2;
+  }
+
+  private static parse(selector: string): ISelectorStep[] {
+    let steps = this.stepsBySelector.get(selector);
+    if (steps) return steps;
+
+    steps = splitTopLevel(selector, '>>').map((part, index) => {
+      const nth = /^nth=(-?\d+)$/.exec(part);
+      if (nth) {
+        if (index === 0) throw new SyntaxError(`'${selector}' can't start with "nth="`);
+        return { nth: Number(nth[1]), pseudoClasses: [] };
+      }
+      return parseStep(selector, part);
+    });
+    this.stepsBySelector.set(selector, steps);
+    return steps;
+  }
+}
+
+function parseStep(selector: string, part: string): ISelectorStep {
+  const pseudoClasses: IPseudoClass[] = [];
+  let css = '';
+  let depth = 0;
+  let quote: string = null;
+  for (let i = 0; i < part.length; i += 1) {
+    const char = part[i];
+    if (quote) {
+      css += char;
+      if (char === '\\') css += part[(i += 1)] ?? '';
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    const name = char === ':' && depth === 0 ? /^:([a-z-]+)/.exec(part.substring(i))?.[1] : null;
+    if (name && pseudoClassNames.has(name)) {
+      i += name.length + 1;
+      let arg: string;
+      if (part[i] === '(') {
+        const end = findClosingParen(part, i);
+        arg = part.substring(i + 1, end).trim();
+        i = end + 1;
+      }
+      pseudoClasses.push(createPseudoClass(selector, name as IPseudoClassName, arg));
+      i -= 1;
+      continue;
+    }
+
+    if (pseudoClasses.length && depth === 0 && /[\s>+~,]/.test(char)) {
+      throw new SyntaxError(
+        `'${selector}' can only use super pseudo-classes on the last element of a selector. Use ">>" to chain selectors.`,
+      );
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '(' || char === '[') depth += 1;
+    else if (char === ')' || char === ']') depth -= 1;
+    css += char;
+  }
+
+  css = css.trim();
+  if (!css || /[\s>+~]$/.test(css)) css += '*';
+  return { css, pseudoClasses };
+}
+
+function createPseudoClass(selector: string, name: IPseudoClassName, arg?: string): IPseudoClass {
+  if (name === 'has-text') {
+    if (!arg) throw new SyntaxError(`'${selector}' is missing the text for :has-text()`);
+    return { name, text: unquote(arg) };
+  }
+  if (name === 'text-matches') {
+    if (!arg) throw new SyntaxError(`'${selector}' is missing the pattern for :text-matches()`);
+    const regex = /^\/(.*)\/([a-z]*)$/s.exec(arg);
+    if (regex) return { name, regex: new RegExp(regex[1], regex[2]) };
+    return { name, regex: new RegExp(unquote(arg)) };
+  }
+  if (arg !== undefined) {
+    throw new SyntaxError(`'${selector}' doesn't accept arguments for :${name}`);
+  }
+  return { name };
+}
+
+function findClosingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string = null;
+  // regex arguments can contain unbalanced parens and quotes
+  const isRegex = text
+    .substring(openIndex + 1)
+    .trimStart()
+    .startsWith('/');
+  for (let i = openIndex; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === '\\') {
+      i += 1;
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '/' && isRegex) quote = char;
+    else if ((char === '"' || char === "'") && !isRegex) quote = char;
+    else if (char === '(') depth += 1;
+    else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) return i;
+    }
+  }
+  throw new SyntaxError(`'${text}' is missing a closing parenthesis`);
+}
+
+function splitTopLevel(selector: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string = null;
+  let start = 0;
+  for (let i = 0; i < selector.length; i += 1) {
+    const char = selector[i];
+    if (char === '\\') {
+      i += 1;
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth += 1;
+    } else if (char === ')' || char === ']') {
+      depth -= 1;
+    } else if (depth === 0 && selector.startsWith(separator, i)) {
+      parts.push(selector.substring(start, i).trim());
+      i += separator.length - 1;
+      start = i + 1;
+    }
+  }
+  parts.push(selector.substring(start).trim());
+  if (parts.some(x => !x)) throw new SyntaxError(`'${selector}' has an empty selector around ">>"`);
+  return parts;
+}
+
+function unquote(text: string): string {
+  const match = /^(["'])(.*)\1$/s.exec(text);
+  return match ? match[2].replace(/\\(.)/g, '$1') : text;
+}
+
+function normalizeText(text: string): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,274 @@
+import Log from '@ulixee/commons/lib/Logger';
+import { nanoid } from 'nanoid';
+import Pool from '@ulixee/unblocked-agent/lib/Pool';
+import Agent from '@ulixee/unblocked-agent/lib/Agent';
+import EventSubscriber from '@ulixee/commons/lib/EventSubscriber';
+import ICommandMarker from '@ulixee/unblocked-agent/interfaces/ICommandMarker';
+import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
+import CorePlugins from './CorePlugins';
+import Session from './Session';
+import env from '../env';
+
+const { log } = Log(module);
+
+// options that change the browser context or the session identity can't use a shared warm context
+const incompatibleOptions: (keyof ISessionCreateOptions)[] = [
+  'sessionId',
+  'resumeSessionId',
+  'userProfile',
+  'corePluginPaths',
+  'dependencyMap',
+  'viewport',
+  'timezoneId',
+  'locale',
+  'geolocation',
+  'upstreamProxyUrl',
+  'upstreamProxyIpMask',
+  'dnsOverTlsProvider',
+  'proxyPort',
+  'disableIncognito',
+];
+
+const launchOptions = [
+  'showChrome',
+  'noChromeSandbox',
+  'disableGpu',
+  'disableMitm',
+  'disableDevtools',
+] as const;
+
+export interface IWarmAgent {
+  agent: Agent;
+  plugins: CorePlugins;
+  profileKey: string;
+  options: ISessionCreateOptions;
+}
+
+export interface IBrowserContextPoolMetrics {
+  hits: number;
+  misses: number;
+  incompatible: number;
+  warm: number;
+  byProfile: {
+    [profileKey: string]: { hits: number; misses: number; warm: number };
+  };
+}
+
+export default class BrowserContextPool {
+  public static defaultProfileKey = 'default';
+
+  public get isEnabled(): boolean {
+    return this.contextsPerProfile > 0;
+  }
+
+  private readonly warmAgentsByProfile = new Map<string, IWarmAgent[]>();
+  private readonly metrics: IBrowserContextPoolMetrics = {
+    hits: 0,
+    misses: 0,
+    incompatible: 0,
+    warm: 0,
+    byProfile: {},
+  };
+
+  private readonly events = new EventSubscriber();
+  private isClosing = false;
+
+  constructor(private readonly pool: Pool, private readonly contextsPerProfile = 0) {}
+
+  public start(): void {
+    if (!this.isEnabled) return;
+    // a closed session frees up a slot for warm agents
+    this.events.on(Session.events, 'closed', () => process.nextTick(() => this.fillAll()));
+    this.fill(BrowserContextPool.defaultProfileKey);
+  }
+
+  public claim(options: ISessionCreateOptions): IWarmAgent | null {
+    if (!this.isEnabled || this.isClosing) return null;
+
+    const profileKey = BrowserContextPool.getProfileKey(options);
+    if (!profileKey) {
+      this.metrics.incompatible += 1;
+      this.trimWarmAgents(null);
+      return null;
+    }
+
+    const profileMetrics = this.getProfileMetrics(profileKey);
+    const warmAgents = this.warmAgentsByProfile.get(profileKey);
+    const warmAgent = warmAgents?.find(x => BrowserContextPool.isMatch(x.options, options));
+    if (warmAgent) {
+      this.remove(warmAgent);
+      // the agent's options are its emulation options. Everything that configures the browser
+      // context matched, so the remaining session options are added and the core plugins,
+      // which were configured before the session existed, are configured again.
+      Object.assign(warmAgent.options, options);
+      warmAgent.plugins.configure(warmAgent.agent.emulationProfile);
+      this.metrics.hits += 1;
+      profileMetrics.hits += 1;
+    } else {
+      this.metrics.misses += 1;
+      profileMetrics.misses += 1;
+      // contexts warmed for another profile make room for the profile of this session
+      this.trimWarmAgents(profileKey);
+    }
+    log.stats('BrowserContextPool.claim', {
+      profileKey,
+      isHit: !!warmAgent,
+      sessionId: warmAgent?.agent.id ?? null,
+    });
+
+    // refill after the claiming session has taken its pool slot
+    process.nextTick(() => this.fill(profileKey));
+    return warmAgent ?? null;
+  }
+
+  public getMetrics(): IBrowserContextPoolMetrics {
+    const byProfile: IBrowserContextPoolMetrics['byProfile'] = {};
+    for (const [key, value] of Object.entries(this.metrics.byProfile)) {
+      byProfile[key] = { ...value };
+    }
+    return { ...this.metrics, byProfile };
+  }
+
+  public async close(): Promise<void> {
+    this.isClosing = true;
+    let warmAgents: IWarmAgent[] = [];
+    for (const profileWarmAgents of this.warmAgentsByProfile.values()) {
+      warmAgents = warmAgents.concat(profileWarmAgents);
+    }
+    for (const warmAgent of warmAgents) this.remove(warmAgent);
+    this.events.close();
+    await Promise.all(warmAgents.map(x => x.agent.close().catch(() => null)));
+  }
+
+  private fill(profileKey: string): void {
+    if (this.isClosing) return;
+    let warmAgents = this.warmAgentsByProfile.get(profileKey);
+    if (!warmAgents) {
+      warmAgents = [];
+      this.warmAgentsByProfile.set(profileKey, warmAgents);
+    }
+    this.getProfileMetrics(profileKey);
+
+    // warm agents only take pool slots no session is using. Opening an agent takes its slot
+    // right away, so the availability is up to date for the next one.
+    while (warmAgents.length < this.contextsPerProfile && this.pool.hasAvailability) {
+      warmAgents.push(this.createWarmAgent(profileKey));
+    }
+    this.updateWarmCount();
+  }
+
+  private fillAll(): void {
+    for (const profileKey of this.warmAgentsByProfile.keys()) this.fill(profileKey);
+  }
+
+  private createWarmAgent(profileKey: string): IWarmAgent {
+    const id = nanoid();
+    const options: ISessionCreateOptions = {};
+    for (const key of launchOptions) options[key] = env[key];
+    options.showChrome ??= false;
+    if (profileKey !== BrowserContextPool.defaultProfileKey) options.userAgent = profileKey;
+
+    const agent = this.pool.createAgent({
+      options,
+      customEmulatorConfig: {
+        userAgentSelector:
+          profileKey === BrowserContextPool.defaultProfileKey ? undefined : profileKey,
+      },
+      logger: log.createChild(module, { sessionId: id }),
+      id,
+      commandMarker: createCommandMarker(id),
+    });
+    const plugins = new CorePlugins(agent, {
+      getSessionSummary: () => Session.get(id)?.getSummary() ?? { id, options: { ...options } },
+    });
+    const warmAgent: IWarmAgent = { agent, plugins, profileKey, options };
+
+    this.events.group(
+      id,
+      this.events.once(agent, 'close', () => this.remove(warmAgent)),
+    );
+    void this.open(warmAgent);
+    return warmAgent;
+  }
+
+  private async open(warmAgent: IWarmAgent): Promise<void> {
+    const { agent } = warmAgent;
+    try {
+      await agent.open();
+    } catch (error) {
+      log.warn('BrowserContextPool.WarmContextError', { error, sessionId: agent.id });
+      if (this.remove(warmAgent)) await agent.close().catch(() => null);
+    }
+  }
+
+  private trimWarmAgents(exceptProfileKey: string): void {
+    // a warm agent that can't be claimed is holding a pool slot the session needs
+    if (this.pool.hasAvailability) return;
+    for (const [profileKey, warmAgents] of this.warmAgentsByProfile) {
+      if (profileKey === exceptProfileKey || !warmAgents.length) continue;
+      const warmAgent = warmAgents[warmAgents.length - 1];
+      this.remove(warmAgent);
+      void warmAgent.agent.close().catch(() => null);
+      return;
+    }
+  }
+
+  private remove(warmAgent: IWarmAgent): boolean {
+    const warmAgents = this.warmAgentsByProfile.get(warmAgent.profileKey);
+    const index = warmAgents?.indexOf(warmAgent) ?? -1;
+    if (index < 0) return false;
+    warmAgents.splice(index, 1);
+    this.events.endGroup(warmAgent.agent.id);
+    this.updateWarmCount();
+    return true;
+  }
+
+  private getProfileMetrics(profileKey: string): IBrowserContextPoolMetrics['byProfile'][string] {
+    this.metrics.byProfile[profileKey] ??= { hits: 0, misses: 0, warm: 0 };
+    return this.metrics.byProfile[profileKey];
+  }
+
+  private updateWarmCount(): void {
+    this.metrics.warm = 0;
+    for (const [profileKey, metrics] of Object.entries(this.metrics.byProfile)) {
+      metrics.warm = this.warmAgentsByProfile.get(profileKey)?.length ?? 0;
+      this.metrics.warm += metrics.warm;
+    }
+  }
+
+  public static getProfileKey(options: ISessionCreateOptions): string | null {
+    if (options.mode === 'browserless') return null;
+    for (const key of incompatibleOptions) {
+      if (options[key] !== undefined && options[key] !== null) return null;
+    }
+    for (const key of launchOptions) {
+      if (options[key] === undefined || options[key] === null) continue;
+      if (Boolean(options[key]) !== Boolean(env[key])) return null;
+    }
+    return options.userAgent ?? BrowserContextPool.defaultProfileKey;
+  }
+
+  private static isMatch(
+    warmOptions: ISessionCreateOptions,
+    options: ISessionCreateOptions,
+  ): boolean {
+    if ((options.userAgent ?? null) !== (warmOptions.userAgent ?? null)) return false;
+    for (const key of launchOptions) {
+      if (options[key] === undefined || options[key] === null) continue;
+      if (Boolean(options[key]) !== Boolean(warmOptions[key])) return false;
+    }
+    return true;
+  }
+}
+
+function createCommandMarker(sessionId: string): ICommandMarker {
+  // the warm context is created before its session, so forward to the session once it claims it
+  return {
+    get lastId() {
+      return Session.get(sessionId)?.commands.lastId;
+    },
+    getStartingCommandIdFor(marker) {
+      return Session.get(sessionId)?.commands.getStartingCommandIdFor(marker) ?? 0;
+    },
+  };
+}
@@ -4,10 +4,15 @@ import { getKeyboardKey } from '@ulixee/unblocked-specification/agent/interact/I
 import { getNodePointerFnName } from '@ulixee/unblocked-specification/agent/browser/IJsPathFunctions';
 import TypeSerializer from '@ulixee/commons/lib/TypeSerializer';
 import ICommandTimelineOffset from '@ulixee/hero-interfaces/ICommandTimelineOffset';
+import ILiveQueryResolution from '@ulixee/hero-interfaces/ILiveQueryResolution';
 import ICommandWithResult from '../interfaces/ICommandWithResult';
 
 export default class CommandFormatter {
   public static toString(command: ICommandMeta): string {
+    if (command.liveQueryResolution) {
+      const label = CommandFormatter.toString({ ...command, liveQueryResolution: undefined });
+      return `${label}\n  ${formatLiveQueryResolution(command.liveQueryResolution)}`;
+    }
     if (!command.args) {
       return `${command.name}()`;
     }
@@ -188,3 +193,12 @@ export function formatJsPath(path: any): string {
 
   return `${jsPath.join('.')}`;
 }
+
+function formatLiveQueryResolution(resolution: ILiveQueryResolution | string): string {
+  // loaded from the Commands table as json
+  if (typeof resolution === 'string') resolution = JSON.parse(resolution) as ILiveQueryResolution;
+  const previousNode = resolution.previousNodeId ? ` (was node ${resolution.previousNodeId})` : '';
+  return `[liveQuery re-resolved ${formatJsPath(resolution.jsPath)}${previousNode} after: ${
+    resolution.error
+  }]`;
+}
@@ -18,6 +18,8 @@ export type ICommandPresetMeta = Pick<
   | 'commandId'
   | 'callsite'
   | 'retryNumber'
+  | 'liveQueryResolution'
+  | 'isReplay'
 >;
 
 export default class Commands
@@ -108,6 +110,7 @@ export default class Commands
         retryNumber,
         activeFlowHandlerId,
         flowCommandId,
+        liveQueryResolution,
       } = presetCommandMeta;
       if (commandId) commandMeta.id = commandId;
       commandMeta.clientSendDate = sendTime;
@@ -116,6 +119,7 @@ export default class Commands
       commandMeta.retryNumber = retryNumber;
       commandMeta.activeFlowHandlerId = activeFlowHandlerId;
       commandMeta.flowCommandId = flowCommandId;
+      commandMeta.liveQueryResolution = liveQueryResolution;
     }
     return commandMeta;
   }
@@ -154,6 +158,36 @@ export default class Commands
     this.emit('finish', commandMeta);
   }
 
+  public findReplayedCommand(
+    presetMeta: ICommandPresetMeta,
+    commandName: string,
+  ): ICommandMeta | undefined {
+    if (!presetMeta?.commandId) return;
+    const retryNumber = presetMeta.retryNumber ?? 0;
+    return this.history.find(
+      x =>
+        x.id === presetMeta.commandId &&
+        (x.retryNumber ?? 0) === retryNumber &&
+        x.name === commandName,
+    );
+  }
+
+  // resolves (or rejects) with the outcome of a command that has already started
+  public async waitForResult(commandMeta: ICommandMeta): Promise<any> {
+    if (!commandMeta.endDate) {
+      await new Promise<void>(resolve => {
+        const onFinish = (finished: ICommandMeta): void => {
+          if (finished !== commandMeta) return;
+          this.off('finish', onFinish);
+          resolve();
+        };
+        this.on('finish', onFinish);
+      });
+    }
+    if (commandMeta.result instanceof Error) throw commandMeta.result;
+    return commandMeta.result;
+  }
+
   public getCommandForTimestamp(lastCommand: ICommandMeta, timestamp: number): ICommandMeta {
     let command = lastCommand;
     if (command.runStartDate <= timestamp && command.endDate > timestamp) {
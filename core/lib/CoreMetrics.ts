@@ -0,0 +1,230 @@
+import EventSubscriber from '@ulixee/commons/lib/EventSubscriber';
+import ICommandMeta from '@ulixee/hero-interfaces/ICommandMeta';
+import IResourceMeta from '@ulixee/unblocked-specification/agent/net/IResourceMeta';
+import Core from '../index';
+import Session from './Session';
+
+interface IHistogram {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+interface IMetricSample {
+  labels?: { [name: string]: string };
+  value: number;
+}
+
+export default class CoreMetrics {
+  public static commandDurationBucketsSecs = [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+  ];
+
+  private readonly sessions = new Set<Session>();
+  private readonly commandDurations = new Map<string, IHistogram>();
+  private readonly commandErrorsByName: { [name: string]: number } = {};
+  private readonly resourcesByType: { [type: string]: { count: number; bytes: number } } = {};
+  private readonly launchedBrowserEngines = new Set<string>();
+  private readonly events = new EventSubscriber();
+  private sessionsCreated = 0;
+  private browserLaunches = 0;
+  private browserRestarts = 0;
+  private isStarted = false;
+
+  public start(): void {
+    if (this.isStarted) return;
+    this.isStarted = true;
+    this.events.on(Session.events, 'new', ({ session }) => this.onSession(session));
+    this.events.on(Core.events, 'browser-launched', ({ browser }) => {
+      this.browserLaunches += 1;
+      const engineKey = browser.engine?.executablePath ?? browser.engine?.fullVersion;
+      if (this.launchedBrowserEngines.has(engineKey)) this.browserRestarts += 1;
+      else this.launchedBrowserEngines.add(engineKey);
+    });
+  }
+
+  public stop(): void {
+    this.isStarted = false;
+    this.sessions.clear();
+    this.events.close();
+  }
+
+  public toPrometheus(): string {
+    const lines: string[] = [];
+    const write = (
+      name: string,
+      type: 'gauge' | 'counter',
+      help: string,
+      samples: IMetricSample[],
+    ): void => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const { labels, value } of samples) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    };
+
+    const sessions = [...this.sessions];
+    write('hero_sessions_active', 'gauge', 'Sessions currently open in this Core.', [
+      { value: sessions.length },
+    ]);
+    let queuedSessions = 0;
+    for (const connection of Core.connections) queuedSessions += connection.queuedSessionCount;
+    write(
+      'hero_sessions_queued',
+      'gauge',
+      'Sessions waiting in the queues of connected clients to be created.',
+      [{ value: queuedSessions }],
+    );
+    write('hero_sessions_created_total', 'counter', 'Sessions created by this Core.', [
+      { value: this.sessionsCreated },
+    ]);
+    if (Core.pool) {
+      write('hero_agents_active', 'gauge', 'Browser agents holding a concurrency slot.', [
+        { value: Core.pool.activeAgentsCount },
+      ]);
+      write('hero_agents_max', 'gauge', 'Maximum concurrent browser agents.', [
+        { value: Core.pool.maxConcurrentAgents },
+      ]);
+    }
+
+    this.writeCommandHistogram(lines);
+    write(
+      'hero_command_errors_total',
+      'counter',
+      'Commands that finished with an error.',
+      Object.entries(this.commandErrorsByName).map(([command, value]) => ({
+        labels: { command },
+        value,
+      })),
+    );
+
+    const resourceTypes = Object.entries(this.resourcesByType);
+    write(
+      'hero_resources_total',
+      'counter',
+      'Resources recorded by sessions.',
+      resourceTypes.map(([type, x]) => ({ labels: { type }, value: x.count })),
+    );
+    write(
+      'hero_resource_bytes_total',
+      'counter',
+      'Response body bytes of resources recorded by sessions.',
+      resourceTypes.map(([type, x]) => ({ labels: { type }, value: x.bytes })),
+    );
+
+    write('hero_browser_launches_total', 'counter', 'Browsers launched by the pool.', [
+      { value: this.browserLaunches },
+    ]);
+    write(
+      'hero_browser_restarts_total',
+      'counter',
+      'Browsers launched for an engine that had been launched before.',
+      [{ value: this.browserRestarts }],
+    );
+
+    let pendingWrites = 0;
+    for (const session of sessions) pendingWrites += session.db.pendingInsertCount;
+    write('hero_db_pending_writes', 'gauge', 'Session database records waiting to be written.', [
+      { value: pendingWrites },
+    ]);
+
+    const prewarm = Core.browserContextPool?.getMetrics();
+    if (prewarm) {
+      const profiles = Object.entries(prewarm.byProfile);
+      write(
+        'hero_prewarm_context_hits_total',
+        'counter',
+        'Sessions that claimed a pre-warmed browser context.',
+        profiles.map(([profile, x]) => ({ labels: { profile }, value: x.hits })),
+      );
+      write(
+        'hero_prewarm_context_misses_total',
+        'counter',
+        'Sessions that found no pre-warmed browser context for their profile.',
+        profiles.map(([profile, x]) => ({ labels: { profile }, value: x.misses })),
+      );
+      write(
+        'hero_prewarm_contexts',
+        'gauge',
+        'Pre-warmed browser contexts ready to be claimed.',
+        profiles.map(([profile, x]) => ({ labels: { profile }, value: x.warm })),
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private writeCommandHistogram(lines: string[]): void {
+    const name = 'hero_command_duration_seconds';
+    lines.push(
+      `# HELP ${name} Time to run a command in Core, by command name.`,
+      `# TYPE ${name} histogram`,
+    );
+    const buckets = CoreMetrics.commandDurationBucketsSecs;
+    for (const [command, histogram] of this.commandDurations) {
+      buckets.forEach((le, i) => {
+        const labels = formatLabels({ command, le: String(le) });
+        lines.push(`${name}_bucket${labels} ${histogram.bucketCounts[i]}`);
+      });
+      lines.push(
+        `${name}_bucket${formatLabels({ command, le: '+Inf' })} ${histogram.count}`,
+        `${name}_sum${formatLabels({ command })} ${histogram.sum}`,
+        `${name}_count${formatLabels({ command })} ${histogram.count}`,
+      );
+    }
+  }
+
+  private onSession(session: Session): void {
+    this.sessions.add(session);
+    this.sessionsCreated += 1;
+    const id = session.id;
+    this.events.group(
+      id,
+      this.events.on(session.commands, 'finish', this.onCommandFinished.bind(this)),
+      this.events.on(session, 'resource', this.onResource.bind(this)),
+      this.events.once(session, 'closed', () => {
+        this.sessions.delete(session);
+        this.events.endGroup(id);
+      }),
+    );
+  }
+
+  private onCommandFinished(command: ICommandMeta): void {
+    const { name } = command;
+    let histogram = this.commandDurations.get(name);
+    if (!histogram) {
+      histogram = {
+        bucketCounts: CoreMetrics.commandDurationBucketsSecs.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.commandDurations.set(name, histogram);
+    }
+    const durationSecs = Math.max(0, command.endDate - command.runStartDate) / 1e3;
+    CoreMetrics.commandDurationBucketsSecs.forEach((le, i) => {
+      if (durationSecs <= le) histogram.bucketCounts[i] += 1;
+    });
+    histogram.sum += durationSecs;
+    histogram.count += 1;
+
+    if (command.result instanceof Error) {
+      this.commandErrorsByName[name] = (this.commandErrorsByName[name] ?? 0) + 1;
+    }
+  }
+
+  private onResource(event: { resource: IResourceMeta; bodyBytes: number }): void {
+    const type = event.resource.type ?? 'Other';
+    this.resourcesByType[type] ??= { count: 0, bytes: 0 };
+    this.resourcesByType[type].count += 1;
+    this.resourcesByType[type].bytes += event.bodyBytes;
+  }
+}
+
+function formatLabels(labels?: { [name: string]: string }): string {
+  if (!labels) return '';
+  const pairs = Object.entries(labels).map(([key, value]) => {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    return `${key}="${escaped}"`;
+  });
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,212 @@
+import * as Fs from 'fs';
+import Log from '@ulixee/commons/lib/Logger';
+import Resolvable from '@ulixee/commons/lib/Resolvable';
+import EventSubscriber from '@ulixee/commons/lib/EventSubscriber';
+import Timer from '@ulixee/commons/lib/Timer';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
+import Session from './Session';
+import Tab from './Tab';
+import Core from '../index';
+import SessionDb from '../dbs/SessionDb';
+
+const { log } = Log(module);
+
+interface IDownloadWillBeginEvent {
+  frameId: string;
+  guid: string;
+  url: string;
+  suggestedFilename: string;
+}
+
+interface IDownloadProgressEvent {
+  guid: string;
+  totalBytes: number;
+  receivedBytes: number;
+  state: IDownload['state'];
+}
+
+type IDownloadListener = (download: IDownload) => void;
+
+export default class Downloads {
+  public static defaultTimeoutMs = 5 * 60e3;
+
+  public static get downloadsDir(): string {
+    return `${Core.dataDir}/hero-downloads`;
+  }
+
+  public readonly path: string;
+
+  private readonly downloadsById = new Map<string, IDownload>();
+  private readonly finishedById = new Map<string, Resolvable<IDownload>>();
+  private readonly listenersById = new Map<string, Set<IDownloadListener>>();
+  private readonly events = new EventSubscriber();
+
+  constructor(private readonly session: Session) {
+    this.path = Downloads.getSessionPath(session.id);
+  }
+
+  public async install(): Promise<void> {
+    const browserContext = this.session.browserContext;
+    // download events are only published to the browser target
+    const devtools = browserContext.browser.devtoolsSession;
+    this.events.on(devtools, 'Browser.downloadWillBegin', this.onDownloadWillBegin.bind(this));
+    this.events.on(devtools, 'Browser.downloadProgress', this.onDownloadProgress.bind(this));
+
+    await Fs.promises.mkdir(this.path, { recursive: true });
+    await devtools.send('Browser.setDownloadBehavior', {
+      // saves files by their guid so same-named downloads don't overwrite each other
+      behavior: 'allowAndName',
+      browserContextId: browserContext.id,
+      downloadPath: this.path,
+      eventsEnabled: true,
+    });
+  }
+
+  public get(id: string): IDownload {
+    const download = this.downloadsById.get(id);
+    if (!download) throw new Error(`No download was found with id "${id}"`);
+    return { ...download };
+  }
+
+  public getForTab(tabId: number): IDownload[] {
+    return [...this.downloadsById.values()].filter(x => x.tabId === tabId);
+  }
+
+  public async getBuffer(id: string, timeoutMs = Downloads.defaultTimeoutMs): Promise<Buffer> {
+    const download = await this.waitForFinished(id, timeoutMs);
+    return await Downloads.readFile(download);
+  }
+
+  public async waitForFinished(
+    id: string,
+    timeoutMs = Downloads.defaultTimeoutMs,
+  ): Promise<IDownload> {
+    const download = this.get(id);
+    const timer = new Timer(timeoutMs);
+    try {
+      return await timer.waitForPromise(
+        this.finishedById.get(id).promise,
+        `Timeout waiting for the download of "${download.suggestedFilename}" to finish`,
+      );
+    } finally {
+      timer.clear();
+    }
+  }
+
+  public listen(id: string, listener: IDownloadListener): void {
+    if (!this.listenersById.has(id)) this.listenersById.set(id, new Set());
+    this.listenersById.get(id).add(listener);
+  }
+
+  public unlisten(id: string, listener: IDownloadListener): void {
+    this.listenersById.get(id)?.delete(listener);
+  }
+
+  public close(): void {
+    this.events.close();
+    for (const download of this.downloadsById.values()) {
+      if (download.state !== 'inProgress') continue;
+      // the browser cancels any downloads still running when the context closes
+      this.finish(download, 'canceled');
+    }
+    this.listenersById.clear();
+  }
+
+  private onDownloadWillBegin(event: IDownloadWillBeginEvent): void {
+    let tab: Tab;
+    for (const sessionTab of this.session.tabsById.values()) {
+      if (sessionTab.frameEnvironmentsByDevtoolsId.has(event.frameId)) tab = sessionTab;
+    }
+    // the browser is shared by other sessions
+    if (!tab) return;
+
+    const download: IDownload = {
+      id: event.guid,
+      tabId: tab.id,
+      frameId: tab.frameEnvironmentsByDevtoolsId.get(event.frameId).id,
+      commandId: this.session.commands.lastId,
+      url: event.url,
+      suggestedFilename: event.suggestedFilename,
+      mimeType: this.getMimeType(event.url),
+      path: `${this.path}/${event.guid}`,
+      state: 'inProgress',
+      totalBytes: 0,
+      receivedBytes: 0,
+      startDate: Date.now(),
+    };
+    this.downloadsById.set(download.id, download);
+    this.finishedById.set(download.id, new Resolvable());
+    this.session.db.downloads.insert(download);
+    log.info('Downloads.started', {
+      sessionId: this.session.id,
+      url: download.url,
+      suggestedFilename: download.suggestedFilename,
+    });
+    tab.emit('download', { ...download });
+  }
+
+  private onDownloadProgress(event: IDownloadProgressEvent): void {
+    const download = this.downloadsById.get(event.guid);
+    if (!download || download.state !== 'inProgress') return;
+
+    download.totalBytes = event.totalBytes;
+    download.receivedBytes = event.receivedBytes;
+    if (event.state !== 'inProgress') {
+      download.mimeType ??= this.getMimeType(download.url);
+      this.finish(download, event.state);
+      return;
+    }
+    this.publish(download);
+  }
+
+  private finish(download: IDownload, state: IDownload['state']): void {
+    download.state = state;
+    download.endDate = Date.now();
+    this.session.db.downloads.insert(download);
+    this.publish(download);
+    this.finishedById.get(download.id).resolve({ ...download });
+  }
+
+  private publish(download: IDownload): void {
+    for (const listener of this.listenersById.get(download.id) ?? []) {
+      listener({ ...download });
+    }
+  }
+
+  private getMimeType(url: string): string {
+    const resources = [...this.session.resources.resourcesById.values()].reverse();
+    const resource = resources.find(x => x.url === url && x.response?.headers);
+    if (!resource) return;
+
+    for (const [name, value] of Object.entries(resource.response.headers)) {
+      if (name.toLowerCase() !== 'content-type') continue;
+      const contentType = Array.isArray(value) ? value[0] : value;
+      return contentType.split(';').shift().trim();
+    }
+  }
+
+  public static getSessionPath(sessionId: string): string {
+    return `${Downloads.downloadsDir}/${sessionId}`;
+  }
+
+  public static async getRecordedBuffer(db: SessionDb, id: string): Promise<Buffer> {
+    const download = db.hasTable(db.downloads) ? db.downloads.get(id) : null;
+    if (!download) throw new Error(`No download was found with id "${id}"`);
+    if (download.state === 'inProgress') {
+      throw new Error(`The download of "${download.suggestedFilename}" never finished.`);
+    }
+    return await Downloads.readFile(download);
+  }
+
+  private static async readFile(download: IDownload): Promise<Buffer> {
+    if (download.state === 'canceled') {
+      throw new Error(`The download of "${download.suggestedFilename}" was canceled.`);
+    }
+    try {
+      return await Fs.promises.readFile(download.path);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      throw new Error(`The file of "${download.suggestedFilename}" was removed from this machine.`);
+    }
+  }
+}
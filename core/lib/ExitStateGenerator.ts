@@ -0,0 +1,164 @@
+import DomStateGenerator from '@ulixee/hero-timetravel/lib/DomStateGenerator';
+import DomStateAssertions from '@ulixee/hero-timetravel/lib/DomStateAssertions';
+import IDomStateAssertionBatch, {
+  IAssertionAndResult,
+} from '@ulixee/hero-interfaces/IDomStateAssertionBatch';
+import IGeneratedExitState, {
+  IExitStateCommandRange,
+  IExitStateGenerateOptions,
+} from '@ulixee/hero-interfaces/IGeneratedExitState';
+import Log from '@ulixee/commons/lib/Logger';
+import SessionDb from '../dbs/SessionDb';
+
+const { log } = Log(module);
+
+type IAssertion = IDomStateAssertionBatch['assertions'][0];
+
+const typeOrder: IAssertionAndResult['type'][] = ['url', 'xpath', 'jspath', 'resource', 'storage'];
+
+export default class ExitStateGenerator {
+  public static async generate(
+    db: SessionDb,
+    options: IExitStateGenerateOptions,
+  ): Promise<IGeneratedExitState> {
+    const { otherSessions = [], heroVariable = 'hero' } = options;
+
+    const domStateGenerator = new DomStateGenerator(`${db.sessionId}-exit-state`);
+    try {
+      this.addSession(domStateGenerator, db, options);
+      for (const other of otherSessions) {
+        const otherDb = SessionDb.getCached(other.sessionId, true);
+        this.addSession(domStateGenerator, otherDb, other);
+      }
+      await domStateGenerator.evaluate();
+
+      const { assertions } = domStateGenerator.export(100);
+      const skippedAssertions = assertions.filter(x => !this.toAssertSource(x, heroVariable));
+      if (skippedAssertions.length === assertions.length) {
+        // an empty all() function would match any page
+        throw new Error(
+          `None of the ${assertions.length} changes found in this command range can be written as a DomState assertion.`,
+        );
+      }
+      if (skippedAssertions.length) {
+        log.warn('ExitStateGenerator.skippedAssertions', {
+          skippedAssertions,
+          sessionId: db.sessionId,
+        });
+      }
+      return {
+        code: this.toAllFnSource(assertions, heroVariable),
+        assertions,
+        skippedAssertions,
+        assertionCounts: DomStateAssertions.countAssertions(domStateGenerator.assertsByFrameId),
+      };
+    } finally {
+      await domStateGenerator.close();
+    }
+  }
+
+  public static toAllFnSource(assertions: IAssertion[], heroVariable = 'hero'): string {
+    const sorted = [...assertions].sort(
+      (a, b) => typeOrder.indexOf(a[1]) - typeOrder.indexOf(b[1]),
+    );
+    const lines: string[] = [];
+    for (const assertion of sorted) {
+      const source = this.toAssertSource(assertion, heroVariable);
+      // leave a note for changes Hero can't check, so they aren't lost without a trace
+      const note = `// not checked: ${assertion[1]} ${JSON.stringify(assertion[2])}`;
+      lines.push(source ? `  ${source};` : `  ${note}`);
+    }
+    return ['all(assert) {', ...lines, '}'].join('\n');
+  }
+
+  private static addSession(
+    generator: DomStateGenerator,
+    db: SessionDb,
+    range: IExitStateCommandRange,
+  ): void {
+    const [startId, endId] = range.commandRange;
+    const commands = db.commands
+      .all()
+      .filter(x => x.id >= startId && x.id <= endId && (!range.tabId || x.tabId === range.tabId));
+    if (!commands.length) {
+      throw new Error(
+        `No commands were found in the range ${startId}-${endId} of session ${db.sessionId}.`,
+      );
+    }
+
+    const tabId = range.tabId ?? commands.find(x => x.tabId)?.tabId;
+    const startTime = Math.min(...commands.map(x => x.runStartDate ?? x.clientStartDate));
+    const endTime = Math.max(...commands.map(x => x.endDate ?? Date.now()));
+    generator.addSession(db, tabId, [startTime, endTime]);
+  }
+
+  private static toAssertSource(assertion: IAssertion, hero: string): string {
+    const [, type, args, comparison, result] = assertion;
+
+    if (type === 'url') {
+      return `assert(${hero}.url, ${this.toAssertion(comparison, result)})`;
+    }
+
+    if (type === 'xpath') {
+      const [query] = args as string[];
+      const count = query.match(/^count\((.+)\)$/);
+      if (count) {
+        const assert = this.toAssertion(comparison, result, 'nodes', 'nodes.length');
+        return `assert(${hero}.xpathSelectorAll(${toLiteral(count[1])}), ${assert})`;
+      }
+      const text = query.match(/^string\((.+)\)$/);
+      if (text) {
+        const textContent = `${hero}.xpathSelector(${toLiteral(text[1])}).textContent`;
+        return `assert(${textContent}, ${this.toAssertion(comparison, result)})`;
+      }
+      return null;
+    }
+
+    if (type === 'resource') {
+      const [{ url, httpRequest }] = args;
+      const filter = `{ url: ${toLiteral(url)}, httpRequest: { statusCode: ${
+        httpRequest.statusCode
+      }, method: ${toLiteral(httpRequest.method)} } }`;
+      return `assert(${hero}.findResource(${filter}))`;
+    }
+
+    if (type === 'storage') {
+      const [entry, property] = args;
+      const isRemoved = entry.action === 'remove';
+      if (entry.type === 'cookie') {
+        const cookie = `${hero}.activeTab.cookieStorage.getItem(${toLiteral(entry.key)})`;
+        if (property === 'value') {
+          return `assert(${cookie}, cookie => cookie?.value === ${toLiteral(result)})`;
+        }
+        return `assert(${cookie}, cookie => ${isRemoved ? '!cookie' : '!!cookie'})`;
+      }
+      if (entry.type === 'localStorage' || entry.type === 'sessionStorage') {
+        const getItem = `${entry.type}.getItem(${JSON.stringify(entry.key)})`;
+        const value = `${hero}.getJsValue(${toLiteral(getItem)})`;
+        if (property === 'value') return `assert(${value}, ${toLiteral(result)})`;
+        return `assert(${value}, value => value ${isRemoved ? '===' : '!=='} null)`;
+      }
+      // indexedDB changes can't be checked from a script
+      return null;
+    }
+
+    return null;
+  }
+
+  private static toAssertion(
+    comparison: IAssertionAndResult['comparison'],
+    result: IAssertionAndResult['result'],
+    param = 'value',
+    expression = param,
+  ): string {
+    if (comparison === '===' && param === expression) return toLiteral(result);
+    if (comparison === '!!') return `${param} => !!${expression}`;
+    return `${param} => ${expression} ${comparison} ${toLiteral(result)}`;
+  }
+}
+
+function toLiteral(value: IAssertionAndResult['result']): string {
+  if (typeof value !== 'string') return String(value);
+  const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+  return `'${escaped}'`;
+}
@@ -10,6 +10,7 @@ import { ICookie } from '@ulixee/unblocked-specification/agent/net/ICookie';
 import {
   IInteractionGroups,
   IInteractionStep,
+  isMousePositionXY,
 } from '@ulixee/unblocked-specification/agent/interact/IInteractions';
 import { URL } from 'url';
 import * as Fs from 'fs';
@@ -27,6 +28,8 @@ import { TypedEventEmitter } from '@ulixee/commons/lib/eventUtils';
 import { DomActionType } from '@ulixee/hero-interfaces/IDomChangeEvent';
 import IDomStateAssertionBatch from '@ulixee/hero-interfaces/IDomStateAssertionBatch';
 import IDetachedElement from '@ulixee/hero-interfaces/IDetachedElement';
+import IExtractSchema from '@ulixee/hero-interfaces/IExtractSchema';
+import NodeNotFoundError from '@ulixee/hero-interfaces/NodeNotFoundError';
 import { IFrameNavigationEvents } from '@ulixee/unblocked-specification/agent/browser/IFrameNavigations';
 import { ISerializable } from '@ulixee/unblocked-agent/lib/JsPath';
 import Frame from '@ulixee/unblocked-agent/lib/Frame';
@@ -39,6 +42,10 @@ import InjectedScripts from './InjectedScripts';
 import { PageRecorderResultSet } from '../injected-scripts/pageEventsRecorder';
 import { ICommandableTarget } from './CommandRunner';
 import { IRemoteEmitFn, IRemoteEventListener } from '../interfaces/IRemoteEventListener';
+import DomChangesTable from '../models/DomChangesTable';
+import MouseEventsTable from '../models/MouseEventsTable';
+import FocusEventsTable from '../models/FocusEventsTable';
+import ScrollEventsTable from '../models/ScrollEventsTable';
 
 const { log } = Log(module);
 
@@ -138,6 +145,7 @@ export default class FrameEnvironment
       this.createRequest,
       this.detachElement,
       this.execJsPath,
+      this.extract,
       this.fetch,
       this.getChildFrameEnvironment,
       this.getCookies,
@@ -205,6 +213,7 @@ export default class FrameEnvironment
   }
 
   public afterEachInteractionStep(interaction: IInteractionStep, startTime: number): Promise<void> {
+    if (!this.session.db.recordingPolicy.shouldRecord('interactions')) return Promise.resolve();
     this.session.db.interactions.insert(
       this.tab.id,
       this.id,
@@ -234,7 +243,22 @@ export default class FrameEnvironment
   /////// COMMANDS /////////////////////////////////////////////////////////////////////////////////////////////////////
 
   public async interact(...interactionGroups: IInteractionGroups): Promise<void> {
-    await this.frame.interact(...interactionGroups);
+    try {
+      await this.frame.interact(...interactionGroups);
+    } catch (error) {
+      if (error instanceof CanceledPromiseError) throw error;
+      for (const group of interactionGroups) {
+        for (const step of group) {
+          for (const jsPath of [step.mousePosition, step.delayElement, step.delayNode]) {
+            if (!jsPath || isMousePositionXY(jsPath)) continue;
+            if (await this.isNodeMissing(jsPath as IJsPath)) {
+              throw new NodeNotFoundError(error.message, error.pathState);
+            }
+          }
+        }
+      }
+      throw error;
+    }
   }
 
   public async getJsValue<T>(expression: string): Promise<T> {
@@ -242,7 +266,15 @@ export default class FrameEnvironment
   }
 
   public async execJsPath<T>(jsPath: IJsPath): Promise<IExecJsPathResult<T>> {
-    return await this.frame.jsPath.exec(jsPath);
+    try {
+      return await this.frame.jsPath.exec(jsPath);
+    } catch (error) {
+      // the last step failed or a step before it did, so the step itself isn't checked
+      if (error.pathState && (await this.isNodeMissing(jsPath.slice(0, -1)))) {
+        throw new NodeNotFoundError(error.message, error.pathState);
+      }
+      throw error;
+    }
   }
 
   public meta(): IFrameMeta {
@@ -322,6 +354,14 @@ export default class FrameEnvironment
     );
   }
 
+  public async extract<T = any>(schema: IExtractSchema): Promise<T> {
+    const { result } = await this.runIsolatedFn<{ result: T }>(
+      `${InjectedScripts.Extractor}.extract`,
+      schema,
+    );
+    return result;
+  }
+
   public async fetch(input: string | number, init?: IRequestInit): Promise<INodePointer> {
     if (!this.navigations.top && !this.url) {
       throw new Error(
@@ -518,6 +558,7 @@ b) Use the UserProfile feature to set cookies for 1 or more domains before they'
 
     let documentNavigation = this.navigations.get(this.lastDomChangeDocumentNavigationId);
     const db = this.session.db;
+    const recordingPolicy = db.recordingPolicy;
 
     const records: ITabEventParams['page-events']['records'] = {
       mouseEvents: [],
@@ -553,31 +594,40 @@ b) Use the UserProfile feature to set cookies for 1 or more domains before they'
         db.frameNavigations.insert(documentNavigation);
       }
 
-      const record = db.domChanges.insert(
-        tabId,
-        frameId,
-        documentNavigation?.id,
-        lastCommand.id,
-        domChange,
+      // dom changes are incremental, so a document is either fully recorded or not at all
+      const documentNavigationId = documentNavigation?.id;
+      const shouldRecord = recordingPolicy.shouldRecord(
+        'domChanges',
+        `${frameId}_${documentNavigationId}`,
       );
+      // unrecorded changes are still emitted to live listeners
+      const record = shouldRecord
+        ? db.domChanges.insert(tabId, frameId, documentNavigationId, lastCommand.id, domChange)
+        : DomChangesTable.toRecord(tabId, frameId, documentNavigationId, lastCommand.id, domChange);
       records.domChanges.push(record);
     }
 
     for (const mouseEvent of mouseEvents) {
       lastCommand = commands.getCommandForTimestamp(lastCommand, mouseEvent[8]);
-      const record = db.mouseEvents.insert(tabId, frameId, lastCommand.id, mouseEvent);
+      const record = recordingPolicy.shouldRecord('mouseEvents')
+        ? db.mouseEvents.insert(tabId, frameId, lastCommand.id, mouseEvent)
+        : MouseEventsTable.toRecord(tabId, frameId, lastCommand.id, mouseEvent);
       records.mouseEvents.push(record);
     }
 
     for (const focusEvent of focusEvents) {
       lastCommand = commands.getCommandForTimestamp(lastCommand, focusEvent[3]);
-      const record = db.focusEvents.insert(tabId, frameId, lastCommand.id, focusEvent);
+      const record = recordingPolicy.shouldRecord('focusEvents')
+        ? db.focusEvents.insert(tabId, frameId, lastCommand.id, focusEvent)
+        : FocusEventsTable.toRecord(tabId, frameId, focusEvent);
       records.focusEvents.push(record);
     }
 
     for (const scrollEvent of scrollEvents) {
       lastCommand = commands.getCommandForTimestamp(lastCommand, scrollEvent[2]);
-      const record = db.scrollEvents.insert(tabId, frameId, lastCommand.id, scrollEvent);
+      const record = recordingPolicy.shouldRecord('scrollEvents')
+        ? db.scrollEvents.insert(tabId, frameId, lastCommand.id, scrollEvent)
+        : ScrollEventsTable.toRecord(tabId, frameId, lastCommand.id, scrollEvent);
       records.scrollEvents.push(record);
     }
     this.tab.emit('page-events', { records, frame: this });
@@ -647,6 +697,20 @@ b) Use the UserProfile feature to set cookies for 1 or more domains before they'
     return Promise.resolve();
   }
 
+  // Checks the deepest part of a path that still resolves. A path is missing its node if that
+  // part is empty, or if nothing resolves and the path starts at a node that's no longer tracked.
+  protected async isNodeMissing(jsPath: IJsPath): Promise<boolean> {
+    for (let length = jsPath.length; length > 0; length -= 1) {
+      try {
+        const visibility = await this.frame.jsPath.getNodeVisibility(jsPath.slice(0, length));
+        return !visibility.nodeExists;
+      } catch (error) {
+        // lookup failed in this part of the path
+      }
+    }
+    return typeof jsPath[0] === 'number';
+  }
+
   protected async runFn<T>(fnName: string, serializedFn: string): Promise<T> {
     const result = await this.frame.evaluate<T>(serializedFn, true);
 
@@ -0,0 +1,323 @@
+import { URL } from 'url';
+import { decompressBuffer } from '@ulixee/commons/lib/bufferUtils';
+import IHttpHeaders from '@ulixee/unblocked-specification/agent/net/IHttpHeaders';
+import IHar, {
+  IHarEntry,
+  IHarExportOptions,
+  IHarNameValue,
+  IHarPage,
+  IHarTimings,
+  IHarWebsocketMessage,
+} from '@ulixee/hero-interfaces/IHar';
+import SessionDb from '../dbs/SessionDb';
+import { IResourcesRecord } from '../models/ResourcesTable';
+import { IResourceStatesRecord } from '../models/ResourceStatesTable';
+import { ISocketRecord } from '../models/SocketsTable';
+import { IFrameNavigationRecord } from '../models/FrameNavigationsTable';
+
+const { version } = require('../package.json');
+
+export default class HarExporter {
+  public static async export(
+    db: SessionDb,
+    options: IHarExportOptions & { includeIntercepted?: boolean } = {},
+  ): Promise<IHar> {
+    const {
+      tabId,
+      includeBodies = false,
+      includeWebsocketMessages = true,
+      includeIntercepted = true,
+    } = options;
+    const session = db.session.get();
+
+    const { pages, navigationsByTabId } = this.createPages(db, tabId);
+
+    const statesByResourceId = new Map<number, IResourceStatesRecord>();
+    for (const state of db.resourceStates.all()) {
+      statesByResourceId.set(state.resourceId, state);
+    }
+    const socketsById = new Map<number, ISocketRecord>();
+    for (const socket of db.sockets.all()) {
+      socketsById.set(socket.id, socket);
+    }
+
+    const seenSocketIds = new Set<number>();
+    const entries: IHarEntry[] = [];
+    for (const resource of db.resources.all()) {
+      if (tabId !== undefined && resource.tabId !== tabId) continue;
+      // resources blocked before they were requested never hit the network
+      if (!resource.requestTimestamp) continue;
+      // intercepted responses were not loaded from the site
+      if (!includeIntercepted && resource.responseIntercepted) continue;
+
+      const socket = socketsById.get(resource.socketId);
+      const isNewSocket = !!socket && !seenSocketIds.has(socket.id);
+      if (socket) seenSocketIds.add(socket.id);
+
+      const entry = this.createEntry(
+        resource,
+        statesByResourceId.get(resource.id),
+        isNewSocket ? socket : null,
+      );
+      entry.pageref = this.findPageRef(navigationsByTabId.get(resource.tabId), resource);
+
+      if (includeBodies) {
+        await this.addBodies(entry, resource);
+      }
+
+      if (includeWebsocketMessages && resource.type === 'Websocket') {
+        entry._webSocketMessages = this.getWebsocketMessages(db, resource.id);
+      }
+      entries.push(entry);
+    }
+    entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: '@ulixee/hero-core', version },
+        browser: session
+          ? { name: session.browserName, version: session.browserFullVersion }
+          : undefined,
+        pages,
+        entries,
+        comment: session ? `Hero session ${session.id}` : undefined,
+      },
+    };
+  }
+
+  private static createPages(
+    db: SessionDb,
+    tabId?: number,
+  ): { pages: IHarPage[]; navigationsByTabId: Map<number, IFrameNavigationRecord[]> } {
+    const mainFrameIds = db.frames.mainFrameIds();
+    const pages: IHarPage[] = [];
+    const navigationsByTabId = new Map<number, IFrameNavigationRecord[]>();
+
+    for (const navigation of db.frameNavigations.all()) {
+      if (!mainFrameIds.has(navigation.frameId)) continue;
+      if (tabId !== undefined && navigation.tabId !== tabId) continue;
+      if (!navigation.initiatedTime) continue;
+
+      if (!navigationsByTabId.has(navigation.tabId)) navigationsByTabId.set(navigation.tabId, []);
+      navigationsByTabId.get(navigation.tabId).push(navigation);
+
+      const start = navigation.initiatedTime;
+      pages.push({
+        id: this.getPageId(navigation),
+        startedDateTime: new Date(start).toISOString(),
+        title: navigation.finalUrl ?? navigation.requestedUrl,
+        pageTimings: {
+          onContentLoad: navigation.domContentLoadedTime
+            ? navigation.domContentLoadedTime - start
+            : -1,
+          onLoad: navigation.loadTime ? navigation.loadTime - start : -1,
+        },
+      });
+    }
+    return { pages, navigationsByTabId };
+  }
+
+  private static findPageRef(
+    navigations: IFrameNavigationRecord[],
+    resource: IResourcesRecord,
+  ): string {
+    if (!navigations?.length) return undefined;
+    let pageRef: string;
+    for (const navigation of navigations) {
+      if (navigation.initiatedTime > resource.requestTimestamp) break;
+      pageRef = this.getPageId(navigation);
+    }
+    return pageRef ?? this.getPageId(navigations[0]);
+  }
+
+  private static getPageId(navigation: IFrameNavigationRecord): string {
+    return `page_${navigation.tabId}_${navigation.id}`;
+  }
+
+  private static createEntry(
+    resource: IResourcesRecord,
+    states: IResourceStatesRecord,
+    newSocket: ISocketRecord,
+  ): IHarEntry {
+    const httpVersion = this.toHttpVersion(resource.protocol);
+    const requestHeaders = this.parseHeaders(resource.requestHeaders);
+    const responseHeaders = this.parseHeaders(resource.responseHeaders);
+    const timings = this.createTimings(resource, states, newSocket);
+
+    let queryString: IHarNameValue[] = [];
+    try {
+      queryString = [...new URL(resource.requestUrl).searchParams].map(([name, value]) => ({
+        name,
+        value,
+      }));
+    } catch {
+      // not a parseable url
+    }
+
+    const entry: IHarEntry = {
+      startedDateTime: new Date(resource.requestTimestamp).toISOString(),
+      time: Object.values(timings).reduce((total, x) => (x > 0 ? total + x : total), 0),
+      request: {
+        method: resource.requestMethod,
+        url: resource.requestUrl,
+        httpVersion,
+        cookies: this.parseCookies(this.getHeader(requestHeaders, 'cookie'), ';'),
+        headers: requestHeaders,
+        queryString,
+        headersSize: -1,
+        bodySize: resource.requestPostData ? Buffer.byteLength(resource.requestPostData) : 0,
+      },
+      response: {
+        status: resource.statusCode ?? 0,
+        statusText: resource.statusMessage ?? '',
+        httpVersion,
+        cookies: this.parseCookies(this.getHeader(responseHeaders, 'set-cookie'), '\n'),
+        headers: responseHeaders,
+        content: {
+          size: resource.responseData?.length ?? 0,
+          mimeType: this.getHeader(responseHeaders, 'content-type') ?? '',
+        },
+        redirectURL: resource.redirectedToUrl ?? '',
+        headersSize: -1,
+        bodySize: resource.responseData?.length ?? -1,
+      },
+      cache: {},
+      timings,
+      serverIPAddress: resource.dnsResolvedIp ?? undefined,
+      connection: resource.socketId ? String(resource.socketId) : undefined,
+      _resourceType: resource.type,
+    };
+
+    const error =
+      resource.httpError ?? resource.browserLoadFailure ?? resource.browserBlockedReason;
+    if (error) entry.response._error = error;
+
+    if (resource.requestPostData) {
+      entry.request.postData = {
+        mimeType: this.getHeader(requestHeaders, 'content-type') ?? '',
+        text: resource.requestPostData,
+      };
+    }
+    return entry;
+  }
+
+  private static createTimings(
+    resource: IResourcesRecord,
+    states: IResourceStatesRecord,
+    newSocket: ISocketRecord,
+  ): IHarTimings {
+    const timings: IHarTimings = {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: 0,
+      receive: 0,
+    };
+
+    // socket setup is only attributed to the first request that used the socket
+    if (newSocket) {
+      const socketStart = this.toTime(newSocket.createTime);
+      const dnsLookupTime = this.toTime(newSocket.dnsLookupTime);
+      const connectTime = this.toTime(newSocket.connectTime);
+      if (socketStart && dnsLookupTime) timings.dns = Math.max(dnsLookupTime - socketStart, 0);
+      if (connectTime) {
+        timings.connect = Math.max(connectTime - (dnsLookupTime || socketStart), 0);
+      }
+    }
+
+    const sendStart = states?.BeforeSendRequest;
+    const sendEnd = states?.WriteProxyToServerRequestBody ?? sendStart;
+    if (sendStart && sendEnd) timings.send = Math.max(sendEnd - sendStart, 0);
+
+    const responseStart = states?.ServerToProxyOnResponse ?? resource.responseTimestamp;
+    if (responseStart) {
+      const waitStart = sendEnd ?? resource.requestTimestamp;
+      timings.wait = Math.max(responseStart - waitStart, 0);
+      const responseEnd = states?.End ?? resource.browserLoadedTimestamp;
+      if (responseEnd) timings.receive = Math.max(responseEnd - responseStart, 0);
+    }
+    return timings;
+  }
+
+  private static async addBodies(entry: IHarEntry, resource: IResourcesRecord): Promise<void> {
+    if (!resource.responseData?.length) return;
+
+    const body = await decompressBuffer(resource.responseData, resource.responseEncoding);
+    entry.response.content.size = body.length;
+    if (this.isTextMimeType(entry.response.content.mimeType)) {
+      entry.response.content.text = body.toString();
+    } else {
+      entry.response.content.text = body.toString('base64');
+      entry.response.content.encoding = 'base64';
+    }
+  }
+
+  private static getWebsocketMessages(db: SessionDb, resourceId: number): IHarWebsocketMessage[] {
+    return db.websocketMessages.getMessages(resourceId).map(message => {
+      const isBinary = !!message.isBinary;
+      return {
+        type: message.isFromServer ? 'receive' : 'send',
+        time: message.timestamp / 1000,
+        opcode: isBinary ? 2 : 1,
+        data: isBinary ? message.message.toString('base64') : message.message.toString(),
+      };
+    });
+  }
+
+  private static parseHeaders(headersJson: string): IHarNameValue[] {
+    if (!headersJson) return [];
+    const headers: IHttpHeaders = JSON.parse(headersJson);
+    const result: IHarNameValue[] = [];
+    for (const [name, value] of Object.entries(headers)) {
+      if (Array.isArray(value)) {
+        for (const entry of value) result.push({ name, value: String(entry) });
+      } else if (value !== undefined && value !== null) {
+        result.push({ name, value: String(value) });
+      }
+    }
+    return result;
+  }
+
+  private static getHeader(headers: IHarNameValue[], name: string): string {
+    const values = headers.filter(x => x.name.toLowerCase() === name).map(x => x.value);
+    if (!values.length) return undefined;
+    return values.join(name === 'cookie' ? '; ' : '\n');
+  }
+
+  private static parseCookies(header: string, separator: string): IHarNameValue[] {
+    if (!header) return [];
+    const cookies: IHarNameValue[] = [];
+    for (const cookie of header.split(separator)) {
+      // only the name=value pair is exported, attributes follow the first semicolon
+      const [pair] = separator === ';' ? [cookie] : cookie.split(';');
+      const index = pair.indexOf('=');
+      if (index === -1) continue;
+      cookies.push({ name: pair.slice(0, index).trim(), value: pair.slice(index + 1).trim() });
+    }
+    return cookies;
+  }
+
+  private static toTime(date: Date | number): number {
+    // socket times are stored as unix millis, but typed as dates for live records
+    if (!date) return null;
+    return new Date(date).getTime();
+  }
+
+  private static toHttpVersion(protocol: string): string {
+    if (!protocol) return 'HTTP/1.1';
+    if (protocol === 'h2' || protocol === 'http2') return 'HTTP/2.0';
+    if (protocol.startsWith('http/')) return protocol.toUpperCase();
+    return protocol;
+  }
+
+  private static isTextMimeType(mimeType: string): boolean {
+    if (!mimeType) return false;
+    return (
+      mimeType.startsWith('text/') ||
+      /json|javascript|xml|html|css|svg|x-www-form-urlencoded/.test(mimeType)
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { parentPort, Worker, workerData } from 'worker_threads';
+import Resolvable from '@ulixee/commons/lib/Resolvable';
+import PngImage from './PngImage';
+import JpegImage from './JpegImage';
+
+/**
+ * Decodes and diffs screenshots in a worker thread so comparing large images doesn't block the
+ * event loop of Core.
+ */
+export default class ImageDiffer {
+  private readonly worker: Worker;
+  private readonly pendingById = new Map<number, Resolvable<IImageDiff>>();
+  private lastId = 0;
+
+  constructor() {
+    this.worker = new Worker(__filename, { workerData: { isImageDiffer: true } });
+    this.worker.on('message', this.onMessage.bind(this));
+    this.worker.on('error', this.onError.bind(this));
+  }
+
+  public diff(imageA: Buffer, imageB: Buffer, options: IImageDiffOptions): Promise<IImageDiff> {
+    this.lastId += 1;
+    const pending = new Resolvable<IImageDiff>();
+    this.pendingById.set(this.lastId, pending);
+    this.worker.postMessage({ id: this.lastId, imageA, imageB, options });
+    return pending.promise;
+  }
+
+  public async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private onMessage(message: { id: number; result: IImageDiff }): void {
+    const pending = this.pendingById.get(message.id);
+    this.pendingById.delete(message.id);
+    const { result } = message;
+    // buffers arrive from the worker as plain Uint8Arrays
+    if (result.diffImage) result.diffImage = Buffer.from(result.diffImage);
+    pending?.resolve(result);
+  }
+
+  private onError(error: Error): void {
+    for (const pending of this.pendingById.values()) pending.reject(error);
+    this.pendingById.clear();
+  }
+
+  public static decode(image: Buffer): PngImage {
+    if (PngImage.isPng(image)) return PngImage.decode(image);
+    if (JpegImage.isJpeg(image)) return JpegImage.decode(image);
+    throw new Error('The image is not a png or jpeg');
+  }
+
+  public static diff(imageA: Buffer, imageB: Buffer, options: IImageDiffOptions): IImageDiff {
+    let pngA: PngImage;
+    let pngB: PngImage;
+    try {
+      pngA = this.decode(imageA);
+      pngB = this.decode(imageB);
+    } catch (error) {
+      // eg, progressive jpegs or 16-bit pngs
+      return { unsupportedReason: error.message };
+    }
+
+    const width = Math.max(pngA.width, pngB.width);
+    const height = Math.max(pngA.height, pngB.height);
+    const diffImage = PngImage.create(width, height);
+    const maxChannelDelta = options.threshold * 255;
+
+    let diffPixels = 0;
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const offset = (y * width + x) * 4;
+        const offsetA = (y * pngA.width + x) * 4;
+        const offsetB = (y * pngB.width + x) * 4;
+        const isInA = x < pngA.width && y < pngA.height;
+        const isInB = x < pngB.width && y < pngB.height;
+
+        // pixels outside of either image count as changed
+        let isChanged = !isInA || !isInB;
+        for (let channel = 0; channel < 4 && !isChanged; channel += 1) {
+          const delta = Math.abs(pngA.data[offsetA + channel] - pngB.data[offsetB + channel]);
+          if (delta > maxChannelDelta) isChanged = true;
+        }
+
+        if (isChanged) {
+          diffPixels += 1;
+          diffImage.data.writeUInt32BE(0xff0000ff, offset);
+          continue;
+        }
+
+        // draw unchanged pixels as a faded grayscale copy so the changes stand out
+        const data = pngA.data;
+        const gray = 0.299 * data[offsetA] + 0.587 * data[offsetA + 1] + 0.114 * data[offsetA + 2];
+        const faded = Math.round(255 - (255 - gray) * 0.1);
+        diffImage.data.fill(faded, offset, offset + 3);
+        diffImage.data[offset + 3] = 255;
+      }
+    }
+
+    return {
+      sizeA: { width: pngA.width, height: pngA.height },
+      sizeB: { width: pngB.width, height: pngB.height },
+      diffPixels,
+      diffPercent: (100 * diffPixels) / (width * height),
+      diffImage: diffPixels > 0 && options.includeDiffImage ? diffImage.toBuffer() : undefined,
+    };
+  }
+}
+
+if (workerData?.isImageDiffer) {
+  parentPort.on('message', ({ id, imageA, imageB, options }) => {
+    const result = ImageDiffer.diff(Buffer.from(imageA), Buffer.from(imageB), options);
+    parentPort.postMessage({ id, result });
+  });
+}
+
+export interface IImageDiffOptions {
+  // color difference (0-1) a pixel channel can have before the pixel is considered changed
+  threshold: number;
+  includeDiffImage: boolean;
+}
+
+export interface IImageDiff {
+  // set if either image can't be decoded
+  unsupportedReason?: string;
+  sizeA?: { width: number; height: number };
+  sizeB?: { width: number; height: number };
+  diffPixels?: number;
+  diffPercent?: number;
+  diffImage?: Buffer;
+}
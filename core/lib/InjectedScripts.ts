@@ -8,6 +8,9 @@ const pageScripts = {
   interactReplayer: fs.readFileSync(`${__dirname}/../injected-scripts/interactReplayer.js`, 'utf8'),
   DomAssertions: fs.readFileSync(`${__dirname}/../injected-scripts/DomAssertions.js`, 'utf8'),
   Fetcher: fs.readFileSync(`${__dirname}/../injected-scripts/Fetcher.js`, 'utf8'),
+  Extractor: fs.readFileSync(`${__dirname}/../injected-scripts/Extractor.js`, 'utf8'),
+  ScreenshotMasker: fs.readFileSync(`${__dirname}/../injected-scripts/ScreenshotMasker.js`, 'utf8'),
+  SuperSelectors: fs.readFileSync(`${__dirname}/../injected-scripts/SuperSelectors.js`, 'utf8'),
   pageEventsRecorder: fs.readFileSync(
     `${__dirname}/../injected-scripts/pageEventsRecorder.js`,
     'utf8',
@@ -24,16 +27,24 @@ const exports = {}; // workaround for ts adding an exports variable
 
 ${pageScripts.Fetcher};
 ${pageScripts.DomAssertions};
+${pageScripts.SuperSelectors};
+${pageScripts.Extractor};
+${pageScripts.ScreenshotMasker};
 
 window.HERO = {
   Fetcher,
   DomAssertions,
+  SuperSelectors,
+  Extractor,
+  ScreenshotMasker,
 };
 `;
 
 const injectedScript = `(function installInjectedScripts() {
 ${heroIncludes}
 
+SuperSelectors.installInJsPath(window.ULX?.JsPath);
+
 (function installDomRecorder(runtimeFunction) {
    ${pageScripts.pageEventsRecorder}
 })('${pageEventsCallbackName}');
@@ -63,6 +74,8 @@ export const CorePageInjectedScript = heroIncludes;
 
 export default class InjectedScripts {
   public static Fetcher = `HERO.Fetcher`;
+  public static Extractor = `HERO.Extractor`;
+  public static ScreenshotMasker = `HERO.ScreenshotMasker`;
   public static PageEventsCallbackName = pageEventsCallbackName;
   public static ShadowDomPiercerScript = pageScripts.shadowDomPiercer;
 
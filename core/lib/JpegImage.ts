@@ -0,0 +1,435 @@
+import PngImage from './PngImage';
+
+// natural (row-major) index of each coefficient in the order they are stored
+const zigZag = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20,
+  13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52,
+  45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// cosine factors of the inverse dct, indexed by [position * 8 + frequency]
+const idctTable = new Float64Array(64);
+for (let x = 0; x < 8; x += 1) {
+  for (let u = 0; u < 8; u += 1) {
+    const scale = u === 0 ? Math.SQRT1_2 : 1;
+    idctTable[x * 8 + u] = (scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16)) / 2;
+  }
+}
+
+/**
+ * Minimal decoder for baseline jpegs (the format Chrome produces for screenshots and screencasts).
+ * Images are decoded to rgba pixels in a PngImage so they can be compared with or written as pngs.
+ */
+export default class JpegImage {
+  public static isJpeg(buffer: Buffer): boolean {
+    return buffer?.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+  }
+
+  public static decode(buffer: Buffer): PngImage {
+    if (!this.isJpeg(buffer)) throw new Error('The image is not a jpeg');
+
+    const quantizationTables: Int32Array[] = [];
+    const dcTables: IHuffmanTable[] = [];
+    const acTables: IHuffmanTable[] = [];
+    let frame: IFrame;
+    let restartInterval = 0;
+    let isRgb = false;
+
+    let offset = 2;
+    while (offset < buffer.length) {
+      if (buffer[offset] !== 0xff) throw new Error('Invalid jpeg marker');
+      const marker = buffer[offset + 1];
+      offset += 2;
+      // padding bytes before a marker
+      if (marker === 0xff) {
+        offset -= 1;
+        continue;
+      }
+      if (marker === 0xd9) break;
+
+      const length = buffer.readUInt16BE(offset);
+      const data = buffer.subarray(offset + 2, offset + length);
+      offset += length;
+
+      if (marker === 0xdb) {
+        readQuantizationTables(data, quantizationTables);
+      } else if (marker === 0xc4) {
+        readHuffmanTables(data, dcTables, acTables);
+      } else if (marker === 0xdd) {
+        restartInterval = data.readUInt16BE(0);
+      } else if (marker === 0xee) {
+        // adobe images without a color transform are stored as rgb
+        if (data.toString('ascii', 0, 5) === 'Adobe') isRgb = data[11] === 0;
+      } else if (marker === 0xc0 || marker === 0xc1) {
+        frame = readFrame(data);
+      } else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xcc) {
+        throw new Error(`Unsupported jpeg (frame type 0x${marker.toString(16)} is not baseline)`);
+      } else if (marker === 0xda) {
+        if (!frame) throw new Error('Invalid jpeg, found a scan before the frame header');
+        offset = decodeScan(buffer, offset, data, frame, {
+          quantizationTables,
+          dcTables,
+          acTables,
+          restartInterval,
+        });
+      }
+    }
+    if (!frame) throw new Error('Invalid jpeg, no frame header found');
+
+    return toRgba(frame, isRgb);
+  }
+}
+
+function readQuantizationTables(data: Buffer, tables: Int32Array[]): void {
+  let offset = 0;
+  while (offset < data.length) {
+    const precision = data[offset] >> 4;
+    const id = data[offset] & 15;
+    offset += 1;
+    const table = new Int32Array(64);
+    for (let i = 0; i < 64; i += 1) {
+      table[i] = precision ? data.readUInt16BE(offset + i * 2) : data[offset + i];
+    }
+    offset += precision ? 128 : 64;
+    tables[id] = table;
+  }
+}
+
+function readHuffmanTables(
+  data: Buffer,
+  dcTables: IHuffmanTable[],
+  acTables: IHuffmanTable[],
+): void {
+  let offset = 0;
+  while (offset < data.length) {
+    const tableClass = data[offset] >> 4;
+    const id = data[offset] & 15;
+    const counts = data.subarray(offset + 1, offset + 17);
+    offset += 17;
+
+    const table: IHuffmanTable = {
+      maxCode: new Int32Array(18).fill(-1),
+      valueOffset: new Int32Array(17),
+      values: null,
+    };
+    let totalValues = 0;
+    let code = 0;
+    for (let length = 1; length <= 16; length += 1) {
+      const count = counts[length - 1];
+      // index of the first value of this length, minus the first code of this length
+      table.valueOffset[length] = totalValues - code;
+      code += count;
+      totalValues += count;
+      if (count) table.maxCode[length] = code - 1;
+      code <<= 1;
+    }
+    // a sentinel so decoding always stops
+    table.maxCode[17] = 0x7fffffff;
+    table.values = data.subarray(offset, offset + totalValues);
+    offset += totalValues;
+
+    if (tableClass === 0) dcTables[id] = table;
+    else acTables[id] = table;
+  }
+}
+
+function readFrame(data: Buffer): IFrame {
+  if (data[0] !== 8) throw new Error(`Unsupported jpeg (${data[0]}-bit samples)`);
+  const height = data.readUInt16BE(1);
+  const width = data.readUInt16BE(3);
+  if (!width || !height) throw new Error('Unsupported jpeg (no image size in the frame header)');
+
+  const components: IComponent[] = [];
+  for (let i = 0; i < data[5]; i += 1) {
+    const offset = 6 + i * 3;
+    components.push({
+      id: data[offset],
+      h: data[offset + 1] >> 4,
+      v: data[offset + 1] & 15,
+      quantizationTableId: data[offset + 2],
+      predictor: 0,
+    });
+  }
+  if (components.length !== 1 && components.length !== 3) {
+    throw new Error(`Unsupported jpeg (${components.length} color components)`);
+  }
+
+  const maxH = Math.max(...components.map(x => x.h));
+  const maxV = Math.max(...components.map(x => x.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+  for (const component of components) {
+    component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+    component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+    // samples are allocated for whole mcus so interleaved scans can write the padding blocks
+    component.lineLength = mcusPerLine * component.h * 8;
+    component.samples = new Uint8Array(component.lineLength * mcusPerColumn * component.v * 8);
+  }
+  return { width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+}
+
+function decodeScan(
+  buffer: Buffer,
+  offset: number,
+  header: Buffer,
+  frame: IFrame,
+  tables: {
+    quantizationTables: Int32Array[];
+    dcTables: IHuffmanTable[];
+    acTables: IHuffmanTable[];
+    restartInterval: number;
+  },
+): number {
+  const scanComponents: IComponent[] = [];
+  for (let i = 0; i < header[0]; i += 1) {
+    const id = header[1 + i * 2];
+    const tableIds = header[2 + i * 2];
+    const component = frame.components.find(x => x.id === id);
+    if (!component) throw new Error(`Invalid jpeg, scan of unknown component ${id}`);
+    component.dcTable = tables.dcTables[tableIds >> 4];
+    component.acTable = tables.acTables[tableIds & 15];
+    component.quantizationTable = tables.quantizationTables[component.quantizationTableId];
+    component.predictor = 0;
+    scanComponents.push(component);
+  }
+
+  const reader = new BitReader(buffer, offset);
+  const coefficients = new Float64Array(64);
+  const isInterleaved = scanComponents.length > 1;
+  const totalMcus = isInterleaved
+    ? frame.mcusPerLine * frame.mcusPerColumn
+    : scanComponents[0].blocksPerLine * scanComponents[0].blocksPerColumn;
+
+  for (let mcu = 0; mcu < totalMcus; mcu += 1) {
+    if (tables.restartInterval && mcu > 0 && mcu % tables.restartInterval === 0) {
+      reader.restart();
+      for (const component of scanComponents) component.predictor = 0;
+    }
+
+    if (!isInterleaved) {
+      const component = scanComponents[0];
+      const blockRow = Math.floor(mcu / component.blocksPerLine);
+      const blockColumn = mcu % component.blocksPerLine;
+      decodeBlock(reader, component, coefficients, blockRow, blockColumn);
+      continue;
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+    const mcuColumn = mcu % frame.mcusPerLine;
+    for (const component of scanComponents) {
+      for (let v = 0; v < component.v; v += 1) {
+        for (let h = 0; h < component.h; h += 1) {
+          const blockRow = mcuRow * component.v + v;
+          const blockColumn = mcuColumn * component.h + h;
+          decodeBlock(reader, component, coefficients, blockRow, blockColumn);
+        }
+      }
+    }
+  }
+  return reader.endOfScan();
+}
+
+function decodeBlock(
+  reader: BitReader,
+  component: IComponent,
+  coefficients: Float64Array,
+  blockRow: number,
+  blockColumn: number,
+): void {
+  const quantization = component.quantizationTable;
+  coefficients.fill(0);
+
+  const dcSize = reader.decodeHuffman(component.dcTable);
+  component.predictor += dcSize ? reader.receiveExtended(dcSize) : 0;
+  coefficients[0] = component.predictor * quantization[0];
+
+  for (let k = 1; k < 64; ) {
+    const value = reader.decodeHuffman(component.acTable);
+    const size = value & 15;
+    const zeros = value >> 4;
+    if (!size) {
+      // 0xf0 skips 16 zeros, anything else ends the block
+      if (zeros !== 15) break;
+      k += 16;
+      continue;
+    }
+    k += zeros;
+    if (k > 63) break;
+    coefficients[zigZag[k]] = reader.receiveExtended(size) * quantization[k];
+    k += 1;
+  }
+
+  // separable inverse dct: rows, then columns
+  const rows = new Float64Array(64);
+  for (let y = 0; y < 8; y += 1) {
+    for (let x = 0; x < 8; x += 1) {
+      let sum = 0;
+      for (let u = 0; u < 8; u += 1) sum += idctTable[x * 8 + u] * coefficients[y * 8 + u];
+      rows[y * 8 + x] = sum;
+    }
+  }
+  const lineLength = component.lineLength;
+  const start = blockRow * 8 * lineLength + blockColumn * 8;
+  for (let x = 0; x < 8; x += 1) {
+    for (let y = 0; y < 8; y += 1) {
+      let sum = 0;
+      for (let v = 0; v < 8; v += 1) sum += idctTable[y * 8 + v] * rows[v * 8 + x];
+      component.samples[start + y * lineLength + x] = clamp(Math.round(sum + 128));
+    }
+  }
+}
+
+function toRgba(frame: IFrame, isRgb: boolean): PngImage {
+  const { width, height, maxH, maxV, components } = frame;
+  const image = PngImage.create(width, height);
+  const samples = new Int32Array(components.length);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      for (let i = 0; i < components.length; i += 1) {
+        const component = components[i];
+        const sampleY = Math.floor((y * component.v) / maxV);
+        const sampleX = Math.floor((x * component.h) / maxH);
+        samples[i] = component.samples[sampleY * component.lineLength + sampleX];
+      }
+
+      const offset = (y * width + x) * 4;
+      if (components.length === 1) {
+        image.data.fill(samples[0], offset, offset + 3);
+      } else if (isRgb) {
+        image.data.set(samples, offset);
+      } else {
+        const [luma, blue, red] = samples;
+        image.data[offset] = clamp(Math.round(luma + 1.402 * (red - 128)));
+        image.data[offset + 1] = clamp(
+          Math.round(luma - 0.344136 * (blue - 128) - 0.714136 * (red - 128)),
+        );
+        image.data[offset + 2] = clamp(Math.round(luma + 1.772 * (blue - 128)));
+      }
+      image.data[offset + 3] = 255;
+    }
+  }
+  return image;
+}
+
+function clamp(value: number): number {
+  if (value < 0) return 0;
+  if (value > 255) return 255;
+  return value;
+}
+
+class BitReader {
+  private bits = 0;
+  private bitCount = 0;
+  private hasMarker = false;
+
+  constructor(private readonly buffer: Buffer, private offset: number) {}
+
+  public decodeHuffman(table: IHuffmanTable): number {
+    if (!table) throw new Error('Invalid jpeg, missing huffman table');
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length += 1;
+    }
+    if (length > 16) throw new Error('Invalid jpeg huffman code');
+    return table.values[table.valueOffset[length] + code];
+  }
+
+  public receiveExtended(size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i += 1) value = (value << 1) | this.readBit();
+    // values with a leading 0 bit are negative
+    if (value < 1 << (size - 1)) value += (-1 << size) + 1;
+    return value;
+  }
+
+  public restart(): void {
+    this.bits = 0;
+    this.bitCount = 0;
+    this.hasMarker = false;
+    this.skipToMarker();
+    const marker = this.buffer[this.offset + 1];
+    if (marker >= 0xd0 && marker <= 0xd7) this.offset += 2;
+  }
+
+  // returns the offset of the marker that ends the scan
+  public endOfScan(): number {
+    this.skipToMarker();
+    return this.offset;
+  }
+
+  private readBit(): number {
+    if (!this.bitCount) this.readByte();
+    this.bitCount -= 1;
+    return (this.bits >> this.bitCount) & 1;
+  }
+
+  private readByte(): void {
+    this.bitCount = 8;
+    // a truncated scan or a marker in the middle of a block is filled with zeros
+    if (this.hasMarker || this.offset >= this.buffer.length) {
+      this.bits = 0;
+      return;
+    }
+    const byte = this.buffer[this.offset];
+    if (byte === 0xff) {
+      const next = this.buffer[this.offset + 1];
+      if (next !== 0x00) {
+        this.hasMarker = true;
+        this.bits = 0;
+        return;
+      }
+      // a stuffed zero byte follows every 0xff of the data
+      this.offset += 1;
+    }
+    this.offset += 1;
+    this.bits = byte;
+  }
+
+  private skipToMarker(): void {
+    while (this.offset < this.buffer.length) {
+      if (this.buffer[this.offset] === 0xff) {
+        const next = this.buffer[this.offset + 1];
+        if (next !== 0x00 && next !== 0xff) return;
+        if (next === 0xff) {
+          this.offset += 1;
+          continue;
+        }
+      }
+      this.offset += this.buffer[this.offset] === 0xff ? 2 : 1;
+    }
+  }
+}
+
+interface IHuffmanTable {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Buffer;
+}
+
+interface IComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantizationTableId: number;
+  quantizationTable?: Int32Array;
+  dcTable?: IHuffmanTable;
+  acTable?: IHuffmanTable;
+  predictor: number;
+  blocksPerLine?: number;
+  blocksPerColumn?: number;
+  lineLength?: number;
+  samples?: Uint8Array;
+}
+
+interface IFrame {
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: IComponent[];
+}
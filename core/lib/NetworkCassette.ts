@@ -0,0 +1,158 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import Log from '@ulixee/commons/lib/Logger';
+import Queue from '@ulixee/commons/lib/Queue';
+import INetworkCassetteOptions from '@ulixee/hero-interfaces/INetworkCassetteOptions';
+import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
+import IHar, { IHarEntry } from '@ulixee/hero-interfaces/IHar';
+import SessionDb from '../dbs/SessionDb';
+import NetworkFixture from './NetworkFixture';
+import NetworkRequestMatcher from './NetworkRequestMatcher';
+import HarExporter from './HarExporter';
+import Core from '../index';
+
+const { log } = Log(module);
+
+export default class NetworkCassette {
+  public static get cassettesDir(): string {
+    return `${Core.dataDir}/cassettes`;
+  }
+
+  // sessions that share a cassette save one at a time
+  private static saveQueuesByPath = new Map<string, Queue>();
+
+  public fixture: NetworkFixture;
+
+  public get shouldRecord(): boolean {
+    const { record } = this.options;
+    if (record === 'new_episodes') return true;
+    if (record === 'once') return !this.har;
+    return false;
+  }
+
+  private readonly matcher: NetworkRequestMatcher;
+
+  constructor(
+    readonly sessionId: string,
+    readonly path: string,
+    readonly options: INetworkCassetteOptions,
+    private har?: IHar,
+  ) {
+    this.options.record ??= 'once';
+    this.matcher = new NetworkRequestMatcher(options.matchRequestsOn, options.ignoreQueryParams);
+
+    if (har) {
+      // new episodes are loaded from the network and appended when the session closes
+      const unmatched = this.options.record === 'new_episodes' ? 'passThrough' : 'fail';
+      this.fixture = NetworkFixture.createFromHar(sessionId, har, unmatched, this.matcher);
+    } else if (this.options.record === 'none') {
+      throw new Error(
+        `The networkCassette "${options.name}" does not exist at ${path} and record is set to "none".`,
+      );
+    }
+  }
+
+  public async save(db: SessionDb): Promise<void> {
+    if (!this.shouldRecord) return;
+
+    db.flush();
+    // responses served by the cassette are left out, requests it let through were loaded by the mitm
+    const sessionHar = await HarExporter.export(db, {
+      includeBodies: true,
+      includeIntercepted: false,
+    });
+
+    const { saveQueuesByPath } = NetworkCassette;
+    let queue = saveQueuesByPath.get(this.path);
+    if (!queue) {
+      queue = new Queue('NETWORK CASSETTE SAVE', 1);
+      saveQueuesByPath.set(this.path, queue);
+    }
+    try {
+      await queue.run(() => this.write(sessionHar.log));
+    } finally {
+      if (!queue.isActive) saveQueuesByPath.delete(this.path);
+    }
+  }
+
+  private async write(sessionLog: IHar['log']): Promise<void> {
+    // another session might have saved this cassette since it was loaded
+    let har = this.har;
+    try {
+      har = JSON.parse(await Fs.promises.readFile(this.path, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    const entries = [...(har?.log.entries ?? [])];
+    const existingKeys = new Set(entries.map(x => this.getEntryKey(x)));
+    let newEpisodes = 0;
+    for (const entry of sessionLog.entries) {
+      // only successful responses can be replayed
+      if (!entry.response.status || entry.response._error) continue;
+      const key = this.getEntryKey(entry);
+      if (existingKeys.has(key)) continue;
+
+      existingKeys.add(key);
+      entries.push(entry);
+      newEpisodes += 1;
+    }
+    if (har && !newEpisodes) return;
+
+    this.har = { log: { ...sessionLog, entries } };
+    await Fs.promises.mkdir(Path.dirname(this.path), { recursive: true });
+    await Fs.promises.writeFile(this.path, JSON.stringify(this.har));
+    log.info('NetworkCassette.saved', {
+      sessionId: this.sessionId,
+      path: this.path,
+      newEpisodes,
+    });
+  }
+
+  private getEntryKey(entry: IHarEntry): string {
+    const { method, url, postData } = entry.request;
+    const key = this.matcher.getKey(method, url, postData?.text);
+    return `${key.method}_${key.url}`;
+  }
+
+  public static async load(
+    sessionId: string,
+    options: Pick<ISessionCreateOptions, 'networkCassette' | 'scriptInstanceMeta'>,
+    isInProcessClient = false,
+  ): Promise<NetworkCassette> {
+    const cassette = { ...options.networkCassette };
+    if (!cassette.name) throw new Error('A networkCassette needs a name.');
+
+    let path: string;
+    if (cassette.name.endsWith('.har')) {
+      // a remote client could otherwise read and overwrite any har file on this machine
+      if (!isInProcessClient) {
+        throw new Error(
+          `The networkCassette "${cassette.name}" is a file path, which can only be used by a client running in the same process as Core. Use a name instead.`,
+        );
+      }
+      path = Path.resolve(
+        options.scriptInstanceMeta?.workingDirectory ?? process.cwd(),
+        cassette.name,
+      );
+    } else {
+      path = Path.resolve(this.cassettesDir, `${cassette.name}.har`);
+      if (
+        /[/\\]|\.\./.test(cassette.name) ||
+        Path.dirname(path) !== Path.resolve(this.cassettesDir)
+      ) {
+        throw new Error(
+          `The networkCassette name "${cassette.name}" can't contain path separators or "..".`,
+        );
+      }
+    }
+
+    let har: IHar;
+    try {
+      har = JSON.parse(await Fs.promises.readFile(path, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    return new NetworkCassette(sessionId, path, cassette, har);
+  }
+}
@@ -0,0 +1,226 @@
+import * as Fs from 'fs';
+import * as Path from 'path';
+import * as http from 'http';
+import * as http2 from 'http2';
+import { URL } from 'url';
+import Log from '@ulixee/commons/lib/Logger';
+import IResourceType from '@ulixee/unblocked-specification/agent/net/IResourceType';
+import MirrorNetwork from '@ulixee/hero-timetravel/lib/MirrorNetwork';
+import RequestSession, {
+  IRequestSessionRequestEvent,
+  IResourceStateChangeEvent,
+} from '@ulixee/unblocked-agent-mitm/handlers/RequestSession';
+import ResourceState from '@ulixee/unblocked-agent-mitm/interfaces/ResourceState';
+import ISessionCreateOptions from '@ulixee/hero-interfaces/ISessionCreateOptions';
+import IHar from '@ulixee/hero-interfaces/IHar';
+import SessionDb from '../dbs/SessionDb';
+import NetworkRequestMatcher from './NetworkRequestMatcher';
+
+const { log } = Log(module);
+
+// serve scripts and all headers, unlike the timetravel mirror page
+const mirrorOptions = { headersFilter: [], ignoreJavascriptRequests: false };
+
+// these headers describe the original transfer, not the body we write back
+const skipResponseHeaders = new Set([
+  'content-length',
+  'content-encoding',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+]);
+
+export default class NetworkFixture {
+  private readonly unmatched: ISessionCreateOptions['networkFixtureUnmatched'];
+  private readonly urlPatterns: string[];
+  // method and url of the fixture responses (without a body hash)
+  private readonly requestKeys = new Set<string>();
+  private readonly interceptor: RequestSession['interceptorHandlers'][0];
+
+  constructor(
+    readonly sessionId: string,
+    readonly mirrorNetwork: MirrorNetwork,
+    fixtureUrls: Iterable<string>,
+    unmatched: ISessionCreateOptions['networkFixtureUnmatched'] = 'fail',
+    readonly matcher = new NetworkRequestMatcher(),
+  ) {
+    this.unmatched = unmatched;
+    const urlPatterns = new Set<string>();
+    for (const url of fixtureUrls) urlPatterns.add(matcher.getUrlPattern(url));
+    this.urlPatterns = [...urlPatterns];
+    for (const key of Object.keys(mirrorNetwork.resourceLookup)) {
+      this.requestKeys.add(key.split('#body=').shift());
+    }
+    this.interceptor = {
+      // "fail" needs to see every request (including websockets), the other modes only need fixture urls
+      urls: this.unmatched === 'fail' ? [NetworkRequestMatcher.anyUrlPattern] : this.urlPatterns,
+      handlerFn: this.handleRequest.bind(this),
+    };
+  }
+
+  public install(requestSession: RequestSession): void {
+    requestSession.interceptorHandlers.unshift(this.interceptor);
+    if (this.unmatched !== 'fail') {
+      requestSession.on('resource-state', this.onResourceState.bind(this));
+    }
+    if (this.unmatched === 'log') {
+      requestSession.on('request', this.onRequest.bind(this));
+    }
+  }
+
+  public close(): void {
+    this.mirrorNetwork.close();
+  }
+
+  private async handleRequest(
+    url: URL,
+    type: IResourceType,
+    request: http.IncomingMessage | http2.Http2ServerRequest,
+    response: http.ServerResponse | http2.Http2ServerResponse,
+  ): Promise<boolean> {
+    let requestBody: Buffer;
+    if (this.matcher.needsBody) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of request) chunks.push(chunk);
+      requestBody = Buffer.concat(chunks);
+    }
+    const key = this.matcher.getKey(request.method, url.href, requestBody);
+    const resource = await this.mirrorNetwork.findResource(key.method, key.url);
+    if (!resource) {
+      // the other modes leave unmatched requests to the mitm (see onResourceState)
+      log.warn('NetworkFixture.UnmatchedRequest', {
+        sessionId: this.sessionId,
+        method: request.method,
+        url: url.href,
+        type,
+      });
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end(
+        `No response was found in the network fixture for ${request.method} ${url.href}`,
+      );
+      return true;
+    }
+
+    const { statusCode, headers, body } = await this.mirrorNetwork.getResponse(resource.id);
+    const responseHeaders: http.OutgoingHttpHeaders = {};
+    for (const { name, value } of headers) {
+      const headerName = name.toLowerCase();
+      if (headerName.startsWith(':') || skipResponseHeaders.has(headerName)) continue;
+      const existing = responseHeaders[headerName];
+      if (existing === undefined) {
+        responseHeaders[headerName] = value;
+      } else {
+        const values = Array.isArray(existing) ? existing : [String(existing)];
+        responseHeaders[headerName] = [...values, value];
+      }
+    }
+    response.writeHead(statusCode, responseHeaders);
+    response.end(body ?? '');
+    return true;
+  }
+
+  private onResourceState(event: IResourceStateChangeEvent): void {
+    if (event.state !== ResourceState.InterceptHandler) return;
+    const { method, url } = event.context;
+    // request bodies are only read once the mitm has picked an interceptor, so requests that can
+    // have one are left to the mitm when matching on bodies
+    const canHaveBody = method !== 'GET' && method !== 'HEAD';
+    if (!(this.matcher.needsBody && canHaveBody) && this.hasResponse(method, url.href)) return;
+    if (!this.urlPatterns.some(x => url.href.match(x))) return;
+
+    // The mitm checks the interceptors (by url only) right after this state change. Leave this
+    // request to the mitm by excluding its url until then.
+    this.interceptor.urls = this.urlPatterns.map(x =>
+      NetworkRequestMatcher.excludeUrl(x, url.href),
+    );
+    process.nextTick(() => {
+      this.interceptor.urls = this.urlPatterns;
+    });
+  }
+
+  private onRequest(event: IRequestSessionRequestEvent): void {
+    const url = event.url.href;
+    // fixture responses are served by the interceptor
+    if (this.hasResponse(event.request.method, url)) return;
+
+    log.warn('NetworkFixture.UnmatchedRequest', {
+      sessionId: this.sessionId,
+      method: event.request.method,
+      url,
+    });
+  }
+
+  private hasResponse(method: string, url: string): boolean {
+    const key = this.matcher.getKey(method, url);
+    return this.requestKeys.has(`${key.method}_${key.url.split('#body=').shift()}`);
+  }
+
+  public static async load(
+    sessionId: string,
+    options: Pick<
+      ISessionCreateOptions,
+      'networkFixture' | 'networkFixtureUnmatched' | 'scriptInstanceMeta'
+    >,
+    isInProcessClient = false,
+  ): Promise<NetworkFixture> {
+    const { networkFixture, networkFixtureUnmatched } = options;
+
+    if (networkFixture.endsWith('.har')) {
+      if (!isInProcessClient) {
+        throw new Error(
+          `The networkFixture "${networkFixture}" is a file path, which can only be used by a client running in the same process as Core. Use the sessionId of a recorded session instead.`,
+        );
+      }
+      const path = Path.resolve(
+        options.scriptInstanceMeta?.workingDirectory ?? process.cwd(),
+        networkFixture,
+      );
+      const har: IHar = JSON.parse(await Fs.promises.readFile(path, 'utf8'));
+      if (!har?.log?.entries) {
+        throw new Error(`The networkFixture at ${path} is not a valid HAR file.`);
+      }
+      return NetworkFixture.createFromHar(sessionId, har, networkFixtureUnmatched);
+    }
+
+    if (/[/\\]|\.\./.test(networkFixture)) {
+      throw new Error(`The networkFixture "${networkFixture}" is not a valid sessionId.`);
+    }
+    let db: SessionDb;
+    try {
+      db = SessionDb.getCached(networkFixture, true);
+    } catch (error) {
+      throw new Error(
+        `The networkFixture "${networkFixture}" is not a HAR file or a recorded sessionId.`,
+      );
+    }
+    // only resources with a response can be fulfilled, but every method is kept
+    const mirrorNetwork = MirrorNetwork.createFromSessionDb(db, undefined, {
+      ...mirrorOptions,
+      hasResponse: true,
+    });
+    const urls = Object.keys(mirrorNetwork.resourceLookup).map(x => x.slice(x.indexOf('_') + 1));
+    return new NetworkFixture(sessionId, mirrorNetwork, urls, networkFixtureUnmatched);
+  }
+
+  public static createFromHar(
+    sessionId: string,
+    har: IHar,
+    unmatched?: ISessionCreateOptions['networkFixtureUnmatched'],
+    matcher = new NetworkRequestMatcher(),
+  ): NetworkFixture {
+    // entries are looked up by their match key instead of the raw method and url
+    const entries = har.log.entries.map(entry => {
+      const { method, url, postData } = entry.request;
+      return {
+        ...entry,
+        request: { ...entry.request, ...matcher.getKey(method, url, postData?.text) },
+      };
+    });
+    const mirrorNetwork = MirrorNetwork.createFromHar(
+      { log: { ...har.log, entries } },
+      { ...mirrorOptions },
+    );
+    const urls = har.log.entries.map(x => x.request.url);
+    return new NetworkFixture(sessionId, mirrorNetwork, urls, unmatched, matcher);
+  }
+}
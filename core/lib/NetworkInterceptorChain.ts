@@ -0,0 +1,81 @@
+import Page from '@ulixee/unblocked-agent/lib/Page';
+import NetworkManager from '@ulixee/unblocked-agent/lib/NetworkManager';
+
+type INetworkInterceptor = Parameters<NetworkManager['setNetworkInterceptor']>[0];
+
+/**
+ * The NetworkManager of a page holds a single interceptor, so everything in Core that intercepts
+ * requests of a page goes through this chain. Interceptors run newest first until one of them
+ * returns a response.
+ */
+export default class NetworkInterceptorChain {
+  private static readonly chainsByPage = new WeakMap<Page, NetworkInterceptorChain>();
+
+  private readonly interceptors: INetworkInterceptor[] = [];
+  private readonly interceptorsDisablingSessionLogging = new Set<INetworkInterceptor>();
+  private isResponseStageEnabled = false;
+
+  constructor(private readonly page: Page) {}
+
+  public async add(interceptor: INetworkInterceptor, disableSessionLogging = false): Promise<void> {
+    this.interceptors.unshift(interceptor);
+    if (disableSessionLogging) this.interceptorsDisablingSessionLogging.add(interceptor);
+    await this.install();
+  }
+
+  public async remove(interceptor: INetworkInterceptor): Promise<void> {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index === -1) return;
+    this.interceptors.splice(index, 1);
+    const didDisableSessionLogging = this.interceptorsDisablingSessionLogging.delete(interceptor);
+    if (!didDisableSessionLogging && this.interceptors.length) return;
+
+    // the NetworkManager only turns session logging back on when it has no interceptor
+    const { networkManager } = this.page;
+    await networkManager.setNetworkInterceptor(null, false);
+    await networkManager.initialize();
+    if (this.interceptors.length) await this.install();
+  }
+
+  public async enableResponseStage(): Promise<void> {
+    this.isResponseStageEnabled = true;
+    await this.enableFetchPatterns();
+  }
+
+  private async install(): Promise<void> {
+    await this.page.networkManager.setNetworkInterceptor(
+      this.intercept.bind(this),
+      this.interceptorsDisablingSessionLogging.size > 0,
+    );
+    // setting the interceptor enables Fetch without any patterns
+    if (this.isResponseStageEnabled) await this.enableFetchPatterns();
+  }
+
+  private async enableFetchPatterns(): Promise<void> {
+    await this.page.devtoolsSession.send('Fetch.enable', {
+      // keep the proxy authentication the NetworkManager enabled
+      handleAuthRequests: !!this.page.browserContext.proxy?.password,
+      patterns: [
+        { urlPattern: '*', requestStage: 'Request' },
+        { urlPattern: '*', requestStage: 'Response' },
+      ],
+    });
+  }
+
+  private async intercept(request: Parameters<INetworkInterceptor>[0]): Promise<any> {
+    for (const interceptor of [...this.interceptors]) {
+      const response = await interceptor(request);
+      if (response) return response;
+    }
+    return null;
+  }
+
+  public static for(page: Page): NetworkInterceptorChain {
+    let chain = this.chainsByPage.get(page);
+    if (!chain) {
+      chain = new NetworkInterceptorChain(page);
+      this.chainsByPage.set(page, chain);
+    }
+    return chain;
+  }
+}
@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { URL } from 'url';
+import { INetworkRequestMatchField } from '@ulixee/hero-interfaces/INetworkCassetteOptions';
+
+export default class NetworkRequestMatcher {
+  // NOTE: mitm interceptors match on substrings or regexes, so patterns are anchored
+  public static anyUrlPattern = '^(https?|wss?)://';
+
+  public get needsBody(): boolean {
+    return this.matchRequestsOn.includes('body');
+  }
+
+  constructor(
+    readonly matchRequestsOn: INetworkRequestMatchField[] = ['method', 'url'],
+    readonly ignoreQueryParams: string[] = [],
+  ) {}
+
+  public getKey(
+    method: string,
+    url: string,
+    body?: Buffer | string,
+  ): { method: string; url: string } {
+    // unmatched fields collapse into a wildcard so every request shares them
+    let keyUrl = this.matchRequestsOn.includes('url') ? this.normalizeUrl(url) : '*';
+    if (this.needsBody) {
+      const bodyHash = createHash('md5')
+        .update(body ?? '')
+        .digest('hex');
+      keyUrl += `#body=${bodyHash}`;
+    }
+    return {
+      method: this.matchRequestsOn.includes('method') ? method : '*',
+      url: keyUrl,
+    };
+  }
+
+  public getUrlPattern(url: string): string {
+    if (!this.matchRequestsOn.includes('url')) return NetworkRequestMatcher.anyUrlPattern;
+    if (!this.ignoreQueryParams.length) return `^${escapeRegex(url)}$`;
+
+    // ignored params can have any value, so match the url with any query string
+    const withoutQuery = url.split('?').shift();
+    return `^${escapeRegex(withoutQuery)}(\\?.*)?$`;
+  }
+
+  private normalizeUrl(url: string): string {
+    if (!this.ignoreQueryParams.length) return url;
+    try {
+      const parsed = new URL(url);
+      for (const param of this.ignoreQueryParams) parsed.searchParams.delete(param);
+      return parsed.href;
+    } catch {
+      return url;
+    }
+  }
+
+  public static excludeUrl(urlPattern: string, url: string): string {
+    // patterns are anchored, so a lookahead after the anchor skips the one url
+    return urlPattern.replace(/^\^/, `^(?!${escapeRegex(url)}$)`);
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
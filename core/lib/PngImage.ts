@@ -0,0 +1,244 @@
+import * as Zlib from 'zlib';
+import IRect from '@ulixee/unblocked-specification/agent/browser/IRect';
+
+const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const crcTable = new Int32Array(256);
+for (let n = 0; n < 256; n += 1) {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  crcTable[n] = c;
+}
+
+// channels per pixel by png color type
+const channelsByColorType = {
+  0: 1, // grayscale
+  2: 3, // rgb
+  3: 1, // palette index
+  4: 2, // grayscale + alpha
+  6: 4, // rgba
+};
+
+/**
+ * Minimal png codec for 8-bit, non-interlaced images (the format Chrome produces for screenshots).
+ * Pixels are always exposed as rgba.
+ */
+export default class PngImage {
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    public readonly data: Buffer,
+  ) {}
+
+  public fill(area: IRect, rgba: [number, number, number, number]): void {
+    const { left, top, right, bottom } = this.clampArea(area);
+    for (let y = top; y < bottom; y += 1) {
+      for (let x = left; x < right; x += 1) {
+        this.data.set(rgba, (y * this.width + x) * 4);
+      }
+    }
+  }
+
+  // replaces every block with its average color, optionally mixed with a tint
+  public pixelate(area: IRect, blockSize: number, tint?: IPixelTint): void {
+    const { left, top, right, bottom } = this.clampArea(area);
+    blockSize = Math.max(1, Math.round(blockSize));
+    for (let blockY = top; blockY < bottom; blockY += blockSize) {
+      for (let blockX = left; blockX < right; blockX += blockSize) {
+        const blockRight = Math.min(blockX + blockSize, right);
+        const blockBottom = Math.min(blockY + blockSize, bottom);
+        const sum = [0, 0, 0, 0];
+        for (let y = blockY; y < blockBottom; y += 1) {
+          for (let x = blockX; x < blockRight; x += 1) {
+            const offset = (y * this.width + x) * 4;
+            for (let i = 0; i < 4; i += 1) sum[i] += this.data[offset + i];
+          }
+        }
+        const pixels = (blockRight - blockX) * (blockBottom - blockY);
+        const average = sum.map((total, i) => {
+          const value = total / pixels;
+          if (!tint || i === 3) return Math.round(value);
+          return Math.round(value * (1 - tint.alpha) + tint.rgb[i] * tint.alpha);
+        });
+        this.fill(
+          { x: blockX, y: blockY, width: blockRight - blockX, height: blockBottom - blockY },
+          average as [number, number, number, number],
+        );
+      }
+    }
+  }
+
+  public toBuffer(): Buffer {
+    const rowLength = this.width * 4;
+    const raw = Buffer.alloc((rowLength + 1) * this.height);
+    for (let y = 0; y < this.height; y += 1) {
+      // filter type 0 (none) for every row
+      raw[y * (rowLength + 1)] = 0;
+      this.data.copy(raw, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 6; // rgba
+    header[10] = 0; // compression
+    header[11] = 0; // filter
+    header[12] = 0; // interlace
+
+    return Buffer.concat([
+      pngSignature,
+      createChunk('IHDR', header),
+      createChunk('IDAT', Zlib.deflateSync(raw)),
+      createChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+
+  private clampArea(area: IRect): {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+  } {
+    // round outwards so partially covered pixels are included
+    return {
+      left: Math.max(0, Math.floor(area.x)),
+      top: Math.max(0, Math.floor(area.y)),
+      right: Math.min(this.width, Math.ceil(area.x + area.width)),
+      bottom: Math.min(this.height, Math.ceil(area.y + area.height)),
+    };
+  }
+
+  public static isPng(buffer: Buffer): boolean {
+    return buffer?.length > pngSignature.length && buffer.subarray(0, 8).equals(pngSignature);
+  }
+
+  public static create(width: number, height: number): PngImage {
+    return new PngImage(width, height, Buffer.alloc(width * height * 4));
+  }
+
+  public static decode(buffer: Buffer): PngImage {
+    if (!this.isPng(buffer)) throw new Error('The image is not a png');
+
+    let width: number;
+    let height: number;
+    let colorType: number;
+    let palette: Buffer;
+    let transparency: Buffer;
+    const imageData: Buffer[] = [];
+
+    let offset = pngSignature.length;
+    while (offset < buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('ascii', offset + 4, offset + 8);
+      const data = buffer.subarray(offset + 8, offset + 8 + length);
+      offset += length + 12;
+
+      if (type === 'IHDR') {
+        width = data.readUInt32BE(0);
+        height = data.readUInt32BE(4);
+        const bitDepth = data[8];
+        colorType = data[9];
+        const interlace = data[12];
+        if (bitDepth !== 8 || interlace !== 0 || !(colorType in channelsByColorType)) {
+          throw new Error(
+            `Unsupported png (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`,
+          );
+        }
+      } else if (type === 'PLTE') palette = data;
+      else if (type === 'tRNS') transparency = data;
+      else if (type === 'IDAT') imageData.push(data);
+      else if (type === 'IEND') break;
+    }
+
+    const channels = channelsByColorType[colorType];
+    const pixels = unfilter(Zlib.inflateSync(Buffer.concat(imageData)), width, height, channels);
+
+    const image = PngImage.create(width, height);
+    for (let i = 0; i < width * height; i += 1) {
+      const source = i * channels;
+      let rgba: [number, number, number, number];
+      if (colorType === 0) {
+        rgba = [pixels[source], pixels[source], pixels[source], 255];
+      } else if (colorType === 2) {
+        rgba = [pixels[source], pixels[source + 1], pixels[source + 2], 255];
+      } else if (colorType === 3) {
+        const index = pixels[source];
+        const alpha = transparency && index < transparency.length ? transparency[index] : 255;
+        rgba = [palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2], alpha];
+      } else if (colorType === 4) {
+        rgba = [pixels[source], pixels[source], pixels[source], pixels[source + 1]];
+      } else {
+        rgba = [pixels[source], pixels[source + 1], pixels[source + 2], pixels[source + 3]];
+      }
+      image.data[i * 4] = rgba[0];
+      image.data[i * 4 + 1] = rgba[1];
+      image.data[i * 4 + 2] = rgba[2];
+      image.data[i * 4 + 3] = rgba[3];
+    }
+    return image;
+  }
+}
+
+function unfilter(raw: Buffer, width: number, height: number, bytesPerPixel: number): Buffer {
+  const rowLength = width * bytesPerPixel;
+  const pixels = Buffer.alloc(rowLength * height);
+
+  for (let y = 0; y < height; y += 1) {
+    const filterType = raw[y * (rowLength + 1)];
+    const rowStart = y * (rowLength + 1) + 1;
+    const out = y * rowLength;
+    const previous = out - rowLength;
+
+    for (let x = 0; x < rowLength; x += 1) {
+      const value = raw[rowStart + x];
+      const left = x >= bytesPerPixel ? pixels[out + x - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? pixels[previous + x - bytesPerPixel] : 0;
+
+      let predictor = 0;
+      if (filterType === 1) predictor = left;
+      else if (filterType === 2) predictor = up;
+      else if (filterType === 3) predictor = (left + up) >> 1;
+      else if (filterType === 4) predictor = paeth(left, up, upLeft);
+      else if (filterType !== 0) throw new Error(`Invalid png filter type ${filterType}`);
+
+      pixels[out + x] = (value + predictor) & 0xff;
+    }
+  }
+  return pixels;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+  chunk.writeInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+function crc32(buffer: Buffer): number {
+  let crc = -1;
+  for (const byte of buffer) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return crc ^ -1;
+}
+
+export interface IPixelTint {
+  rgb: [number, number, number];
+  alpha: number;
+}
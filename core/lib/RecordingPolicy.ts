@@ -0,0 +1,58 @@
+import ISessionRecordingOptions, {
+  IRecordingTableName,
+} from '@ulixee/hero-interfaces/ISessionRecordingOptions';
+
+export default class RecordingPolicy {
+  private readonly sampleCredits: { [table: string]: number } = {};
+  private readonly sampledGroups = new Map<string, boolean>();
+
+  constructor(readonly options: ISessionRecordingOptions = {}) {
+    this.options ??= {};
+  }
+
+  public shouldRecord(table: IRecordingTableName, groupKey?: string | number): boolean {
+    const policy = this.options[table];
+    if (policy === undefined || policy === true) return true;
+    if (policy === false) return false;
+
+    // records that only make sense together (eg, the dom changes of a document) are sampled as a group
+    if (groupKey !== undefined) {
+      const key = `${table}:${groupKey}`;
+      if (!this.sampledGroups.has(key)) {
+        this.sampledGroups.set(key, this.shouldRecord(table));
+      }
+      return this.sampledGroups.get(key);
+    }
+
+    const sampleRate = Math.min(Math.max(policy.sampleRate ?? 1, 0), 1);
+    // accumulate credits so sampling is evenly spread instead of random
+    const credits = (this.sampleCredits[table] ?? 0) + sampleRate;
+    if (credits >= 1) {
+      this.sampleCredits[table] = credits - 1;
+      return true;
+    }
+    this.sampleCredits[table] = credits;
+    return false;
+  }
+
+  public isFullyRecorded(table: IRecordingTableName): boolean {
+    const policy = this.options[table];
+    if (policy === undefined || policy === true) return true;
+    if (policy === false) return false;
+    return (policy.sampleRate ?? 1) >= 1;
+  }
+
+  public assertRecorded(
+    sessionId: string,
+    purpose: string,
+    ...tables: IRecordingTableName[]
+  ): void {
+    const missing = tables.filter(x => !this.isFullyRecorded(x));
+    if (!missing.length) return;
+
+    const tableNames = missing.map(x => `"${x}"`).join(', ');
+    throw new Error(
+      `${purpose} needs data that was not recorded for session ${sessionId}. Recording of ${tableNames} was turned off or sampled in the "recording" option of this session.`,
+    );
+  }
+}
@@ -1,17 +1,45 @@
+import Log from '@ulixee/commons/lib/Logger';
 import ISessionMeta from '@ulixee/hero-interfaces/ISessionMeta';
 import ICoreEventPayload from '@ulixee/hero-interfaces/ICoreListenerPayload';
 import Session from './Session';
 import { IRemoteEventListener } from '../interfaces/IRemoteEventListener';
 import RemoteEventTarget from './RemoteEventTarget';
 
+const { log } = Log(module);
+
 export default class RemoteEvents {
+  // the oldest events are dropped once this many are held for a detached client
+  public static maxDetachedEvents = 1000;
+
   private remoteTargets = new Map<IRemoteEventListener, RemoteEventTarget>();
+  private detachedEvents: ICoreEventPayload[];
+  private droppedEventCount = 0;
 
-  constructor(private session: Session, readonly onCoreEvent: (event: ICoreEventPayload) => void) {
+  constructor(private session: Session, private onCoreEvent: (event: ICoreEventPayload) => void) {
     this.close = this.close.bind(this);
+    this.emitCoreEvent = this.emitCoreEvent.bind(this);
     session.once('closing', this.close);
   }
 
+  // holds events while no client is connected to receive them
+  public detach(): void {
+    this.detachedEvents ??= [];
+  }
+
+  public attach(onCoreEvent: (event: ICoreEventPayload) => void): void {
+    this.onCoreEvent = onCoreEvent;
+    const events = this.detachedEvents ?? [];
+    this.detachedEvents = null;
+    if (this.droppedEventCount) {
+      log.warn('RemoteEvents.DroppedDetachedEvents', {
+        droppedEvents: this.droppedEventCount,
+        sessionId: this.session?.id,
+      });
+      this.droppedEventCount = 0;
+    }
+    for (const event of events) onCoreEvent(event);
+  }
+
   public close(): void {
     this.session.off('closing', this.close);
     this.session = null;
@@ -35,9 +63,21 @@ export default class RemoteEvents {
     if (!this.remoteTargets.has(target)) {
       this.remoteTargets.set(
         target,
-        new RemoteEventTarget(this.session, target, meta, this.onCoreEvent),
+        new RemoteEventTarget(this.session, target, meta, this.emitCoreEvent),
       );
     }
     return this.remoteTargets.get(target);
   }
+
+  private emitCoreEvent(event: ICoreEventPayload): void {
+    if (!this.detachedEvents) {
+      this.onCoreEvent(event);
+      return;
+    }
+    this.detachedEvents.push(event);
+    if (this.detachedEvents.length > RemoteEvents.maxDetachedEvents) {
+      this.detachedEvents.shift();
+      this.droppedEventCount += 1;
+    }
+  }
 }
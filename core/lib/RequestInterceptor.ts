@@ -0,0 +1,471 @@
+import { URL } from 'url';
+import { isIP } from 'net';
+import * as psl from 'psl';
+import Log from '@ulixee/commons/lib/Logger';
+import Resolvable from '@ulixee/commons/lib/Resolvable';
+import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEvent';
+import EventSubscriber from '@ulixee/commons/lib/EventSubscriber';
+import { IPageEvents } from '@ulixee/unblocked-specification/agent/browser/IPage';
+import { IBrowserResourceRequest } from '@ulixee/unblocked-specification/agent/browser/IBrowserNetworkEvents';
+import DevtoolsSession from '@ulixee/unblocked-agent/lib/DevtoolsSession';
+import IResourceMeta from '@ulixee/unblocked-specification/agent/net/IResourceMeta';
+import stringToRegex from '@ulixee/hero-plugin-utils/lib/utils/stringToRegex';
+import IResourceType, {
+  getResourceTypeForChromeValue,
+} from '@ulixee/unblocked-specification/agent/net/IResourceType';
+import IBlockedResources, {
+  IBlockedResourceStats,
+} from '@ulixee/hero-interfaces/IBlockedResources';
+import IInterceptedRequest, {
+  IInterceptAction,
+  IInterceptBody,
+  IInterceptFilter,
+  IInterceptedResponse,
+  IInterceptStage,
+} from '@ulixee/hero-interfaces/IInterceptedRequest';
+import Tab from './Tab';
+import NetworkInterceptorChain from './NetworkInterceptorChain';
+import ResourcesTable from '../models/ResourcesTable';
+
+const { log } = Log(module);
+
+interface IRequestPausedEvent {
+  requestId: string;
+  networkId?: string;
+  frameId: string;
+  resourceType: string;
+  request: {
+    url: string;
+    method: string;
+    headers: { [name: string]: string };
+    postData?: string;
+  };
+  // only set when paused at the response stage
+  responseStatusCode?: number;
+  responseErrorReason?: string;
+  responseHeaders?: { name: string; value: string }[];
+}
+
+interface IUrlPattern {
+  key: string;
+  regex: RegExp;
+}
+
+interface IInterceptHandler {
+  listenerId: string;
+  filter: IInterceptFilter;
+  emitFn: (request: IInterceptedRequest) => void;
+}
+
+interface ILoadedBytes {
+  count: number;
+  bytes: number;
+}
+
+type IRecordedInterceptAction = IInterceptAction & { responseAction?: IInterceptAction };
+
+export default class RequestInterceptor {
+  public static resolveTimeoutMs = 30e3;
+  // actions are only needed until the resource is recorded
+  public static maxRecordedActions = 1000;
+  // body sizes of loaded urls, used to estimate the bandwidth saved by blocking them
+  public static maxLoadedUrlSizes = 1000;
+
+  private readonly handlers: IInterceptHandler[] = [];
+  private readonly pendingActionsById = new Map<string, Resolvable<IInterceptAction>>();
+  private readonly actionsByBrowserRequestId = new Map<string, IRecordedInterceptAction>();
+  private readonly events = new EventSubscriber();
+  private blockedResources: {
+    types: IResourceType[];
+    urlPatterns: IUrlPattern[];
+    allowPatterns: IUrlPattern[];
+    thirdPartyOnly: boolean;
+  };
+
+  private blockedResourceStats: IBlockedResourceStats = {
+    total: 0,
+    byType: {},
+    byUrlPattern: {},
+    estimatedBytesSaved: 0,
+  };
+
+  private readonly loadedBytesByUrl = new Map<string, number>();
+  private readonly loadedBytesByType: { [type: string]: ILoadedBytes } = {};
+  private isInstalled = false;
+  private isResponseStageEnabled = false;
+  private interceptIdCounter = 0;
+
+  constructor(private readonly tab: Tab) {
+    this.events.on(tab.session, 'resource', this.onSessionResource.bind(this));
+  }
+
+  public async addHandler(
+    listenerId: string,
+    filter: IInterceptFilter = {},
+    emitFn: IInterceptHandler['emitFn'],
+  ): Promise<void> {
+    filter = { ...filter };
+    if (typeof filter.url === 'string') filter.url = stringToRegex(filter.url);
+    this.handlers.push({ listenerId, filter, emitFn });
+    await this.install();
+    if (filter.stage === 'response' && !this.isResponseStageEnabled) {
+      this.isResponseStageEnabled = true;
+      await NetworkInterceptorChain.for(this.tab.page).enableResponseStage();
+    }
+  }
+
+  public async setBlockedResources(options: IBlockedResources): Promise<void> {
+    const { types, urlPatterns, allowPatterns, thirdPartyOnly } = options ?? {};
+    if (!types?.length && !urlPatterns?.length && !thirdPartyOnly) {
+      this.blockedResources = null;
+      return;
+    }
+    this.blockedResources = {
+      types: types ?? [],
+      urlPatterns: (urlPatterns ?? []).map(toUrlPattern),
+      allowPatterns: (allowPatterns ?? []).map(toUrlPattern),
+      thirdPartyOnly: thirdPartyOnly ?? false,
+    };
+    await this.install();
+  }
+
+  public getBlockedResourceStats(): IBlockedResourceStats {
+    const { byType, byUrlPattern } = this.blockedResourceStats;
+    return {
+      ...this.blockedResourceStats,
+      byType: { ...byType },
+      byUrlPattern: { ...byUrlPattern },
+    };
+  }
+
+  public removeHandler(listenerId: string): void {
+    const index = this.handlers.findIndex(x => x.listenerId === listenerId);
+    if (index >= 0) this.handlers.splice(index, 1);
+  }
+
+  public resolve(interceptId: string, action: IInterceptAction): void {
+    const pending = this.pendingActionsById.get(interceptId);
+    if (!pending) throw new Error(`This intercepted request is no longer pending (${interceptId})`);
+    pending.resolve(action);
+  }
+
+  public getAction(browserRequestId: string): IInterceptAction {
+    if (!browserRequestId) return;
+    return this.actionsByBrowserRequestId.get(browserRequestId);
+  }
+
+  public close(): void {
+    for (const pending of this.pendingActionsById.values()) {
+      pending.reject(new CanceledPromiseError('Tab closed before the intercept was resolved'));
+    }
+    this.pendingActionsById.clear();
+    this.actionsByBrowserRequestId.clear();
+    this.handlers.length = 0;
+    this.events.close();
+  }
+
+  private async install(): Promise<void> {
+    if (this.isInstalled) return;
+    this.isInstalled = true;
+    const page = this.tab.page;
+    this.events.on(page, 'resource-loaded', this.onResourceLoaded.bind(this));
+    this.events.on(page, 'resource-failed', this.onResourceFailed.bind(this));
+    // NOTE: dedicated workers load through the network of their page. Service and shared workers
+    // have their own NetworkManager, which the Worker doesn't expose.
+    await NetworkInterceptorChain.for(page).add(
+      this.onRequestPaused.bind(this, page.devtoolsSession),
+    );
+  }
+
+  private onSessionResource(event: { resource: IResourceMeta; bodyBytes: number }): void {
+    const { resource, bodyBytes } = event;
+    if (resource.tabId !== this.tab.id || resource.isRedirect || !bodyBytes) return;
+
+    const loaded = (this.loadedBytesByType[resource.type] ??= { count: 0, bytes: 0 });
+    loaded.count += 1;
+    loaded.bytes += bodyBytes;
+
+    this.loadedBytesByUrl.delete(resource.url);
+    this.loadedBytesByUrl.set(resource.url, bodyBytes);
+    if (this.loadedBytesByUrl.size > RequestInterceptor.maxLoadedUrlSizes) {
+      this.loadedBytesByUrl.delete(this.loadedBytesByUrl.keys().next().value);
+    }
+  }
+
+  private estimateBytes(url: string, resourceType: IResourceType): number {
+    if (this.loadedBytesByUrl.has(url)) return this.loadedBytesByUrl.get(url);
+    // otherwise use the average size of the loaded resources of the same type
+    const loaded = this.loadedBytesByType[resourceType];
+    if (!loaded) return 0;
+    return Math.round(loaded.bytes / loaded.count);
+  }
+
+  private onResourceLoaded(event: IPageEvents['resource-loaded']): void {
+    this.recordFromBrowser(event.resource, event.frameId, event.body);
+  }
+
+  private onResourceFailed(event: IPageEvents['resource-failed']): void {
+    this.recordFromBrowser(event.resource, event.resource.frameId, () => Promise.resolve(null));
+  }
+
+  private recordFromBrowser(
+    resource: IBrowserResourceRequest,
+    devtoolsFrameId: string,
+    getBody: () => Promise<Buffer>,
+  ): void {
+    const action = this.getAction(resource.browserRequestId);
+    const resources = this.tab.session.browserContext.resources;
+    // fulfilled and aborted requests never reach the mitm, so only the browser sees them
+    if (!ResourcesTable.isResponseIntercepted(action) || !resources.hasRegisteredMitm) return;
+
+    const frameId =
+      this.tab.frameEnvironmentsByDevtoolsId.get(devtoolsFrameId)?.id ?? this.tab.mainFrameId;
+    resources.createNewResourceIfUnseen(this.tab.id, frameId, resource, getBody).catch(error => {
+      log.warn('RequestInterceptor.RecordResourceError', {
+        sessionId: this.tab.sessionId,
+        url: resource.url?.href,
+        error,
+      });
+    });
+  }
+
+  private async onRequestPaused(
+    devtoolsSession: DevtoolsSession,
+    event: IRequestPausedEvent,
+  ): Promise<any> {
+    const { request } = event;
+    const resourceType = getResourceTypeForChromeValue(event.resourceType as any, request.method);
+    const stage: IInterceptStage =
+      event.responseStatusCode !== undefined || event.responseErrorReason ? 'response' : 'request';
+
+    if (stage === 'request' && this.shouldBlock(event, resourceType)) {
+      const action: IInterceptAction = { action: 'abort', reason: 'BlockedByClient' };
+      return await this.applyAction(devtoolsSession, event, stage, action);
+    }
+
+    const handler = this.handlers.find(x => {
+      const { url, types, method } = x.filter;
+      if ((x.filter.stage ?? 'request') !== stage) return false;
+      if (url && !(url as RegExp).test(request.url)) return false;
+      if (types?.length && !types.includes(resourceType)) return false;
+      if (method && method.toUpperCase() !== request.method) return false;
+      return true;
+    });
+    // failed responses can't be altered
+    if (!handler || event.responseErrorReason) {
+      if (stage === 'request') return null;
+      return await this.applyAction(devtoolsSession, event, stage, { action: 'continue' });
+    }
+
+    const interceptId = String((this.interceptIdCounter += 1));
+    const pending = new Resolvable<IInterceptAction>(RequestInterceptor.resolveTimeoutMs);
+    this.pendingActionsById.set(interceptId, pending);
+
+    let action: IInterceptAction;
+    try {
+      const response =
+        stage === 'response' ? await this.getResponse(devtoolsSession, event) : undefined;
+      handler.emitFn({
+        interceptId,
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        postData: request.postData,
+        resourceType,
+        response,
+      });
+      action = await pending.promise;
+      if (response && action.action === 'fulfill') {
+        // a fulfilled response keeps everything that wasn't changed
+        const { body, bodyEncoding } = action.body === undefined ? response : action;
+        action = {
+          statusCode: response.statusCode,
+          headers: response.headers,
+          ...withoutUndefined(action),
+          action: 'fulfill',
+          body,
+          bodyEncoding,
+        };
+      }
+    } catch (error) {
+      if (error instanceof CanceledPromiseError) throw error;
+      log.warn('RequestInterceptor.UnresolvedIntercept', {
+        sessionId: this.tab.sessionId,
+        url: request.url,
+        error,
+      });
+      action = { action: 'continue' };
+    } finally {
+      this.pendingActionsById.delete(interceptId);
+    }
+    return await this.applyAction(devtoolsSession, event, stage, action);
+  }
+
+  private async getResponse(
+    devtoolsSession: DevtoolsSession,
+    event: IRequestPausedEvent,
+  ): Promise<IInterceptedResponse> {
+    const headers: IInterceptedResponse['headers'] = {};
+    for (const { name, value } of event.responseHeaders ?? []) {
+      // the body is handed out decoded, so it can't be fulfilled with its original encoding
+      const lowerName = name.toLowerCase();
+      if (lowerName === 'content-encoding' || lowerName === 'content-length') continue;
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+    const response: IInterceptedResponse = { statusCode: event.responseStatusCode, headers };
+    try {
+      const { body, base64Encoded } = await devtoolsSession.send('Fetch.getResponseBody', {
+        requestId: event.requestId,
+      });
+      response.body = body;
+      if (base64Encoded) response.bodyEncoding = 'base64';
+    } catch (error) {
+      // redirects have no body
+    }
+    return response;
+  }
+
+  private recordAction(
+    event: IRequestPausedEvent,
+    stage: IInterceptStage,
+    action: IInterceptAction,
+  ): void {
+    const browserRequestId = event.networkId ?? event.requestId;
+    const actions = this.actionsByBrowserRequestId;
+    if (stage === 'response') {
+      const requestAction = actions.get(browserRequestId) ?? { action: 'continue' };
+      actions.set(browserRequestId, { ...requestAction, responseAction: action });
+    } else {
+      actions.set(browserRequestId, action);
+    }
+
+    if (actions.size > RequestInterceptor.maxRecordedActions) {
+      // maps iterate in insertion order, so this is the oldest action
+      actions.delete(actions.keys().next().value);
+    }
+  }
+
+  private async applyAction(
+    devtoolsSession: DevtoolsSession,
+    event: IRequestPausedEvent,
+    stage: IInterceptStage,
+    action: IInterceptAction,
+  ): Promise<any> {
+    const { request, requestId } = event;
+    this.recordAction(event, stage, action);
+
+    if (action.action === 'abort') {
+      await devtoolsSession.send('Fetch.failRequest', {
+        requestId,
+        errorReason: action.reason ?? 'BlockedByClient',
+      });
+      // the NetworkManager skips continuing a request when the interceptor is canceled
+      throw new CanceledPromiseError('Request was aborted by an intercept');
+    }
+
+    if (action.action === 'fulfill') {
+      await devtoolsSession.send('Fetch.fulfillRequest', {
+        requestId,
+        responseCode: action.statusCode ?? 200,
+        responseHeaders: toHeaderEntries(action.headers),
+        body: toBase64(action),
+      });
+      throw new CanceledPromiseError('Request was fulfilled by an intercept');
+    }
+
+    if (stage === 'response') {
+      // the NetworkManager only knows how to continue requests (and would track them again)
+      await devtoolsSession.send('Fetch.continueRequest', { requestId });
+      throw new CanceledPromiseError('Response was continued by an intercept');
+    }
+
+    if (action.action === 'rewrite') {
+      // NOTE: the NetworkManager only uses continue details that include a url
+      return {
+        requestId,
+        url: action.url ?? request.url,
+        method: action.method,
+        headers: action.headers ? toHeaderEntries(action.headers) : undefined,
+        postData: action.body !== undefined ? toBase64(action) : undefined,
+      };
+    }
+
+    return null;
+  }
+
+  private shouldBlock(event: IRequestPausedEvent, resourceType: IResourceType): boolean {
+    if (!this.blockedResources) return false;
+    const { types, urlPatterns, allowPatterns, thirdPartyOnly } = this.blockedResources;
+    const { url, headers } = event.request;
+
+    // never block the page itself
+    if (resourceType === 'Document' && event.frameId === this.tab.page.mainFrame.id) return false;
+    if (allowPatterns.some(x => x.regex.test(url))) return false;
+    if (thirdPartyOnly && !isThirdParty(url, this.tab.url, headers)) return false;
+
+    const isBlockedType = types.includes(resourceType);
+    const matchingPattern = urlPatterns.find(x => x.regex.test(url));
+    // thirdPartyOnly on its own blocks every third party request
+    const hasFilters = types.length > 0 || urlPatterns.length > 0;
+    if (hasFilters && !isBlockedType && !matchingPattern) return false;
+
+    const stats = this.blockedResourceStats;
+    stats.total += 1;
+    stats.estimatedBytesSaved += this.estimateBytes(url, resourceType);
+    if (isBlockedType) stats.byType[resourceType] = (stats.byType[resourceType] ?? 0) + 1;
+    if (matchingPattern) {
+      const { key } = matchingPattern;
+      stats.byUrlPattern[key] = (stats.byUrlPattern[key] ?? 0) + 1;
+    }
+    return true;
+  }
+}
+
+function toHeaderEntries(headers: { [name: string]: string } = {}): {
+  name: string;
+  value: string;
+}[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function withoutUndefined<T extends object>(object: T): Partial<T> {
+  const result: Partial<T> = {};
+  for (const [key, value] of Object.entries(object)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+function toBase64(data: IInterceptBody): string {
+  if (data.bodyEncoding === 'base64') return data.body ?? '';
+  return Buffer.from(data.body ?? '').toString('base64');
+}
+
+function toUrlPattern(pattern: string | RegExp): IUrlPattern {
+  if (typeof pattern === 'string') return { key: pattern, regex: stringToRegex(pattern) };
+  return { key: pattern.toString(), regex: pattern };
+}
+
+function isThirdParty(
+  url: string,
+  documentUrl: string,
+  headers: { [name: string]: string },
+): boolean {
+  const fetchSite = Object.entries(headers).find(
+    ([name]) => name.toLowerCase() === 'sec-fetch-site',
+  )?.[1];
+  if (fetchSite) return fetchSite === 'cross-site';
+
+  try {
+    return getSite(url) !== getSite(documentUrl);
+  } catch {
+    return true;
+  }
+}
+
+function getSite(url: string): string {
+  const { hostname } = new URL(url);
+  if (isIP(hostname)) return hostname;
+  // the registrable domain (eg, example.co.uk). Unlisted hosts like localhost are their own site.
+  return psl.get(hostname) ?? hostname;
+}
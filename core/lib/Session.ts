@@ -16,6 +16,12 @@ import IDetachedElement from '@ulixee/hero-interfaces/IDetachedElement';
 import IDataSnippet from '@ulixee/hero-interfaces/IDataSnippet';
 import EventSubscriber from '@ulixee/commons/lib/EventSubscriber';
 import IDetachedResource from '@ulixee/hero-interfaces/IDetachedResource';
+import IDetachedPdf from '@ulixee/hero-interfaces/IDetachedPdf';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
+import IHar, { IHarExportOptions } from '@ulixee/hero-interfaces/IHar';
+import IGeneratedExitState, {
+  IExitStateGenerateOptions,
+} from '@ulixee/hero-interfaces/IGeneratedExitState';
 import Agent from '@ulixee/unblocked-agent/lib/Agent';
 import Resources from '@ulixee/unblocked-agent/lib/Resources';
 import WebsocketMessages from '@ulixee/unblocked-agent/lib/WebsocketMessages';
@@ -25,6 +31,7 @@ import Page from '@ulixee/unblocked-agent/lib/Page';
 import IEmulationProfile from '@ulixee/unblocked-specification/plugin/IEmulationProfile';
 import { IEmulatorOptions } from '@ulixee/default-browser-emulator';
 import IViewport from '@ulixee/unblocked-specification/agent/browser/IViewport';
+import IResourceMeta from '@ulixee/unblocked-specification/agent/net/IResourceMeta';
 import { IFrame } from '@ulixee/unblocked-specification/agent/browser/IFrame';
 import Tab from './Tab';
 import UserProfile from './UserProfile';
@@ -36,6 +43,12 @@ import SessionDb from '../dbs/SessionDb';
 import { ICommandableTarget } from './CommandRunner';
 import Commands from './Commands';
 import SessionsDb from '../dbs/SessionsDb';
+import RecordingPolicy from './RecordingPolicy';
+import HarExporter from './HarExporter';
+import ExitStateGenerator from './ExitStateGenerator';
+import NetworkFixture from './NetworkFixture';
+import NetworkCassette from './NetworkCassette';
+import Downloads from './Downloads';
 import { IRemoteEmitFn, IRemoteEventListener } from '../interfaces/IRemoteEventListener';
 import { IOutputChangeRecord } from '../models/OutputTable';
 import env from '../env';
@@ -52,9 +65,10 @@ export default class Session
     'tab-created': { tab: Tab };
     'all-tabs-closed': void;
     output: { changes: IOutputChangeRecord[] };
+    resource: { resource: IResourceMeta; bodyBytes: number };
     'collected-asset': {
-      type: 'resource' | 'snippet' | 'element';
-      asset: IDataSnippet | IDetachedElement | IDetachedResource;
+      type: 'resource' | 'snippet' | 'element' | 'pdf';
+      asset: IDataSnippet | IDetachedElement | IDetachedResource | IDetachedPdf;
     };
   }>
   implements ICommandableTarget, IRemoteEventListener
@@ -89,6 +103,8 @@ export default class Session
   public readonly createdTime: number;
 
   public bypassResourceRegistrationForHost: URL;
+  // only clients in the same process as Core can point it to files outside of its data directory
+  public isInProcessClient = false;
 
   public get mitmRequestSession(): RequestSession {
     return this.agent.mitmRequestSession;
@@ -97,6 +113,7 @@ export default class Session
   public browserContext?: BrowserContext;
   public commands: Commands;
   public db: SessionDb;
+  public downloads: Downloads;
   public get resources(): Resources {
     return this.browserContext.resources;
   }
@@ -176,6 +193,8 @@ export default class Session
   protected readonly logger: IBoundLog;
 
   private hasLoadedUserProfile = false;
+  private networkFixture: NetworkFixture;
+  private networkCassette: NetworkCassette;
   private commandRecorder: CommandRecorder;
   private _isClosing = false;
   private isResettingState = false;
@@ -192,12 +211,15 @@ export default class Session
     });
 
     this.createdTime = Date.now();
-    this.id = this.getId(options.sessionId);
+    const warmAgent = Core.browserContextPool?.claim(options);
+    this.id = warmAgent?.agent.id ?? this.getId(options.sessionId);
     const id = this.id;
     Session.byId[id] = this;
     this.events.once(this, 'closed', () => delete Session.byId[id]);
     this.db = new SessionDb(this.id);
+    this.db.recordingPolicy = new RecordingPolicy(options.recording);
     this.commands = new Commands(this.db);
+    this.downloads = new Downloads(this);
 
     this.logger = log.createChild(module, { sessionId: this.id });
     loggerSessionIdNames.set(this.id, options.sessionName);
@@ -229,20 +251,25 @@ export default class Session
       userAgentSelector: userAgent ?? userProfile?.userAgentString,
     };
 
-    this.agent = Core.pool.createAgent({
-      options,
-      customEmulatorConfig,
-      logger: this.logger,
-      deviceProfile: userProfile?.deviceProfile,
-      id: this.id,
-      commandMarker: this.commands,
-    });
+    if (warmAgent) {
+      this.agent = warmAgent.agent;
+      this.plugins = warmAgent.plugins;
+    } else {
+      this.agent = Core.pool.createAgent({
+        options,
+        customEmulatorConfig,
+        logger: this.logger,
+        deviceProfile: userProfile?.deviceProfile,
+        id: this.id,
+        commandMarker: this.commands,
+      });
 
-    this.plugins = new CorePlugins(this.agent, {
-      corePluginPaths: options.corePluginPaths,
-      dependencyMap: options.dependencyMap,
-      getSessionSummary: this.getSummary.bind(this),
-    });
+      this.plugins = new CorePlugins(this.agent, {
+        corePluginPaths: options.corePluginPaths,
+        dependencyMap: options.dependencyMap,
+        getSessionSummary: this.getSummary.bind(this),
+      });
+    }
 
     // should come after plugins can initiate
     this.recordSession(providedOptions);
@@ -254,10 +281,15 @@ export default class Session
       this.getSnippets,
       this.getDetachedElements,
       this.getDetachedResources,
+      this.getDetachedPdfs,
+      this.getDownloads,
+      this.getDownloadBuffer,
       this.getCollectedAssetNames,
       this.close,
       this.flush,
       this.exportUserProfile,
+      this.exportHar,
+      this.generateExitState,
       this.getTabs,
       this.getHeroMeta,
       this.addRemoteEventListener,
@@ -307,7 +339,7 @@ export default class Session
 
   public getCollectedAssetNames(
     fromSessionId: string,
-  ): Promise<{ resources: string[]; elements: string[]; snippets: string[] }> {
+  ): Promise<{ resources: string[]; elements: string[]; snippets: string[]; pdfs: string[] }> {
     let db = this.db;
     if (fromSessionId === this.id) {
       db.flush();
@@ -329,6 +361,7 @@ export default class Session
       snippets: [...snippets],
       resources: [...resources],
       elements: [...elementNames],
+      pdfs: db.hasTable(db.detachedPdfs) ? db.detachedPdfs.allNames() : [],
     });
   }
 
@@ -342,6 +375,33 @@ export default class Session
     return Promise.resolve(db.snippets.getByName(name));
   }
 
+  public getDetachedPdfs(fromSessionId: string, name: string): Promise<IDetachedPdf[]> {
+    let db = this.db;
+    if (fromSessionId === this.id) {
+      db.flush();
+    } else {
+      db = SessionDb.getCached(fromSessionId);
+    }
+    if (!db.hasTable(db.detachedPdfs)) return Promise.resolve([]);
+    return Promise.resolve(db.detachedPdfs.getByName(name));
+  }
+
+  public getDownloads(fromSessionId: string): Promise<IDownload[]> {
+    let db = this.db;
+    if (fromSessionId === this.id) {
+      db.flush();
+    } else {
+      db = SessionDb.getCached(fromSessionId);
+    }
+    if (!db.hasTable(db.downloads)) return Promise.resolve([]);
+    return Promise.resolve(db.downloads.all());
+  }
+
+  public async getDownloadBuffer(fromSessionId: string, downloadId: string): Promise<Buffer> {
+    if (fromSessionId === this.id) return await this.downloads.getBuffer(downloadId);
+    return await Downloads.getRecordedBuffer(SessionDb.getCached(fromSessionId), downloadId);
+  }
+
   public getDetachedResources(fromSessionId: string, name: string): Promise<IDetachedResource[]> {
     let db = this.db;
     if (fromSessionId === this.id) {
@@ -386,6 +446,32 @@ export default class Session
   public async openBrowser(): Promise<void> {
     if (this.mode === 'browserless') return;
     const agent = this.agent;
+    const { networkFixture, networkCassette } = this.options;
+    if (networkFixture || networkCassette) {
+      if (networkFixture && networkCassette) {
+        throw new Error('A session can use a networkFixture or a networkCassette, but not both.');
+      }
+      if (this.options.disableMitm) {
+        throw new Error(
+          'Network fixtures and cassettes can only be used when the Mitm is enabled.',
+        );
+      }
+      if (networkCassette) {
+        this.networkCassette = await NetworkCassette.load(
+          this.id,
+          this.options,
+          this.isInProcessClient,
+        );
+        this.networkFixture = this.networkCassette.fixture;
+      } else {
+        this.networkFixture = await NetworkFixture.load(
+          this.id,
+          this.options,
+          this.isInProcessClient,
+        );
+      }
+      this.networkFixture?.install(agent.mitmRequestSession);
+    }
     await agent.open();
     this.browserContext = agent.browserContext;
     this.events.on(
@@ -393,6 +479,7 @@ export default class Session
       'devtools-message',
       this.onDevtoolsMessage.bind(this),
     );
+    await this.downloads.install();
     if (this.userProfile) {
       await UserProfile.installCookies(this);
     }
@@ -426,6 +513,16 @@ export default class Session
     return UserProfile.export(this);
   }
 
+  public exportHar(options?: IHarExportOptions): Promise<IHar> {
+    this.db.flush();
+    return HarExporter.export(this.db, options);
+  }
+
+  public generateExitState(options: IExitStateGenerateOptions): Promise<IGeneratedExitState> {
+    this.db.flush();
+    return ExitStateGenerator.generate(this.db, options);
+  }
+
   public async createTab(): Promise<Tab> {
     if (this.mode === 'browserless') return null;
 
@@ -553,6 +650,8 @@ export default class Session
 
     await this.closeTabs();
     await this.agent.close();
+    this.networkFixture?.close();
+    this.downloads.close();
 
     log.stats('Session.Closed', {
       sessionId: this.id,
@@ -572,6 +671,16 @@ export default class Session
     LogEvents.unsubscribe(this.logSubscriptionId);
     loggerSessionIdNames.delete(this.id);
     this.db.flush();
+    try {
+      SessionsDb.find().indexSession(this.db);
+    } catch (error) {
+      log.warn('Session.IndexSessionError', { error, sessionId: this.id });
+    }
+    try {
+      await this.networkCassette?.save(this.db);
+    } catch (error) {
+      log.error('Session.SaveNetworkCassetteError', { error, sessionId: this.id });
+    }
 
     this.removeAllListeners();
     const databasePath = `${SessionDb.databaseDir}/${this.id}.db`;
@@ -665,6 +774,9 @@ export default class Session
   }
 
   private onResource(event: BrowserContext['resources']['EventTypes']['change']): void {
+    const interceptAction = this.tabsById
+      .get(event.tabId)
+      ?.requestInterceptor.getAction(event.requestProcessingDetails.browserRequestId);
     this.db.resources.insert(
       event.tabId,
       event.resource,
@@ -672,7 +784,11 @@ export default class Session
       event.body,
       event.requestProcessingDetails,
       event.error,
+      interceptAction,
     );
+    if (!event.type.includes('request')) {
+      this.emit('resource', { resource: event.resource, bodyBytes: event.body?.length ?? 0 });
+    }
     // don't broadcast intercepted resources
     if (event.type === 'mitm-response' && !event.requestProcessingDetails.wasIntercepted) {
       this.tabsById.get(event.tabId)?.emit('resource', event.resource);
@@ -682,10 +798,12 @@ export default class Session
   private onWebsocketMessage(
     event: BrowserContext['websocketMessages']['EventTypes']['new'],
   ): void {
+    if (!this.db.recordingPolicy.shouldRecord('websocketMessages')) return;
     this.db.websocketMessages.insert(event.lastCommandId, event.message);
   }
 
   private onCookieChange(event: BrowserContext['resources']['EventTypes']['cookie-change']): void {
+    if (!this.db.recordingPolicy.shouldRecord('storageChanges')) return;
     this.db.storageChanges.insert(event.tabId, event.frameId, {
       type: 'cookie' as any,
       action: event.action as any,
@@ -717,14 +835,21 @@ export default class Session
     event: BrowserContext['resources']['EventTypes']['browser-requested'],
   ): void {
     this.db.resources.updateBrowserRequestId(event.resourceId, event);
+    // mitm resources can be recorded before the browser request (and its intercept) is matched
+    const interceptAction = this.tabsById
+      .get(event.tabId)
+      ?.requestInterceptor.getAction(event.browserRequestId);
+    if (interceptAction) this.db.resources.updateInterceptAction(event.resourceId, interceptAction);
   }
 
   private onDevtoolsMessage(event: DevtoolsSessionLogger['EventTypes']['devtools-message']): void {
+    if (!this.db.recordingPolicy.shouldRecord('devtoolsMessages')) return;
     this.db.devtoolsMessages.insert(event);
   }
 
   private onResourceStates(event: IResourceStateChangeEvent): void {
     if (!this.browserContext.resources.isCollecting) return;
+    if (!this.db.recordingPolicy.shouldRecord('resourceStates')) return;
     this.db.resourceStates.insert(event.context.id, event.context.stateChanges);
   }
 
@@ -847,6 +972,7 @@ ${data}`,
 
   public static async create(
     options: ISessionCreateOptions,
+    isInProcessClient = false,
   ): Promise<{ session: Session; tab: Tab; isSessionResume: boolean }> {
     let session: Session;
     let tab: Tab;
@@ -872,6 +998,7 @@ ${data}`,
     if (!session) {
       await Core.start();
       session = new Session(options);
+      session.isInProcessClient = isInProcessClient;
 
       await session.openBrowser();
     }
@@ -0,0 +1,216 @@
+import * as Fs from 'fs';
+import Log from '@ulixee/commons/lib/Logger';
+import { TypedEventEmitter } from '@ulixee/commons/lib/eventUtils';
+import { ISessionRetentionOptions } from '@ulixee/hero-interfaces/ICoreConfigureOptions';
+import SessionDb from '../dbs/SessionDb';
+import SessionsDb from '../dbs/SessionsDb';
+import Session from './Session';
+import Downloads from './Downloads';
+
+const { log } = Log(module);
+
+export default class SessionRetention extends TypedEventEmitter<{
+  'session-pruned': ISessionPrunedEvent;
+  'session-retention-finished': ISessionRetentionResult;
+}> {
+  public static defaultIntervalMs = 60 * 60e3;
+
+  public get isEnabled(): boolean {
+    const { maxAgeMs, maxTotalBytes, maxSessionCount } = this.options;
+    return !!(maxAgeMs || maxTotalBytes || maxSessionCount);
+  }
+
+  private interval: NodeJS.Timer;
+  private isRunning: Promise<ISessionRetentionResult>;
+
+  constructor(readonly options: ISessionRetentionOptions = {}) {
+    super();
+  }
+
+  public start(): void {
+    if (!this.isEnabled) return;
+
+    this.run().catch(error => log.error('SessionRetention.RunError', { error, sessionId: null }));
+    clearInterval(this.interval);
+    this.interval = setInterval(
+      () =>
+        this.run().catch(error =>
+          log.error('SessionRetention.RunError', { error, sessionId: null }),
+        ),
+      this.options.intervalMs ?? SessionRetention.defaultIntervalMs,
+    ).unref();
+  }
+
+  public async stop(): Promise<void> {
+    clearInterval(this.interval);
+    this.interval = null;
+    await this.isRunning?.catch(() => null);
+  }
+
+  public run(): Promise<ISessionRetentionResult> {
+    this.isRunning ??= this.prune().finally(() => (this.isRunning = null));
+    return this.isRunning;
+  }
+
+  private async prune(): Promise<ISessionRetentionResult> {
+    const { maxAgeMs, maxTotalBytes, maxSessionCount } = this.options;
+    const result: ISessionRetentionResult = {
+      prunedSessionIds: [],
+      bytesFreed: 0,
+      remainingSessionCount: 0,
+      remainingBytes: 0,
+    };
+
+    const candidates = await this.getSessionFiles();
+    // newest sessions fill the limits first, so the oldest ones get pruned
+    candidates.sort((a, b) => b.startDate - a.startDate);
+
+    const now = Date.now();
+    let totalBytes = 0;
+    let sessionCount = 0;
+    for (const candidate of candidates) {
+      totalBytes += candidate.bytes;
+      sessionCount += 1;
+
+      let reason: ISessionPrunedEvent['reason'];
+      if (maxAgeMs && now - candidate.startDate > maxAgeMs) reason = 'maxAge';
+      else if (maxSessionCount && sessionCount > maxSessionCount) reason = 'maxSessionCount';
+      else if (maxTotalBytes && totalBytes > maxTotalBytes) reason = 'maxTotalBytes';
+
+      if (!reason || this.shouldKeep(candidate)) continue;
+
+      try {
+        await this.deleteSession(candidate);
+      } catch (error) {
+        log.warn('SessionRetention.DeleteSessionError', { error, sessionId: candidate.id });
+        continue;
+      }
+      totalBytes -= candidate.bytes;
+      sessionCount -= 1;
+      result.prunedSessionIds.push(candidate.id);
+      result.bytesFreed += candidate.bytes;
+
+      this.emit('session-pruned', {
+        sessionId: candidate.id,
+        databasePath: candidate.databasePath,
+        bytes: candidate.bytes,
+        startDate: candidate.startDate,
+        reason,
+      });
+    }
+
+    result.remainingSessionCount = sessionCount;
+    result.remainingBytes = totalBytes;
+    if (result.prunedSessionIds.length) {
+      log.info('SessionRetention.pruned', { ...result, sessionId: null });
+    }
+    this.emit('session-retention-finished', result);
+    return result;
+  }
+
+  private shouldKeep(candidate: ISessionFile): boolean {
+    const { keepSessionsWithErrors, keepSessionsWithOutputs } = this.options;
+    if (keepSessionsWithErrors && candidate.errorCount > 0) return true;
+    if (keepSessionsWithOutputs && candidate.outputCount > 0) return true;
+    return false;
+  }
+
+  private async deleteSession(candidate: ISessionFile): Promise<void> {
+    for (const suffix of ['', '-wal', '-shm']) {
+      await Fs.promises.rm(`${candidate.databasePath}${suffix}`, { force: true });
+    }
+    await Fs.promises.rm(Downloads.getSessionPath(candidate.id), { recursive: true, force: true });
+    SessionsDb.find().deleteSession(candidate.id);
+  }
+
+  private async getDownloadBytes(sessionId: string): Promise<number> {
+    const downloadsPath = Downloads.getSessionPath(sessionId);
+    const files = await Fs.promises.readdir(downloadsPath).catch(() => [] as string[]);
+    let bytes = 0;
+    for (const file of files) {
+      const stats = await Fs.promises.stat(`${downloadsPath}/${file}`).catch(() => null);
+      bytes += stats?.size ?? 0;
+    }
+    return bytes;
+  }
+
+  private async getSessionFiles(): Promise<ISessionFile[]> {
+    const databaseDir = SessionDb.databaseDir;
+    let files: string[];
+    try {
+      files = await Fs.promises.readdir(databaseDir);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const sessionsDb = SessionsDb.find();
+    const needsIndexCounts =
+      this.options.keepSessionsWithErrors || this.options.keepSessionsWithOutputs;
+
+    const sessionFiles: ISessionFile[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.db')) continue;
+      const id = file.replace('.db', '');
+      // never remove sessions that are still running
+      if (Session.get(id)) continue;
+
+      const databasePath = `${databaseDir}/${file}`;
+      let bytes = 0;
+      let modifiedDate: number;
+      for (const suffix of ['', '-wal', '-shm']) {
+        const stats = await Fs.promises.stat(`${databasePath}${suffix}`).catch(() => null);
+        if (!stats) continue;
+        bytes += stats.size;
+        modifiedDate ??= stats.mtimeMs;
+      }
+      // file was removed while listing
+      if (modifiedDate === undefined) continue;
+      bytes += await this.getDownloadBytes(id);
+
+      let record = sessionsDb.sessionSearchIndex.get(id);
+      if (!record && needsIndexCounts) {
+        // sessions recorded before the search index existed need to be indexed to check for errors
+        try {
+          record = sessionsDb.indexSessionFile(id);
+        } catch (error) {
+          log.warn('SessionRetention.IndexSessionError', { error, sessionId: id });
+        }
+      }
+
+      sessionFiles.push({
+        id,
+        databasePath,
+        bytes,
+        startDate: record?.startDate ?? modifiedDate,
+        errorCount: record?.errorCount ?? 0,
+        outputCount: record?.outputCount ?? 0,
+      });
+    }
+    return sessionFiles;
+  }
+}
+
+interface ISessionFile {
+  id: string;
+  databasePath: string;
+  bytes: number;
+  startDate: number;
+  errorCount: number;
+  outputCount: number;
+}
+
+export interface ISessionPrunedEvent {
+  sessionId: string;
+  databasePath: string;
+  bytes: number;
+  startDate: number;
+  reason: 'maxAge' | 'maxSessionCount' | 'maxTotalBytes';
+}
+
+export interface ISessionRetentionResult {
+  prunedSessionIds: string[];
+  bytesFreed: number;
+  remainingSessionCount: number;
+  remainingBytes: number;
+}
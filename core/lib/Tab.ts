@@ -10,7 +10,8 @@ import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEve
 import { TypedEventEmitter } from '@ulixee/commons/lib/eventUtils';
 import { IBoundLog } from '@ulixee/commons/interfaces/ILog';
 import IWaitForOptions from '@ulixee/hero-interfaces/IWaitForOptions';
-import IScreenshotOptions from '@ulixee/unblocked-specification/agent/browser/IScreenshotOptions';
+import { ICoreScreenshotOptions } from '@ulixee/hero-interfaces/IScreenshotOptions';
+import IRect from '@ulixee/unblocked-specification/agent/browser/IRect';
 import { IJsPath } from '@ulixee/js-path';
 import { IInteractionGroups } from '@ulixee/unblocked-specification/agent/interact/IInteractions';
 import IExecJsPathResult from '@ulixee/unblocked-specification/agent/browser/IExecJsPathResult';
@@ -22,6 +23,8 @@ import {
 import IFrameMeta from '@ulixee/hero-interfaces/IFrameMeta';
 import IDialog from '@ulixee/unblocked-specification/agent/browser/IDialog';
 import IFileChooserPrompt from '@ulixee/unblocked-specification/agent/browser/IFileChooserPrompt';
+import IDownload from '@ulixee/hero-interfaces/IDownload';
+import IPdfOptions, { IPdfPaperFormat } from '@ulixee/hero-interfaces/IPdfOptions';
 import ICommandMeta from '@ulixee/hero-interfaces/ICommandMeta';
 import ISessionMeta from '@ulixee/hero-interfaces/ISessionMeta';
 import Resolvable from '@ulixee/commons/lib/Resolvable';
@@ -35,29 +38,56 @@ import MirrorNetwork from '@ulixee/hero-timetravel/lib/MirrorNetwork';
 import IResourceSummary from '@ulixee/hero-interfaces/IResourceSummary';
 import ISourceCodeLocation from '@ulixee/commons/interfaces/ISourceCodeLocation';
 import IDetachedResource from '@ulixee/hero-interfaces/IDetachedResource';
+import { IInterceptAction } from '@ulixee/hero-interfaces/IInterceptedRequest';
+import IFlowHandlerOptions, {
+  IFlowHandlerEvaluation,
+  IFlowHandlerUnregisterReason,
+} from '@ulixee/hero-interfaces/IFlowHandlerOptions';
+import IBlockedResources, {
+  IBlockedResourceStats,
+} from '@ulixee/hero-interfaces/IBlockedResources';
 import BrowserContext from '@ulixee/unblocked-agent/lib/BrowserContext';
 import FrameNavigations from '@ulixee/unblocked-agent/lib/FrameNavigations';
 import FrameNavigationsObserver from '@ulixee/unblocked-agent/lib/FrameNavigationsObserver';
 import Page from '@ulixee/unblocked-agent/lib/Page';
 import { IWebsocketMessage } from '@ulixee/unblocked-agent/lib/WebsocketMessages';
 import { injectedSourceUrl } from '@ulixee/default-browser-emulator/lib/DomOverridesBuilder';
+import stringToRegex from '@ulixee/hero-plugin-utils/lib/utils/stringToRegex';
 import CommandRecorder from './CommandRecorder';
 import FrameEnvironment from './FrameEnvironment';
 import InjectedScripts from './InjectedScripts';
+import PngImage from './PngImage';
 import Session from './Session';
 import { IDomChangeRecord } from '../models/DomChangesTable';
 import { ICommandableTarget } from './CommandRunner';
 import DomStateListener from './DomStateListener';
+import RequestInterceptor from './RequestInterceptor';
 import ScreenshotsTable from '../models/ScreenshotsTable';
 import { IStorageChangesEntry } from '../models/StorageChangesTable';
 import { IRemoteEmitFn, IRemoteEventListener } from '../interfaces/IRemoteEventListener';
 import { IMouseEventRecord } from '../models/MouseEventsTable';
 import { IScrollRecord } from '../models/ScrollEventsTable';
 import { IFocusRecord } from '../models/FocusEventsTable';
+import { IFlowHandlerRecord } from '../models/FlowHandlersTable';
 import Core from '../index';
 
 const { log } = Log(module);
 
+// width and height in inches
+const pdfPaperSizes: Record<IPdfPaperFormat, [number, number]> = {
+  Letter: [8.5, 11],
+  Legal: [8.5, 14],
+  Tabloid: [11, 17],
+  Ledger: [17, 11],
+  A0: [33.1, 46.8],
+  A1: [23.4, 33.1],
+  A2: [16.54, 23.4],
+  A3: [11.7, 16.54],
+  A4: [8.27, 11.7],
+  A5: [5.83, 8.27],
+  A6: [4.13, 5.83],
+};
+
 export default class Tab
   extends TypedEventEmitter<ITabEventParams>
   implements ISessionMeta, ICommandableTarget, IRemoteEventListener
@@ -74,6 +104,7 @@ export default class Tab
   public isClosing = false;
   public isReady: Promise<void>;
   public readonly mirrorPage: MirrorPage;
+  public readonly requestInterceptor: RequestInterceptor;
 
   protected readonly logger: IBoundLog;
   private readonly mirrorNetwork: MirrorNetwork;
@@ -93,6 +124,9 @@ export default class Tab
     [domStateJsPathId: string]: DomStateListener;
   } = {};
 
+  private readonly flowHandlersById = new Map<number, IFlowHandlerRecord>();
+  private isCapturingMaskedScreenshot = false;
+
   public get navigations(): FrameNavigations {
     return this.mainFrameEnvironment.navigations;
   }
@@ -150,12 +184,16 @@ export default class Tab
       loadResourceDetails: MirrorNetwork.loadResourceFromDb.bind(MirrorNetwork, this.session.db),
     });
     this.mirrorPage = this.createMirrorPage();
+    this.requestInterceptor = new RequestInterceptor(this);
 
     this.listen();
     this.isReady = this.waitForReady();
     this.commandRecorder = new CommandRecorder(this, this.session, this.id, this.mainFrameId, [
       this.focus,
       this.dismissDialog,
+      this.resolveIntercept,
+      this.setBlockedResources,
+      this.getBlockedResourceStats,
       this.findResource,
       this.findResources,
       this.getFrameEnvironments,
@@ -165,10 +203,14 @@ export default class Tab
       this.reload,
       this.assert,
       this.takeScreenshot,
+      this.printToPdf,
       this.detachResource,
       this.registerFlowHandler,
+      this.unregisterFlowHandler,
+      this.recordFlowHandlerEvaluations,
       this.registerFlowCommand,
       this.waitForFileChooser,
+      this.waitForDownload,
       this.waitForMillis,
       this.waitForNewTab,
       this.waitForResources,
@@ -198,7 +240,8 @@ export default class Tab
     return (
       this.commandRecorder.fnNames.has(method) ||
       method === 'close' ||
-      method === 'getResourceProperty'
+      method === 'getResourceProperty' ||
+      method === 'getDownloadBuffer'
     );
   }
 
@@ -240,6 +283,14 @@ export default class Tab
     interceptor.urls = blockedUrls;
   }
 
+  public setBlockedResources(options: IBlockedResources): Promise<void> {
+    return this.requestInterceptor.setBlockedResources(options);
+  }
+
+  public getBlockedResourceStats(): Promise<IBlockedResourceStats> {
+    return Promise.resolve(this.requestInterceptor.getBlockedResourceStats());
+  }
+
   public async close(): Promise<void> {
     if (this.isClosing) return;
     this.isClosing = true;
@@ -267,6 +318,7 @@ export default class Tab
     try {
       const cancelMessage = 'Terminated command because session closing';
       Timer.expireAll(this.waitTimeouts, new CanceledPromiseError(cancelMessage));
+      this.requestInterceptor.close();
       for (const frame of this.frameEnvironmentsById.values()) {
         frame.close();
       }
@@ -551,15 +603,118 @@ export default class Tab
     return detachedElement;
   }
 
-  public takeScreenshot(options: IScreenshotOptions = {}): Promise<Buffer> {
-    if (options.rectangle) options.rectangle.scale ??= 1;
-    return this.page.screenshot(options);
+  public async takeScreenshot(options: ICoreScreenshotOptions = {}): Promise<Buffer> {
+    const { element, mask, maskStyle, ...screenshotOptions } = options;
+    if (element) {
+      const frameEnvironment = this.getFrameEnvironment(element.frameId);
+      if (!frameEnvironment) throw new Error(`No frame found with id "${element.frameId}"`);
+
+      // screenshots are clipped to the viewport, so bring the element into view first
+      await frameEnvironment.interact([{ command: 'scroll', mousePosition: element.jsPath }]);
+      const { value: rect } = await frameEnvironment.frame.jsPath.getClientRect(element.jsPath);
+      if (!rect?.width || !rect?.height) {
+        throw new Error('The element to screenshot is not rendered on the page.');
+      }
+      screenshotOptions.fullPage = false;
+      screenshotOptions.rectangle = {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+        scale: 1,
+      };
+    }
+    if (screenshotOptions.rectangle) screenshotOptions.rectangle.scale ??= 1;
+
+    if (!mask?.length) return await this.page.screenshot(screenshotOptions);
+
+    // masks are painted onto the captured image so the page itself is never touched
+    const viewport = await this.mainFrameEnvironment.runIsolatedFn<{
+      scrollX: number;
+      scrollY: number;
+      devicePixelRatio: number;
+    }>(`${InjectedScripts.ScreenshotMasker}.getViewport`);
+    const maskRects = await this.getScreenshotMaskRects(mask);
+
+    // the unmasked capture must not be recorded to the session db
+    this.isCapturingMaskedScreenshot = true;
+    let image: PngImage;
+    try {
+      image = PngImage.decode(await this.page.screenshot({ ...screenshotOptions, format: 'png' }));
+    } finally {
+      this.isCapturingMaskedScreenshot = false;
+    }
+
+    // viewport coordinates of the top left corner of the image
+    const origin = { x: -viewport.scrollX, y: -viewport.scrollY };
+    if (!screenshotOptions.fullPage) {
+      origin.x = Math.max(0, screenshotOptions.rectangle?.x ?? 0);
+      origin.y = Math.max(0, screenshotOptions.rectangle?.y ?? 0);
+    }
+    const pixelRatio = viewport.devicePixelRatio;
+    for (const rect of maskRects) {
+      const area = {
+        x: (rect.x - origin.x) * pixelRatio,
+        y: (rect.y - origin.y) * pixelRatio,
+        width: rect.width * pixelRatio,
+        height: rect.height * pixelRatio,
+      };
+      if (maskStyle === 'fill') image.fill(area, [0, 0, 0, 255]);
+      else image.pixelate(area, 16 * pixelRatio, { rgb: [127, 127, 127], alpha: 0.3 });
+    }
+
+    const masked = image.toBuffer();
+    this.onScreenshot({ imageBase64: masked.toString('base64'), timestamp: Date.now() });
+    return masked;
+  }
+
+  public async printToPdf(options: IPdfOptions = {}): Promise<Buffer> {
+    const { name, format, margins, headerTemplate, footerTemplate, ...printOptions } = options;
+    const paperSize = pdfPaperSizes[format ?? 'Letter'];
+    if (!paperSize) throw new Error(`Unknown pdf format "${format}"`);
+
+    // NOTE: chrome can only print to pdf when running headless
+    const { data } = await this.page.devtoolsSession.send('Page.printToPDF', {
+      landscape: printOptions.landscape,
+      printBackground: printOptions.printBackground,
+      scale: printOptions.scale,
+      pageRanges: printOptions.pageRanges,
+      paperWidth: printOptions.width ?? paperSize[0],
+      paperHeight: printOptions.height ?? paperSize[1],
+      marginTop: margins?.top,
+      marginBottom: margins?.bottom,
+      marginLeft: margins?.left,
+      marginRight: margins?.right,
+      displayHeaderFooter: !!headerTemplate || !!footerTemplate,
+      // chrome prints a default header and footer if only one is provided
+      headerTemplate: headerTemplate ?? '<span></span>',
+      footerTemplate: footerTemplate ?? '<span></span>',
+      preferCSSPageSize: false,
+    });
+    const pdf = Buffer.from(data, 'base64');
+
+    if (name) {
+      const asset = this.session.db.detachedPdfs.insert(
+        this.id,
+        name,
+        pdf,
+        Date.now(),
+        this.lastCommandId,
+      );
+      this.session.emit('collected-asset', { type: 'pdf', asset });
+    }
+    return pdf;
   }
 
   public async dismissDialog(accept: boolean, promptText?: string): Promise<void> {
     return await this.page.dismissDialog(accept, promptText);
   }
 
+  public resolveIntercept(interceptId: string, action: IInterceptAction): Promise<void> {
+    this.requestInterceptor.resolve(interceptId, action);
+    return Promise.resolve();
+  }
+
   public async waitForNewTab(options: IWaitForOptions = {}): Promise<Tab> {
     // last command is the one running right now
     const startCommandId = Number.isInteger(options.sinceCommandId)
@@ -669,6 +824,27 @@ export default class Tab
     return event.prompt;
   }
 
+  public async waitForDownload(options?: IWaitForOptions): Promise<IDownload> {
+    let startCommandId =
+      options?.sinceCommandId && Number.isInteger(options.sinceCommandId)
+        ? options.sinceCommandId
+        : null;
+
+    if (!startCommandId && this.session.commands.length >= 2) {
+      startCommandId = this.session.commands.history[this.session.commands.length - 2]?.id;
+    }
+
+    const downloads = this.session.downloads.getForTab(this.id);
+    const download = downloads.filter(x => x.commandId >= startCommandId).pop();
+    if (download) return download;
+
+    return await this.waitOn('download', null, options?.timeoutMs ?? 30e3);
+  }
+
+  public getDownloadBuffer(downloadId: string, timeoutMs?: number): Promise<Buffer> {
+    return this.session.downloads.getBuffer(downloadId, timeoutMs);
+  }
+
   public waitForMillis(millis: number): Promise<void> {
     return new Timer(millis, this.waitTimeouts).waitForTimeout();
   }
@@ -711,6 +887,7 @@ export default class Tab
     frameId?: number,
     sinceCommandId?: number,
   ): Promise<IDomChangeRecord[]> {
+    this.session.db.recordingPolicy.assertRecorded(this.sessionId, 'getDomChanges', 'domChanges');
     await this.mainFrameEnvironment.flushPageEventsRecorder();
     this.session.db.flush();
 
@@ -721,13 +898,42 @@ export default class Tab
     name: string,
     id: number,
     callsitePath: ISourceCodeLocation,
+    options?: IFlowHandlerOptions & { flowCommandId?: number },
   ): Promise<void> {
-    this.session.db.flowHandlers.insert({
+    const urlPattern = options?.urlPattern;
+    const record: IFlowHandlerRecord = {
       name,
       id,
       tabId: this.id,
       callsite: JSON.stringify(callsitePath),
-    });
+      urlPattern: urlPattern instanceof RegExp ? urlPattern.toString() : urlPattern,
+      maxTriggers: options?.maxTriggers,
+      priority: options?.priority ?? 0,
+      exclusive: options?.exclusive ?? true,
+      flowCommandId: options?.flowCommandId,
+      registeredCommandId: this.session.commands.lastId,
+    };
+    this.flowHandlersById.set(id, record);
+    this.session.db.flowHandlers.insert(record);
+    return Promise.resolve();
+  }
+
+  public unregisterFlowHandler(id: number, reason: IFlowHandlerUnregisterReason): Promise<void> {
+    const record = this.flowHandlersById.get(id);
+    if (!record || record.unregisteredCommandId) return Promise.resolve();
+
+    record.unregisteredCommandId = this.session.commands.lastId;
+    record.unregisterReason = reason;
+    this.session.db.flowHandlers.insert(record);
+    return Promise.resolve();
+  }
+
+  public recordFlowHandlerEvaluations(evaluations: IFlowHandlerEvaluation[]): Promise<void> {
+    const commandId = this.session.commands.lastId;
+    for (const evaluation of evaluations) {
+      if (!this.flowHandlersById.has(evaluation.flowHandlerId)) continue;
+      this.session.db.flowHandlerEvaluations.insert({ ...evaluation, tabId: this.id, commandId });
+    }
     return Promise.resolve();
   }
 
@@ -753,7 +959,7 @@ export default class Tab
   }
 
   public addRemoteEventListener(
-    type: 'message' | 'dom-state' | keyof Tab['EventTypes'],
+    type: 'message' | 'dom-state' | 'intercept' | 'progress' | keyof Tab['EventTypes'],
     emitFn: IRemoteEmitFn,
     jsPath?: IJsPath,
     options?: any,
@@ -769,10 +975,24 @@ export default class Tab
       process.nextTick(() =>
         this.session.websocketMessages.listen(Number(resourceId), listener.listenFn),
       );
+    } else if (type === 'progress') {
+      const [domain, downloadId] = jsPath;
+      if (domain !== 'downloads') {
+        throw new Error(`Unknown "progress" type requested in JsPath - ${domain}`);
+      }
+      this.session.downloads.listen(String(downloadId), listener.listenFn);
     } else if (type === 'dom-state') {
       const id = JSON.stringify(jsPath);
       const domStateListener = this.addDomStateListener(id, options);
       this.events.on(domStateListener, 'updated', listener.listenFn);
+    } else if (type === 'intercept') {
+      const [domain] = jsPath ?? [];
+      if (domain !== 'intercepts') {
+        throw new Error(`Unknown "intercept" type requested in JsPath - ${domain}`);
+      }
+      return this.requestInterceptor
+        .addHandler(listener.id, options?.filter, listener.listenFn)
+        .then(() => ({ listenerId: listener.id }));
     } else {
       this.on(type, listener.listenFn);
     }
@@ -791,10 +1011,19 @@ export default class Tab
         this.session.websocketMessages.unlisten(Number(resourceId), listenFn);
       }
 
+      if (type === 'progress') {
+        const [, downloadId] = jsPath;
+        this.session.downloads.unlisten(String(downloadId), listenFn);
+      }
+
       if (type === 'dom-state') {
         const id = JSON.stringify(jsPath);
         this.domStateListenersByJsPathId[id]?.stop(options);
       }
+
+      if (type === 'intercept') {
+        this.requestInterceptor.removeHandler(listenerId);
+      }
     } else {
       this.off(type as any, listenFn);
     }
@@ -814,6 +1043,26 @@ export default class Tab
     } as ISessionMeta; // must adhere to session meta spec
   }
 
+  // viewport coordinates of the elements to mask in every frame of the page
+  private async getScreenshotMaskRects(selectors: string[]): Promise<IRect[]> {
+    const rects: IRect[] = [];
+    for (const frameEnvironment of this.frameEnvironmentsById.values()) {
+      if (!frameEnvironment.isAttached) continue;
+
+      const frameRects = await frameEnvironment.runIsolatedFn<IRect[]>(
+        `${InjectedScripts.ScreenshotMasker}.getRects`,
+        selectors,
+      );
+      if (!frameRects.length) continue;
+
+      const offset = await frameEnvironment.frame.getContainerOffset();
+      for (const rect of frameRects) {
+        rects.push({ ...rect, x: rect.x + offset.x, y: rect.y + offset.y });
+      }
+    }
+    return rects;
+  }
+
   private async waitForReady(): Promise<void> {
     await this.mainFrameEnvironment.isReady;
     if (this.session.options?.blockedResourceTypes) {
@@ -913,21 +1162,25 @@ export default class Tab
   }
 
   private onScreenshot(event: IPageEvents['screenshot']): void {
+    if (this.isCapturingMaskedScreenshot) return;
     if (
       !this.session.db.screenshots.includeWhiteScreens &&
       ScreenshotsTable.isBlankImage(event.imageBase64)
     ) {
       return;
     }
+    if (!this.session.db.recordingPolicy.shouldRecord('screenshots')) return;
 
     this.session.db.screenshots.insert({
       tabId: this.id,
       image: Buffer.from(event.imageBase64, 'base64'),
       timestamp: event.timestamp,
+      commandId: this.lastCommandId,
     });
   }
 
   private onStorageUpdated(event: Page['EventTypes']['dom-storage-updated']): void {
+    if (!this.session.db.recordingPolicy.shouldRecord('storageChanges')) return;
     this.session.db.storageChanges.insert(this.id, null, event);
   }
 
@@ -944,6 +1197,7 @@ export default class Tab
   private onPageError(event: IPageEvents['page-error']): void {
     const { error, frameId } = event;
     this.logger.info('Window.pageError', { error, frameId });
+    if (!this.session.db.recordingPolicy.shouldRecord('pageLogs')) return;
     this.session.db.pageLogs.insert(
       this.id,
       frameId,
@@ -961,6 +1215,7 @@ export default class Tab
       level = 'error';
     }
     this.logger[level]('Window.console', { message });
+    if (!this.session.db.recordingPolicy.shouldRecord('pageLogs')) return;
     this.session.db.pageLogs.insert(this.id, frameId, type, message, new Date(), location);
   }
 
@@ -969,6 +1224,7 @@ export default class Tab
 
     const errorLevel = event.fatal ? 'error' : 'info';
     this.logger[errorLevel]('BrowserEngine.Tab.crashed', { error });
+    if (!this.session.db.recordingPolicy.shouldRecord('pageLogs')) return;
     this.session.db.pageLogs.insert(
       this.id,
       this.mainFrameId,
@@ -1013,6 +1269,7 @@ export interface ITabEventParams {
   'child-tab-created': Tab;
   close: null;
   dialog: IDialog;
+  download: IDownload;
   'page-events': {
     frame: FrameEnvironment;
     records: {
@@ -1028,7 +1285,4 @@ export interface ITabEventParams {
   'websocket-message': IWebsocketMessage;
 }
 
-export function stringToRegex(str: string): RegExp {
-  const escaped = str.replace(/\/\*/g, '/.*').replace(/[-[/\]{}()+?.,\\^$|#\s]/g, '\\$&');
-  return new RegExp(escaped);
-}
+export { default as stringToRegex } from '@ulixee/hero-plugin-utils/lib/utils/stringToRegex';
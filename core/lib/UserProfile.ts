@@ -8,6 +8,7 @@ import Page from '@ulixee/unblocked-agent/lib/Page';
 import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEvent';
 import Session from './Session';
 import InjectedScripts from './InjectedScripts';
+import NetworkInterceptorChain from './NetworkInterceptorChain';
 
 const { log } = Log(module);
 
@@ -106,13 +107,14 @@ export default class UserProfile {
     const browserContext = session.browserContext;
     const isSecure = origins.some(x => x.startsWith('https://'));
     const storageRestoreDomain = `http${isSecure ? 's' : ''}://restore-hero-dom.org`;
+    const interceptorChain = NetworkInterceptorChain.for(page);
     try {
       browserContext.resources.isCollecting = false;
       page.storeEventsWithoutListeners = false;
       page.runPageScripts = true;
 
       // eslint-disable-next-line require-await,@typescript-eslint/require-await
-      await page.networkManager.setNetworkInterceptor(async ({ request, requestId }) => {
+      const restoreStorage = async ({ request, requestId }): Promise<any> => {
         const url = new URL(request.url);
 
         if (url.href.includes(storageRestoreDomain)) {
@@ -171,7 +173,8 @@ ${script}
 </body></html>`,
           ).toString('base64'),
         };
-      }, true);
+      };
+      await interceptorChain.add(restoreStorage, true);
 
       // clear out frame state
       await page.navigate(storageRestoreDomain);
@@ -208,8 +211,7 @@ ${script}
       page.mainFrame.navigations.reset();
 
       // clear out frame state
-      await page.networkManager.setNetworkInterceptor(null, false);
-      await page.networkManager.initialize();
+      await interceptorChain.remove(restoreStorage);
       await page.navigate('about:blank');
       await page.mainFrame.waitForLifecycleEvent('load');
       page.storeEventsWithoutListeners = true;
@@ -24,6 +24,7 @@ export default class CommandsTable extends SqliteTable<ICommandMeta> {
         ['result', 'TEXT'],
         ['resultType', 'TEXT'],
         ['callsite', 'TEXT'],
+        ['liveQueryResolution', 'TEXT'],
       ],
       true,
     );
@@ -49,6 +50,7 @@ export default class CommandsTable extends SqliteTable<ICommandMeta> {
       TypeSerializer.stringify(commandMeta.result),
       commandMeta.resultType,
       commandMeta.callsite ? JSON.stringify(commandMeta.callsite) : undefined,
+      commandMeta.liveQueryResolution ? JSON.stringify(commandMeta.liveQueryResolution) : undefined,
     ]);
   }
 }
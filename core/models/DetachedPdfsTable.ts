@@ -0,0 +1,35 @@
+import { Database as SqliteDatabase } from 'better-sqlite3';
+import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+import IDetachedPdf from '@ulixee/hero-interfaces/IDetachedPdf';
+
+export default class DetachedPdfsTable extends SqliteTable<IDetachedPdf> {
+  constructor(db: SqliteDatabase) {
+    super(db, 'DetachedPdfs', [
+      ['name', 'TEXT'],
+      ['tabId', 'INTEGER'],
+      ['timestamp', 'DATETIME'],
+      ['commandId', 'INTEGER'],
+      ['pdf', 'BLOB'],
+    ]);
+  }
+
+  public getByName(name: string): IDetachedPdf[] {
+    return this.db.prepare(`select * from ${this.tableName} where name=:name`).all({ name });
+  }
+
+  public allNames(): string[] {
+    const names = this.db.prepare(`select name from ${this.tableName}`).all();
+    return [...new Set(names.map(x => x.name))];
+  }
+
+  public insert(
+    tabId: number,
+    name: string,
+    pdf: Buffer,
+    timestamp: number,
+    commandId: number,
+  ): IDetachedPdf {
+    this.queuePendingInsert([name, tabId, timestamp, commandId, pdf]);
+    return { name, tabId, timestamp, commandId, pdf };
+  }
+}
@@ -60,25 +60,7 @@ export default class DomChangesTable extends SqliteTable<IDomChangeRecord> {
       timestamp,
     ];
     this.queuePendingInsert(record);
-    return {
-      frameId,
-      documentNavigationId,
-      eventIndex,
-      action,
-      nodeId: nodeData.id,
-      nodeType: nodeData.nodeType,
-      tagName: nodeData.tagName,
-      previousSiblingId: nodeData.previousSiblingId,
-      parentNodeId: nodeData.parentNodeId,
-      textContent: nodeData.textContent,
-      attributes: nodeData.attributes,
-      attributeNamespaces: nodeData.attributeNamespaces,
-      properties: nodeData.properties,
-      namespaceUri: nodeData.namespaceUri,
-      commandId,
-      tabId,
-      timestamp,
-    };
+    return DomChangesTable.toRecord(tabId, frameId, documentNavigationId, commandId, change);
   }
 
   public override all(): IDomChangeRecord[] {
@@ -109,6 +91,35 @@ export default class DomChangesTable extends SqliteTable<IDomChangeRecord> {
     return query.all(navigationId).map(DomChangesTable.inflateRecord);
   }
 
+  public static toRecord(
+    tabId: number,
+    frameId: number,
+    documentNavigationId: number,
+    commandId: number,
+    change: IDomChangeEvent,
+  ): IDomChangeRecord {
+    const [action, nodeData, timestamp, eventIndex] = change;
+    return {
+      frameId,
+      documentNavigationId,
+      eventIndex,
+      action,
+      nodeId: nodeData.id,
+      nodeType: nodeData.nodeType,
+      tagName: nodeData.tagName,
+      previousSiblingId: nodeData.previousSiblingId,
+      parentNodeId: nodeData.parentNodeId,
+      textContent: nodeData.textContent,
+      attributes: nodeData.attributes,
+      attributeNamespaces: nodeData.attributeNamespaces,
+      properties: nodeData.properties,
+      namespaceUri: nodeData.namespaceUri,
+      commandId,
+      tabId,
+      timestamp,
+    };
+  }
+
   public static inflateRecord(record: IDomChangeRecord): IDomChangeRecord {
     for (const [key, value] of Object.entries(record)) {
       if (value === null) record[key] = undefined;
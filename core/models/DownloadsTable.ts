@@ -0,0 +1,68 @@
+import { Database as SqliteDatabase } from 'better-sqlite3';
+import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+import IDownload, { IDownloadState } from '@ulixee/hero-interfaces/IDownload';
+
+export default class DownloadsTable extends SqliteTable<IDownloadsRecord> {
+  constructor(db: SqliteDatabase) {
+    super(
+      db,
+      'Downloads',
+      [
+        ['id', 'TEXT', 'NOT NULL PRIMARY KEY'],
+        ['tabId', 'INTEGER'],
+        ['frameId', 'INTEGER'],
+        ['commandId', 'INTEGER'],
+        ['url', 'TEXT'],
+        ['suggestedFilename', 'TEXT'],
+        ['mimeType', 'TEXT'],
+        ['path', 'TEXT'],
+        ['state', 'TEXT'],
+        ['totalBytes', 'INTEGER'],
+        ['receivedBytes', 'INTEGER'],
+        ['startDate', 'DATETIME'],
+        ['endDate', 'DATETIME'],
+      ],
+      true,
+    );
+  }
+
+  public get(id: string): IDownloadsRecord {
+    return this.db
+      .prepare(`select * from ${this.tableName} where id=?`)
+      .get(id) as IDownloadsRecord;
+  }
+
+  public insert(download: IDownload): void {
+    this.queuePendingInsert([
+      download.id,
+      download.tabId,
+      download.frameId,
+      download.commandId,
+      download.url,
+      download.suggestedFilename,
+      download.mimeType,
+      download.path,
+      download.state,
+      download.totalBytes,
+      download.receivedBytes,
+      download.startDate,
+      download.endDate,
+    ]);
+  }
+}
+
+export interface IDownloadsRecord {
+  id: string;
+  tabId: number;
+  frameId: number;
+  commandId: number;
+  url: string;
+  suggestedFilename: string;
+  mimeType: string;
+  path: string;
+  state: IDownloadState;
+  totalBytes: number;
+  receivedBytes: number;
+  startDate: number;
+  endDate: number;
+}
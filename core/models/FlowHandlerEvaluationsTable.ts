@@ -0,0 +1,36 @@
+import { Database as SqliteDatabase } from 'better-sqlite3';
+import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+import { IFlowHandlerEvaluation } from '@ulixee/hero-interfaces/IFlowHandlerOptions';
+
+export default class FlowHandlerEvaluationsTable extends SqliteTable<IFlowHandlerEvaluationRecord> {
+  constructor(db: SqliteDatabase) {
+    super(db, 'FlowHandlerEvaluations', [
+      ['flowHandlerId', 'INTEGER'],
+      ['tabId', 'INTEGER'],
+      ['commandId', 'INTEGER'],
+      ['didMatch', 'INTEGER'],
+      ['didRun', 'INTEGER'],
+      ['startTime', 'DATETIME'],
+      ['durationMs', 'INTEGER'],
+      ['error', 'TEXT'],
+    ]);
+  }
+
+  public insert(evaluation: IFlowHandlerEvaluationRecord): void {
+    this.queuePendingInsert([
+      evaluation.flowHandlerId,
+      evaluation.tabId,
+      evaluation.commandId,
+      evaluation.didMatch ? 1 : 0,
+      evaluation.didRun ? 1 : 0,
+      evaluation.startTime,
+      evaluation.durationMs,
+      evaluation.error,
+    ]);
+  }
+}
+
+export interface IFlowHandlerEvaluationRecord extends IFlowHandlerEvaluation {
+  tabId: number;
+  commandId: number;
+}
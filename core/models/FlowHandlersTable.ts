@@ -1,18 +1,45 @@
 import { Database as SqliteDatabase } from 'better-sqlite3';
 import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+import { IFlowHandlerUnregisterReason } from '@ulixee/hero-interfaces/IFlowHandlerOptions';
 
 export default class FlowHandlersTable extends SqliteTable<IFlowHandlerRecord> {
   constructor(db: SqliteDatabase) {
-    super(db, 'FlowHandlers', [
-      ['id', 'INTEGER', 'NOT NULL PRIMARY KEY'],
-      ['tabId', 'INTEGER'],
-      ['name', 'TEXT'],
-      ['callsite', 'TEXT'],
-    ]);
+    super(
+      db,
+      'FlowHandlers',
+      [
+        ['id', 'INTEGER', 'NOT NULL PRIMARY KEY'],
+        ['tabId', 'INTEGER', 'NOT NULL PRIMARY KEY'],
+        ['name', 'TEXT'],
+        ['callsite', 'TEXT'],
+        ['urlPattern', 'TEXT'],
+        ['maxTriggers', 'INTEGER'],
+        ['priority', 'INTEGER'],
+        ['exclusive', 'INTEGER'],
+        ['flowCommandId', 'INTEGER'],
+        ['registeredCommandId', 'INTEGER'],
+        ['unregisteredCommandId', 'INTEGER'],
+        ['unregisterReason', 'TEXT'],
+      ],
+      true,
+    );
   }
 
   public insert(handler: IFlowHandlerRecord): void {
-    this.queuePendingInsert([handler.id, handler.tabId, handler.name, handler.callsite]);
+    this.queuePendingInsert([
+      handler.id,
+      handler.tabId,
+      handler.name,
+      handler.callsite,
+      handler.urlPattern,
+      handler.maxTriggers,
+      handler.priority,
+      handler.exclusive ? 1 : 0,
+      handler.flowCommandId,
+      handler.registeredCommandId,
+      handler.unregisteredCommandId,
+      handler.unregisterReason,
+    ]);
   }
 }
 
@@ -21,4 +48,12 @@ export interface IFlowHandlerRecord {
   tabId: number;
   name?: string;
   callsite: string;
+  urlPattern?: string;
+  maxTriggers?: number;
+  priority?: number;
+  exclusive?: boolean;
+  flowCommandId?: number;
+  registeredCommandId?: number;
+  unregisteredCommandId?: number;
+  unregisterReason?: IFlowHandlerUnregisterReason;
 }
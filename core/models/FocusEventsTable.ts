@@ -23,6 +23,11 @@ export default class FocusEventsTable extends SqliteTable<IFocusRecord> {
     const [event, targetNodeId, relatedTargetNodeId, timestamp] = focusEvent;
     const record = [tabId, frameId, event, targetNodeId, relatedTargetNodeId, timestamp];
     this.queuePendingInsert(record);
+    return FocusEventsTable.toRecord(tabId, frameId, focusEvent);
+  }
+
+  public static toRecord(tabId: number, frameId: number, focusEvent: IFocusEvent): IFocusRecord {
+    const [event, targetNodeId, relatedTargetNodeId, timestamp] = focusEvent;
     return { tabId, frameId, event, targetNodeId, relatedTargetNodeId, timestamp };
   }
 }
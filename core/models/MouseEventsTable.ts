@@ -52,6 +52,26 @@ export default class MouseEventsTable extends SqliteTable<IMouseEventRecord> {
       timestamp,
     ];
     this.queuePendingInsert(record);
+    return MouseEventsTable.toRecord(tabId, frameId, commandId, mouseEvent);
+  }
+
+  public static toRecord(
+    tabId: number,
+    frameId: number,
+    commandId: number,
+    mouseEvent: IMouseEvent,
+  ): IMouseEventRecord {
+    const [
+      event,
+      pageX,
+      pageY,
+      offsetX,
+      offsetY,
+      buttons,
+      targetNodeId,
+      relatedTargetNodeId,
+      timestamp,
+    ] = mouseEvent;
     return {
       tabId,
       frameId,
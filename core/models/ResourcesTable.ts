@@ -5,6 +5,7 @@ import SqliteTable from '@ulixee/commons/lib/SqliteTable';
 import IResourceSummary from '@ulixee/hero-interfaces/IResourceSummary';
 import IResourceProcessingDetails from '@ulixee/unblocked-agent/interfaces/IResourceProcessingDetails';
 import { decompressBuffer } from '@ulixee/commons/lib/bufferUtils';
+import { IInterceptAction } from '@ulixee/hero-interfaces/IInterceptedRequest';
 
 export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
   constructor(db: SqliteDatabase) {
@@ -49,6 +50,7 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
         ['browserBlockedReason', 'TEXT'],
         ['browserCanceled', 'INTEGER'],
         ['documentUrl', 'TEXT'],
+        ['interceptAction', 'TEXT'],
       ],
       true,
     );
@@ -89,6 +91,29 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
       .run(data.tabId, data.browserRequestId, id);
   }
 
+  public updateInterceptAction(id: number, interceptAction: IInterceptAction): void {
+    const pendingInserts = this.findPendingInserts(x => x[0] === id);
+    if (pendingInserts.length) {
+      const pending = pendingInserts.pop();
+      const actionIndex = this.columns.findIndex(x => x[0] === 'interceptAction');
+      pending[actionIndex] = JSON.stringify(interceptAction);
+      if (ResourcesTable.isResponseIntercepted(interceptAction)) {
+        const index = this.columns.findIndex(x => x[0] === 'responseIntercepted');
+        pending[index] = 1;
+      }
+      return;
+    }
+    this.db
+      .prepare(
+        `update ${this.tableName} set interceptAction=?, responseIntercepted=max(responseIntercepted, ?) where id=?`,
+      )
+      .run(
+        JSON.stringify(interceptAction),
+        ResourcesTable.isResponseIntercepted(interceptAction) ? 1 : 0,
+        id,
+      );
+  }
+
   public get(id: number): IResourcesRecord {
     const pending = this.findPendingRecords(x => x[0] === id);
     if (pending.length) return pending.pop();
@@ -209,6 +234,7 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
       record.browserBlockedReason,
       record.browserCanceled ? 1 : 0,
       record.documentUrl,
+      record.interceptAction,
     ]);
   }
 
@@ -266,6 +292,7 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
     body: Buffer,
     extras: IResourceProcessingDetails,
     error?: Error,
+    interceptAction?: IInterceptAction,
   ): void {
     const errorString = ResourcesTable.getErrorString(error);
 
@@ -303,7 +330,7 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
       extras.dnsResolvedIp,
       extras.isHttp2Push ? 1 : 0,
       extras.wasCached ? 1 : 0,
-      extras.wasIntercepted ? 1 : 0,
+      extras.wasIntercepted || ResourcesTable.isResponseIntercepted(interceptAction) ? 1 : 0,
       JSON.stringify(extras.originalHeaders ?? {}),
       JSON.stringify(extras.responseOriginalHeaders ?? {}),
       errorString,
@@ -313,6 +340,7 @@ export default class ResourcesTable extends SqliteTable<IResourcesRecord> {
       extras.browserBlockedReason,
       extras.browserCanceled ? 1 : 0,
       meta.documentUrl,
+      interceptAction ? JSON.stringify(interceptAction) : undefined,
     ]);
   }
 
@@ -430,6 +458,11 @@ from ${this.tableName}${whereClause}`,
     };
   }
 
+  public static isResponseIntercepted(interceptAction: IInterceptAction): boolean {
+    // aborted and fulfilled requests never receive a response from the server
+    return interceptAction?.action === 'abort' || interceptAction?.action === 'fulfill';
+  }
+
   public static getErrorString(error: Error | string): string {
     if (error) {
       if (typeof error === 'string') return error;
@@ -482,4 +515,5 @@ export interface IResourcesRecord {
   browserBlockedReason?: string;
   browserCanceled?: boolean;
   documentUrl: string;
+  interceptAction?: string;
 }
@@ -18,6 +18,7 @@ export default class ScreenshotsTable extends SqliteTable<IScreenshot> {
         ['timestamp', 'TEXT', 'NOT NULL PRIMARY KEY'],
         ['tabId', 'INTEGER', 'NOT NULL PRIMARY KEY'],
         ['image', 'BLOB'],
+        ['commandId', 'INTEGER'],
       ],
       true,
     );
@@ -47,7 +48,7 @@ export default class ScreenshotsTable extends SqliteTable<IScreenshot> {
   }
 
   public insert(screenshot: IScreenshot): void {
-    const { tabId, timestamp, image } = screenshot;
+    const { tabId, timestamp, image, commandId } = screenshot;
     if (
       !this.storeDuplicates &&
       this.lastImageByTab[tabId] &&
@@ -58,7 +59,7 @@ export default class ScreenshotsTable extends SqliteTable<IScreenshot> {
     this.lastImageByTab[tabId] = image;
     this.trackScreenshotTime(tabId, timestamp);
 
-    this.queuePendingInsert([String(timestamp), tabId, image]);
+    this.queuePendingInsert([String(timestamp), tabId, image, commandId]);
   }
 
   private trackScreenshotTime(tabId: number, timestamp: number): void {
@@ -88,4 +89,5 @@ export interface IScreenshot {
   tabId: number;
   timestamp: number;
   image: Buffer;
+  commandId?: number;
 }
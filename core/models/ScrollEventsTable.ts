@@ -23,6 +23,16 @@ export default class ScrollEventsTable extends SqliteTable<IScrollRecord> {
     const [scrollX, scrollY, timestamp] = scrollEvent;
     const record = [tabId, frameId, scrollX, scrollY, commandId, timestamp];
     this.queuePendingInsert(record);
+    return ScrollEventsTable.toRecord(tabId, frameId, commandId, scrollEvent);
+  }
+
+  public static toRecord(
+    tabId: number,
+    frameId: number,
+    commandId: number,
+    scrollEvent: IScrollEvent,
+  ): IScrollRecord {
+    const [scrollX, scrollY, timestamp] = scrollEvent;
     return { tabId, frameId, scrollX, scrollY, commandId, timestamp };
   }
 }
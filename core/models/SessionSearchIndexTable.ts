@@ -0,0 +1,57 @@
+import { Database as SqliteDatabase } from 'better-sqlite3';
+import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+
+export default class SessionSearchIndexTable extends SqliteTable<ISessionSearchIndexRecord> {
+  constructor(db: SqliteDatabase) {
+    super(
+      db,
+      'SessionSearchIndex',
+      [
+        ['id', 'TEXT', 'NOT NULL PRIMARY KEY'],
+        ['name', 'TEXT'],
+        ['scriptInstanceId', 'TEXT'],
+        ['scriptEntrypoint', 'TEXT'],
+        ['startDate', 'INTEGER'],
+        ['closeDate', 'INTEGER'],
+        ['commandCount', 'INTEGER'],
+        ['errorCount', 'INTEGER'],
+        ['outputCount', 'INTEGER'],
+      ],
+      true,
+    );
+    if (!db.readonly) {
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS ${this.tableName}_startDate on ${this.tableName} (startDate)`,
+      );
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS ${this.tableName}_scriptEntrypoint on ${this.tableName} (scriptEntrypoint)`,
+      );
+    }
+  }
+
+  public insert(record: ISessionSearchIndexRecord): void {
+    this.insertNow(this.objectToInsert(record));
+  }
+
+  public deleteById(id: string): void {
+    this.db.prepare(`delete from ${this.tableName} where id=?`).run(id);
+  }
+
+  public get(id: string): ISessionSearchIndexRecord {
+    return this.db
+      .prepare(`select * from ${this.tableName} where id=?`)
+      .get(id) as ISessionSearchIndexRecord;
+  }
+}
+
+export interface ISessionSearchIndexRecord {
+  id: string;
+  name: string;
+  scriptInstanceId: string;
+  scriptEntrypoint: string;
+  startDate: number;
+  closeDate: number;
+  commandCount: number;
+  errorCount: number;
+  outputCount: number;
+}
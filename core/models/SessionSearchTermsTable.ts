@@ -0,0 +1,59 @@
+import { Database as SqliteDatabase } from 'better-sqlite3';
+import SqliteTable from '@ulixee/commons/lib/SqliteTable';
+
+export default class SessionSearchTermsTable extends SqliteTable<ISessionSearchTermRecord> {
+  constructor(db: SqliteDatabase) {
+    super(db, 'SessionSearchTerms', [
+      ['sessionId', 'TEXT'],
+      ['type', 'TEXT'],
+      ['value', 'TEXT'],
+    ]);
+    if (!db.readonly) {
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS ${this.tableName}_type_value on ${this.tableName} (type, value)`,
+      );
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS ${this.tableName}_sessionId on ${this.tableName} (sessionId, type)`,
+      );
+    }
+  }
+
+  public replaceAll(sessionId: string, terms: Omit<ISessionSearchTermRecord, 'sessionId'>[]): void {
+    this.deleteBySessionId(sessionId);
+    for (const term of terms) {
+      if (term.value === null || term.value === undefined) continue;
+      this.insertNow([sessionId, term.type, term.value]);
+    }
+  }
+
+  public deleteBySessionId(sessionId: string): void {
+    this.db.prepare(`delete from ${this.tableName} where sessionId=?`).run(sessionId);
+  }
+
+  public findBySessionId(
+    sessionId: string,
+    excludeType?: ISessionSearchTermType,
+  ): ISessionSearchTermRecord[] {
+    return this.db
+      .prepare(
+        `select * from ${this.tableName} where sessionId=? and type is not ? order by rowid asc`,
+      )
+      .all(sessionId, excludeType ?? null) as ISessionSearchTermRecord[];
+  }
+}
+
+export type ISessionSearchTermType =
+  | 'url'
+  | 'command'
+  | 'commandName'
+  | 'commandArgs'
+  | 'errorType'
+  | 'outputKey'
+  // the params, results and errors of devtools messages
+  | 'devtools';
+
+export interface ISessionSearchTermRecord {
+  sessionId: string;
+  type: ISessionSearchTermType;
+  value: string;
+}
@@ -31,6 +31,10 @@ export default class SessionsTable extends SqliteTable<ISessionsRecord> {
     this.insertNow(record);
   }
 
+  public deleteById(id: string): void {
+    this.db.prepare(`DELETE FROM ${this.tableName} WHERE id=?`).run(id);
+  }
+
   public findByName(name: string, scriptInstanceId: string): ISessionsRecord {
     const sql = `SELECT * FROM ${this.tableName} WHERE name=? AND scriptInstanceId=? ORDER BY scriptStartDate DESC, startDate DESC LIMIT 1`;
     return this.db.prepare(sql).get([name, scriptInstanceId]) as ISessionsRecord;
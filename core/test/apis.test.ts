@@ -77,6 +77,88 @@ describe('basic Apis tests', () => {
     });
     expect(result.sessions).toHaveLength(1);
     expect(result.sessions[0].id).toBe(sessionId);
+    expect(result.sessions[0].didMatchCommands).toBe(true);
+  });
+
+  it('can search for sessions by devtools messages', async () => {
+    const connection = createConnectionToApiCore();
+
+    const result = await connection.sendRequest({
+      command: 'Sessions.search',
+      args: [{ scriptEntrypoint: 'testEntrypoint.js', devtoolsKey: 'api-test' }],
+    });
+    expect(result.sessions.map(x => x.id)).toContain(sessionId);
+    const session = result.sessions.find(x => x.id === sessionId);
+    expect(session.didMatchDevtools).toBe(true);
+    expect(session.didMatchCommands).toBe(false);
+  });
+
+  it('can search for sessions by indexed fields', async () => {
+    const connection = createConnectionToApiCore();
+
+    const result = await connection.sendRequest({
+      command: 'Sessions.search',
+      args: [
+        {
+          scriptEntrypoint: 'testEntrypoint.js',
+          url: '/api-test',
+          commandName: 'goto',
+          startDateAfter: Date.now() - 60e3,
+          limit: 1,
+        },
+      ],
+    });
+    expect(result.total).toBe(1);
+    expect(result.sessions).toHaveLength(1);
+    expect(result.sessions[0].id).toBe(sessionId);
+    expect(result.sessions[0].urls).toContain(`${koaServer.baseUrl}/api-test`);
+
+    const noMatches = await connection.sendRequest({
+      command: 'Sessions.search',
+      args: [{ url: '/api-test', errorType: 'TimeoutError' }],
+    });
+    expect(noMatches.sessions).toHaveLength(0);
+  });
+
+  it('can export a session as a har', async () => {
+    const connection = createConnectionToApiCore();
+
+    const result = await connection.sendRequest({
+      command: 'Session.exportHar',
+      args: [{ sessionId, includeBodies: true }],
+    });
+    expect(result.har.log.version).toBe('1.2');
+    expect(result.har.log.pages.length).toBeGreaterThanOrEqual(1);
+    const entry = result.har.log.entries.find(x => x.request.url.endsWith('/api-test'));
+    expect(entry).toBeTruthy();
+    expect(entry.response.status).toBe(200);
+    expect(entry.response.content.text).toContain('I am a test');
+    expect(entry.pageref).toBe(result.har.log.pages[0].id);
+  });
+
+  it('can get the core metrics', async () => {
+    const connection = createConnectionToApiCore();
+
+    const result = await connection.sendRequest({
+      command: 'Core.metrics',
+      args: [],
+    });
+    expect(result.contentType).toContain('text/plain');
+    expect(result.metrics).toContain('# TYPE hero_sessions_active gauge');
+    expect(result.metrics).toMatch(/^hero_sessions_created_total [1-9]/m);
+    expect(result.metrics).toMatch(/^hero_command_duration_seconds_count\{command="goto"\} 1$/m);
+    expect(result.metrics).toMatch(/^hero_resources_total\{type="Document"\} [1-9]/m);
+    expect(result.metrics).toContain('hero_browser_launches_total');
+  });
+
+  it('includes the sessions queued by clients in the metrics', async () => {
+    const client = Core.addConnection();
+    Helpers.onClose(() => client.disconnect());
+    client.reportQueuedSessions(3);
+    expect(Core.getMetrics()).toMatch(/^hero_sessions_queued 3$/m);
+
+    await client.disconnect();
+    expect(Core.getMetrics()).toMatch(/^hero_sessions_queued 0$/m);
   });
 
   it('can get the tabs for a session', async () => {
@@ -1,5 +1,7 @@
 import { Helpers } from '@ulixee/hero-testing/index';
+import * as Database from 'better-sqlite3';
 import Core, { Session } from '../index';
+import SessionDb from '../dbs/SessionDb';
 
 afterEach(Helpers.afterEach);
 afterAll(Helpers.afterAll);
@@ -46,4 +48,21 @@ describe('basic Core tests', () => {
     expect(closedSession.mock.calls[0][0].id).toBe(session.id);
     expect(closedSession.mock.calls[0][0].databasePath).toBeTruthy();
   });
+
+  it('can read assets of sessions recorded before newer tables existed', async () => {
+    const { session: oldSession } = await Session.create({});
+    Helpers.needsClosing.push(oldSession);
+    await oldSession.close();
+    const db = new Database(`${SessionDb.databaseDir}/${oldSession.id}.db`);
+    db.exec('DROP TABLE DetachedPdfs; DROP TABLE Downloads;');
+    db.close();
+
+    const { session } = await Session.create({});
+    Helpers.needsClosing.push(session);
+    await expect(session.getCollectedAssetNames(oldSession.id)).resolves.toMatchObject({
+      pdfs: [],
+    });
+    await expect(session.getDetachedPdfs(oldSession.id, 'invoice')).resolves.toEqual([]);
+    await expect(session.getDownloads(oldSession.id)).resolves.toEqual([]);
+  });
 });
@@ -0,0 +1,98 @@
+import { Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import Core, { Session } from '../index';
+import ConnectionToHeroClient from '../connections/ConnectionToHeroClient';
+import BrowserContextPool from '../lib/BrowserContextPool';
+
+let koaServer: ITestKoaServer;
+let connection: ConnectionToHeroClient;
+beforeAll(async () => {
+  await Core.start({ prewarmContexts: 1 });
+  connection = Core.addConnection();
+  Helpers.onClose(() => connection.disconnect(), true);
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/prewarm', ctx => {
+    ctx.body = `<body><h1>Prewarmed</h1></body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function waitForWarmContexts(count: number): Promise<void> {
+  while (Core.browserContextPool.getMetrics().warm < count) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('BrowserContextPool', () => {
+  it('should give new sessions a pre-warmed browser context', async () => {
+    await waitForWarmContexts(1);
+    const before = Core.browserContextPool.getMetrics();
+
+    const meta = await connection.createSession();
+    const session = Session.get(meta.sessionId);
+    Helpers.needsClosing.push(session);
+    const tab = Session.getTab(meta);
+    await tab.goto(`${koaServer.baseUrl}/prewarm`);
+    await tab.waitForLoad('DomContentLoaded');
+    expect(session.agent.mitmRequestSession.sessionId).toBe(session.id);
+
+    const metrics = Core.browserContextPool.getMetrics();
+    expect(metrics.hits).toBe(before.hits + 1);
+    expect(metrics.byProfile.default.hits).toBe(before.byProfile.default.hits + 1);
+    session.db.flush();
+    expect(session.db.resources.all().some(x => x.requestUrl.endsWith('/prewarm'))).toBe(true);
+
+    await waitForWarmContexts(1);
+  });
+
+  it('should not use warm contexts for sessions with custom emulation options', async () => {
+    const before = Core.browserContextPool.getMetrics();
+    const meta = await connection.createSession({ locale: 'de' });
+    Helpers.needsClosing.push(Session.get(meta.sessionId));
+
+    const metrics = Core.browserContextPool.getMetrics();
+    expect(metrics.incompatible).toBe(before.incompatible + 1);
+    expect(metrics.hits).toBe(before.hits);
+  });
+
+  it('should count a miss and warm contexts for a new profile', async () => {
+    const userAgent = '~ chrome';
+    const before = Core.browserContextPool.getMetrics();
+    const meta = await connection.createSession({ userAgent });
+    Helpers.needsClosing.push(Session.get(meta.sessionId));
+
+    const metrics = Core.browserContextPool.getMetrics();
+    expect(metrics.misses).toBe(before.misses + 1);
+    expect(metrics.byProfile[userAgent].misses).toBe(1);
+    await waitForWarmContexts(before.warm + 1);
+  });
+
+  it('should keep session slots and apply session options to a claimed context', async () => {
+    await waitForWarmContexts(1);
+    const before = Core.browserContextPool.getMetrics();
+    const { maxConcurrentAgents } = Core.pool;
+
+    const meta = await connection.createSession({ blockedResourceTypes: ['BlockImages'] });
+    const session = Session.get(meta.sessionId);
+    expect(Core.browserContextPool.getMetrics().hits).toBe(before.hits + 1);
+    expect(session.agent.emulationProfile.options).toMatchObject({
+      blockedResourceTypes: ['BlockImages'],
+    });
+
+    await waitForWarmContexts(before.warm);
+    // warm contexts only use slots no session is using
+    expect(Core.pool.maxConcurrentAgents).toBe(maxConcurrentAgents);
+    expect(Core.pool.activeAgentsCount).toBeLessThanOrEqual(maxConcurrentAgents);
+    await session.close();
+    await waitForWarmContexts(before.warm);
+  });
+
+  it('should only match compatible options to a profile', () => {
+    expect(BrowserContextPool.getProfileKey({})).toBe(BrowserContextPool.defaultProfileKey);
+    expect(BrowserContextPool.getProfileKey({ userAgent: '~ firefox' })).toBe('~ firefox');
+    expect(BrowserContextPool.getProfileKey({ sessionId: 'my-session-id' })).toBe(null);
+    expect(BrowserContextPool.getProfileKey({ viewport: {} as any })).toBe(null);
+    expect(BrowserContextPool.getProfileKey({ mode: 'browserless' })).toBe(null);
+  });
+});
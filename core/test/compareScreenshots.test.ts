@@ -0,0 +1,126 @@
+import { createSession, ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Helpers } from '@ulixee/hero-testing';
+import Core from '../index';
+import PngImage from '../lib/PngImage';
+import ImageDiffer from '../lib/ImageDiffer';
+import sessionCompareScreenshotsApi from '../apis/Session.compareScreenshots';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  await Core.start();
+  koaServer = await Helpers.runKoaServer(true);
+  koaServer.get('/compare', ctx => {
+    ctx.body = `<body style="margin: 0; background: white">
+  <div style="position: absolute; top: 10px; left: ${ctx.query.left}px; width: 100px; height: 100px; background: blue"></div>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function screenshotBoxes(...boxLefts: number[]): Promise<string> {
+  return await screenshotBoxesAs('png', ...boxLefts);
+}
+
+async function screenshotBoxesAs(format: 'png' | 'jpeg', ...boxLefts: number[]): Promise<string> {
+  const { tab, session } = await createSession();
+  for (const left of boxLefts) {
+    await tab.goto(`${koaServer.baseUrl}/compare?left=${left}`);
+    await tab.waitForLoad('PaintingStable');
+    await tab.takeScreenshot({ format });
+  }
+  return session.id;
+}
+
+test('can compare the screenshots of two sessions', async () => {
+  const sessionIdA = await screenshotBoxes(10, 50, 90);
+  const sessionIdB = await screenshotBoxes(10, 300);
+
+  const result = await sessionCompareScreenshotsApi({ sessionIdA, sessionIdB });
+  expect(result.comparisons.map(x => x.status)).toEqual(['unchanged', 'changed', 'removed']);
+  expect(result.changed).toBe(1);
+
+  const [unchanged, changed, removed] = result.comparisons;
+  expect(unchanged.diffPixels).toBe(0);
+  expect(unchanged.diffImage).toBeUndefined();
+  expect(unchanged.screenshotA.commandId).toBe(unchanged.screenshotB.commandId);
+
+  expect(changed.diffPercent).toBeGreaterThan(0);
+  const diffImage = PngImage.decode(changed.diffImage);
+  expect(diffImage.width).toBe(changed.screenshotA.width);
+  // changed pixels are drawn in red
+  let redPixels = 0;
+  for (let i = 0; i < diffImage.data.length; i += 4) {
+    if (diffImage.data.readUInt32BE(i) === 0xff0000ff) redPixels += 1;
+  }
+  expect(redPixels).toBe(changed.diffPixels);
+  expect(diffImage.data.readUInt32BE(0)).not.toBe(0xff0000ff);
+
+  expect(removed.screenshotA).toBeTruthy();
+  expect(removed.screenshotB).toBeUndefined();
+});
+
+test('can allow a percent of pixels to change', async () => {
+  const sessionIdA = await screenshotBoxes(10);
+  const sessionIdB = await screenshotBoxes(12);
+
+  const strict = await sessionCompareScreenshotsApi({ sessionIdA, sessionIdB });
+  expect(strict.comparisons[0].status).toBe('changed');
+
+  const lenient = await sessionCompareScreenshotsApi({
+    sessionIdA,
+    sessionIdB,
+    maxDiffPercent: 5,
+  });
+  expect(lenient.comparisons[0].status).toBe('unchanged');
+  expect(lenient.comparisons[0].diffPixels).toBeGreaterThan(0);
+  expect(lenient.changed).toBe(0);
+});
+
+test('can compare jpeg screenshots', async () => {
+  const sessionIdA = await screenshotBoxesAs('jpeg', 10, 50);
+  const sessionIdB = await screenshotBoxesAs('jpeg', 10, 300);
+
+  const result = await sessionCompareScreenshotsApi({ sessionIdA, sessionIdB });
+  expect(result.comparisons.map(x => x.status)).toEqual(['unchanged', 'changed']);
+  expect(result.comparisons[1].screenshotA.width).toBeGreaterThan(0);
+});
+
+test('marks images that cannot be decoded as unsupported', () => {
+  const png = PngImage.create(2, 2).toBuffer();
+  // rewrite the bit depth of the header to 16 (the checksum isn't verified)
+  const png16Bit = Buffer.from(png);
+  png16Bit[24] = 16;
+
+  const diff = ImageDiffer.diff(png, png16Bit, { threshold: 0.1, includeDiffImage: true });
+  expect(diff.unsupportedReason).toMatch('Unsupported png');
+  expect(ImageDiffer.diff(png, png, { threshold: 0.1, includeDiffImage: true }).diffPixels).toBe(0);
+});
+
+test('can encode and decode pngs', () => {
+  const image = PngImage.create(3, 2);
+  image.data.fill(200);
+  image.data.writeUInt32BE(0x0000ffff, 4);
+
+  const decoded = PngImage.decode(image.toBuffer());
+  expect(decoded.width).toBe(3);
+  expect(decoded.height).toBe(2);
+  expect(decoded.data.equals(image.data)).toBe(true);
+});
+
+test('can paint over regions of a png', () => {
+  const image = PngImage.create(4, 4);
+  for (let i = 0; i < 16; i += 1) image.data.writeUInt32BE(i % 2 ? 0xffffffff : 0x000000ff, i * 4);
+
+  image.fill({ x: 0, y: 0, width: 1.5, height: 1 }, [255, 0, 0, 255]);
+  expect(image.data.readUInt32BE(0)).toBe(0xff0000ff);
+  // partially covered pixels are painted too
+  expect(image.data.readUInt32BE(4)).toBe(0xff0000ff);
+  expect(image.data.readUInt32BE(8)).toBe(0x000000ff);
+
+  // clipped to the image bounds
+  image.pixelate({ x: 2, y: 2, width: 10, height: 10 }, 2);
+  for (const pixel of [10, 11, 14, 15]) {
+    expect(image.data.readUInt32BE(pixel * 4)).toBe(0x808080ff);
+  }
+});
@@ -0,0 +1,142 @@
+import * as Fs from 'fs';
+import { Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import INetworkCassetteOptions from '@ulixee/hero-interfaces/INetworkCassetteOptions';
+import ConnectionToHeroClient from '../connections/ConnectionToHeroClient';
+import Core, { Session } from '../index';
+import NetworkCassette from '../lib/NetworkCassette';
+
+let koaServer: ITestKoaServer;
+let connection: ConnectionToHeroClient;
+const hits = { page: 0, api: 0 };
+
+beforeAll(async () => {
+  connection = Core.addConnection();
+  Helpers.onClose(() => connection.disconnect(), true);
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/cassette-page', ctx => {
+    hits.page += 1;
+    ctx.body = `<html><body><h1>Cassette page ${hits.page}</h1></body></html>`;
+  });
+  koaServer.post('/cassette-api', ctx => {
+    hits.api += 1;
+    ctx.body = { hits: hits.api };
+  });
+});
+
+afterAll(async () => {
+  await Fs.promises.rm(NetworkCassette.cassettesDir, { recursive: true, force: true });
+  await Helpers.afterAll();
+});
+afterEach(Helpers.afterEach);
+
+async function runSession(
+  networkCassette: INetworkCassetteOptions,
+  query = '',
+  apiBody = 'query=1',
+): Promise<{ title: string; api: any }> {
+  const meta = await connection.createSession({ networkCassette });
+  const session = Session.get(meta.sessionId);
+  Helpers.needsClosing.push(session);
+  const tab = Session.getTab(meta);
+  await tab.goto(`${koaServer.baseUrl}/cassette-page${query}`);
+  await tab.waitForLoad('DomContentLoaded');
+
+  const title = await tab.page.mainFrame.evaluate<string>(
+    `document.querySelector('h1').textContent`,
+  );
+  const api = await tab.page.mainFrame.evaluate<any>(
+    `fetch('/cassette-api', { method: 'POST', body: '${apiBody}' }).then(x => x.json())`,
+  );
+  await session.close();
+  return { title, api };
+}
+
+describe('Network cassettes', () => {
+  it('records a cassette once and then replays it', async () => {
+    const first = await runSession({ name: 'once' });
+    expect(first.title).toBe(`Cassette page ${hits.page}`);
+    expect(Fs.existsSync(`${NetworkCassette.cassettesDir}/once.har`)).toBe(true);
+
+    const hitsBefore = { ...hits };
+    const second = await runSession({ name: 'once' });
+    expect(second).toEqual(first);
+    expect(hits).toEqual(hitsBefore);
+  });
+
+  it('refuses to record when record is "none"', async () => {
+    await expect(
+      connection.createSession({ networkCassette: { name: 'missing', record: 'none' } }),
+    ).rejects.toThrow('does not exist');
+  });
+
+  it('keeps cassettes of remote clients in the cassettes directory', async () => {
+    await expect(
+      NetworkCassette.load('remote-session', { networkCassette: { name: '../../sessions' } }),
+    ).rejects.toThrow("can't contain path separators");
+    await expect(
+      NetworkCassette.load('remote-session', { networkCassette: { name: '/tmp/cassette.har' } }),
+    ).rejects.toThrow('same process as Core');
+  });
+
+  it('can match requests on their body and ignore query params', async () => {
+    const options: INetworkCassetteOptions = {
+      name: 'matchers',
+      matchRequestsOn: ['method', 'url', 'body'],
+      ignoreQueryParams: ['ts'],
+    };
+    const first = await runSession(options, '?ts=1');
+
+    const hitsBefore = { ...hits };
+    const second = await runSession({ ...options, record: 'none' }, '?ts=2');
+    expect(second).toEqual(first);
+    expect(hits).toEqual(hitsBefore);
+  });
+
+  it('appends new episodes to an existing cassette', async () => {
+    await runSession({ name: 'episodes' });
+
+    const hitsBefore = { ...hits };
+    await runSession({ name: 'episodes', record: 'new_episodes' }, '?page=2');
+    expect(hits.page).toBe(hitsBefore.page + 1);
+    expect(hits.api).toBe(hitsBefore.api);
+
+    const cassette = JSON.parse(
+      await Fs.promises.readFile(`${NetworkCassette.cassettesDir}/episodes.har`, 'utf8'),
+    );
+    const pageEntries = cassette.log.entries.filter(x => x.request.url.includes('cassette-page'));
+    expect(pageEntries).toHaveLength(2);
+  });
+
+  it('records new episodes of requests matched on their body', async () => {
+    const options: INetworkCassetteOptions = {
+      name: 'body-episodes',
+      matchRequestsOn: ['method', 'url', 'body'],
+    };
+    await runSession(options);
+
+    const hitsBefore = { ...hits };
+    const second = await runSession({ ...options, record: 'new_episodes' }, '', 'query=2');
+    expect(second.api).toEqual({ hits: hitsBefore.api + 1 });
+    expect(hits.page).toBe(hitsBefore.page);
+
+    const third = await runSession({ ...options, record: 'none' }, '', 'query=2');
+    expect(third.api).toEqual(second.api);
+    expect(hits.api).toBe(hitsBefore.api + 1);
+  });
+
+  it('keeps the episodes of sessions that save a cassette at the same time', async () => {
+    await runSession({ name: 'concurrent' });
+
+    await Promise.all([
+      runSession({ name: 'concurrent', record: 'new_episodes' }, '?session=1'),
+      runSession({ name: 'concurrent', record: 'new_episodes' }, '?session=2'),
+    ]);
+    const cassette = JSON.parse(
+      await Fs.promises.readFile(`${NetworkCassette.cassettesDir}/concurrent.har`, 'utf8'),
+    );
+    const urls = cassette.log.entries.map(x => x.request.url);
+    expect(urls).toContain(`${koaServer.baseUrl}/cassette-page?session=1`);
+    expect(urls).toContain(`${koaServer.baseUrl}/cassette-page?session=2`);
+  });
+});
@@ -0,0 +1,136 @@
+import * as Fs from 'fs';
+import { Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import ConnectionToHeroClient from '../connections/ConnectionToHeroClient';
+import Core, { Session } from '../index';
+import NetworkFixture from '../lib/NetworkFixture';
+
+let koaServer: ITestKoaServer;
+let connection: ConnectionToHeroClient;
+let pageHits = 0;
+let recordedSessionId: string;
+let harPath: string;
+
+beforeAll(async () => {
+  connection = Core.addConnection();
+  Helpers.onClose(() => connection.disconnect(), true);
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/fixture-page', ctx => {
+    pageHits += 1;
+    ctx.body = `<html><body><h1>Recorded page</h1></body></html>`;
+  });
+
+  const meta = await connection.createSession();
+  const tab = Session.getTab(meta);
+  const session = Session.get(meta.sessionId);
+  await tab.goto(`${koaServer.baseUrl}/fixture-page`);
+  await tab.waitForLoad('DomContentLoaded');
+
+  const har = await session.exportHar({ includeBodies: true });
+  harPath = `${Core.dataDir}/network-fixture.har`;
+  await Fs.promises.writeFile(harPath, JSON.stringify(har));
+  recordedSessionId = meta.sessionId;
+  await session.close();
+});
+
+afterAll(async () => {
+  await Fs.promises.rm(harPath, { force: true });
+  await Helpers.afterAll();
+});
+afterEach(Helpers.afterEach);
+
+async function loadFixturePage(
+  networkFixture: string,
+  networkFixtureUnmatched?: 'fail' | 'passThrough' | 'log',
+): Promise<Session> {
+  const meta = await connection.createSession({ networkFixture, networkFixtureUnmatched });
+  const session = Session.get(meta.sessionId);
+  Helpers.needsClosing.push(session);
+  const tab = Session.getTab(meta);
+  await tab.goto(`${koaServer.baseUrl}/fixture-page`);
+  await tab.waitForLoad('DomContentLoaded');
+  return session;
+}
+
+describe('Network fixtures', () => {
+  it('can serve a session from a har file', async () => {
+    const hitsBefore = pageHits;
+    const session = await loadFixturePage(harPath);
+    const tab = [...session.tabsById.values()][0];
+
+    const text = await tab.page.mainFrame.evaluate<string>(
+      `document.querySelector('h1').textContent`,
+    );
+    expect(text).toBe('Recorded page');
+    expect(pageHits).toBe(hitsBefore);
+    await session.close();
+  });
+
+  it('can serve a session from a prior session', async () => {
+    const hitsBefore = pageHits;
+    const session = await loadFixturePage(recordedSessionId);
+    const tab = [...session.tabsById.values()][0];
+
+    const text = await tab.page.mainFrame.evaluate<string>(
+      `document.querySelector('h1').textContent`,
+    );
+    expect(text).toBe('Recorded page');
+    expect(pageHits).toBe(hitsBefore);
+    await session.close();
+  });
+
+  it('fails requests that are not in the fixture', async () => {
+    let apiHits = 0;
+    koaServer.get('/fixture-missing', ctx => {
+      apiHits += 1;
+      ctx.body = 'live';
+    });
+    const session = await loadFixturePage(harPath);
+    const tab = [...session.tabsById.values()][0];
+
+    const status = await tab.page.mainFrame.evaluate<number>(
+      `fetch('/fixture-missing').then(x => x.status)`,
+    );
+    expect(status).toBe(404);
+    expect(apiHits).toBe(0);
+    await session.close();
+  });
+
+  it('can pass through fixture urls requested with a different method', async () => {
+    let postHits = 0;
+    koaServer.post('/fixture-page', ctx => {
+      postHits += 1;
+      ctx.body = 'posted';
+    });
+    const session = await loadFixturePage(harPath, 'passThrough');
+    const tab = [...session.tabsById.values()][0];
+
+    const text = await tab.page.mainFrame.evaluate<string>(
+      `fetch('/fixture-page', { method: 'POST', body: 'data' }).then(x => x.text())`,
+    );
+    expect(text).toBe('posted');
+    expect(postHits).toBe(1);
+    // the mitm loaded (and recorded) the request
+    session.db.flush();
+    const posted = session.db.resources
+      .all()
+      .find(x => x.requestMethod === 'POST' && x.requestUrl.endsWith('/fixture-page'));
+    expect(posted).toBeTruthy();
+    await session.close();
+  });
+
+  it('only loads har files for clients in the same process', async () => {
+    await expect(
+      NetworkFixture.load('remote-session', { networkFixture: harPath }),
+    ).rejects.toThrow('can only be used by a client running in the same process as Core');
+    await expect(
+      NetworkFixture.load('remote-session', { networkFixture: '../hero-sessions' }, true),
+    ).rejects.toThrow('is not a valid sessionId');
+  });
+
+  it('rejects fixtures that do not exist', async () => {
+    const meta = await connection.createSession({ networkFixture: 'not-a-session' }).catch(x => x);
+    expect(meta).toBeInstanceOf(Error);
+    expect(meta.message).toContain('not a HAR file or a recorded sessionId');
+  });
+});
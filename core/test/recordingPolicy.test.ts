@@ -0,0 +1,119 @@
+import { Helpers } from '@ulixee/hero-testing';
+import { createSession, ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { LocationStatus } from '@ulixee/unblocked-specification/agent/browser/Location';
+import Core from '../index';
+import { IMouseEventRecord } from '../models/MouseEventsTable';
+import { IDomChangeRecord } from '../models/DomChangesTable';
+import sessionInteractionsApi from '../apis/Session.interactions';
+import sessionDomChangesApi from '../apis/Session.domChanges';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  Core.defaultUnblockedPlugins.push(
+    class BasicHumanEmulator {
+      async playInteractions(interactionGroups, runFn): Promise<void> {
+        for (const group of interactionGroups) {
+          for (const step of group) {
+            await runFn(step);
+          }
+        }
+      }
+    },
+  );
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/recording', ctx => {
+    ctx.body = `<body>
+<button onclick="addMe()">Add</button>
+<script>
+function addMe() {
+  const elem = document.createElement('A');
+  elem.setAttribute('id', 'added');
+  document.body.append(elem);
+}
+</script>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+describe('Recording policy', () => {
+  it('should not record disabled tables, but still emit their events', async () => {
+    const { tab, session } = await createSession({
+      recording: { mouseEvents: false, domChanges: false },
+    });
+    const emittedMouseEvents: IMouseEventRecord[] = [];
+    const emittedDomChanges: IDomChangeRecord[] = [];
+    tab.on('page-events', ({ records }) => {
+      emittedMouseEvents.push(...records.mouseEvents);
+      emittedDomChanges.push(...records.domChanges);
+    });
+
+    await tab.goto(`${koaServer.baseUrl}/recording`);
+    await tab.waitForLoad(LocationStatus.DomContentLoaded);
+    await tab.interact([
+      { command: 'click', mousePosition: ['document', ['querySelector', 'button']] },
+    ]);
+    await Helpers.waitForElement(
+      ['document', ['querySelector', 'a#added']],
+      tab.mainFrameEnvironment,
+    );
+    await tab.flushDomChanges();
+
+    expect(emittedMouseEvents.length).toBeGreaterThan(0);
+    expect(emittedDomChanges.length).toBeGreaterThan(0);
+    expect(session.db.mouseEvents.all()).toHaveLength(0);
+    expect(session.db.domChanges.all()).toHaveLength(0);
+
+    await expect(tab.getDomChanges()).rejects.toThrow('"domChanges" was turned off or sampled');
+  });
+
+  it('should record a sampled share of events', async () => {
+    const { tab, session } = await createSession({
+      recording: { mouseEvents: { sampleRate: 0.5 }, domChanges: { sampleRate: 0.5 } },
+    });
+    const emittedMouseEvents: IMouseEventRecord[] = [];
+    const emittedDomChanges: IDomChangeRecord[] = [];
+    tab.on('page-events', ({ records }) => {
+      emittedMouseEvents.push(...records.mouseEvents);
+      emittedDomChanges.push(...records.domChanges);
+    });
+
+    // dom changes are sampled by document, so only some of the documents are recorded
+    await tab.goto(`${koaServer.baseUrl}/recording`);
+    await tab.waitForLoad(LocationStatus.DomContentLoaded);
+    await tab.goto(`${koaServer.baseUrl}/recording?second`);
+    await tab.waitForLoad(LocationStatus.DomContentLoaded);
+    await tab.interact([
+      { command: 'click', mousePosition: ['document', ['querySelector', 'button']] },
+    ]);
+    await Helpers.waitForElement(
+      ['document', ['querySelector', 'a#added']],
+      tab.mainFrameEnvironment,
+    );
+    await tab.flushDomChanges();
+
+    expect(emittedMouseEvents.length).toBeGreaterThan(1);
+    expect(session.db.mouseEvents.all()).toHaveLength(Math.floor(emittedMouseEvents.length / 2));
+
+    const recordedDomChanges = session.db.domChanges.all();
+    expect(recordedDomChanges.length).toBeGreaterThan(0);
+    expect(recordedDomChanges.length).toBeLessThan(emittedDomChanges.length);
+  });
+
+  it('should refuse to load data that was not fully recorded', async () => {
+    const { tab, session } = await createSession({
+      scriptInstanceMeta: Helpers.createScriptMeta(module, 'recording-policy'),
+      recording: { scrollEvents: { sampleRate: 0.5 }, domChanges: false },
+    });
+    await tab.goto(`${koaServer.baseUrl}/recording`);
+    await tab.waitForLoad(LocationStatus.DomContentLoaded);
+    await session.close();
+
+    expect(() => sessionInteractionsApi({ sessionId: session.id })).toThrow(
+      'Session.interactions needs data that was not recorded',
+    );
+    expect(() => sessionInteractionsApi({ sessionId: session.id })).toThrow('"scrollEvents"');
+    expect(() => sessionDomChangesApi({ sessionId: session.id })).toThrow('"domChanges"');
+  });
+});
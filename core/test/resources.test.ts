@@ -94,4 +94,9 @@ test('should convert a url with special chars into a valid regex', () => {
 test('should convert a url with wildcards into a valid regex', () => {
   const regexp = stringToRegex('https://www.skyscanner.com/g/conductor/v1/fps3/search/*');
   expect('https://www.skyscanner.com/g/conductor/v1/fps3/search/1234'.match(regexp)).toBeTruthy();
+
+  const middle = stringToRegex('https://example.org/*/checkout');
+  expect(middle.test('https://example.org/shop/cart/checkout')).toBe(true);
+  expect(middle.test('https://example.org/checkout')).toBe(false);
+  expect(stringToRegex('https://example.org/a*b').test('https://example.org/aab')).toBe(false);
 });
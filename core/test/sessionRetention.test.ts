@@ -0,0 +1,122 @@
+import { Helpers } from '@ulixee/hero-testing';
+import * as Fs from 'fs';
+import Core from '../index';
+import SessionDb from '../dbs/SessionDb';
+import SessionsDb from '../dbs/SessionsDb';
+import SessionRetention, { ISessionPrunedEvent } from '../lib/SessionRetention';
+import Downloads from '../lib/Downloads';
+
+const originalDataDir = Core.dataDir;
+beforeAll(() => {
+  // isolate from session dbs created by other tests
+  Core.dataDir = `${originalDataDir}/session-retention`;
+  Fs.mkdirSync(SessionDb.databaseDir, { recursive: true });
+});
+
+afterEach(Helpers.afterEach);
+afterAll(async () => {
+  await Helpers.afterAll();
+  SessionsDb.shutdown();
+  await Fs.promises.rm(Core.dataDir, { recursive: true, force: true });
+  Core.dataDir = originalDataDir;
+});
+
+function createSessionFile(id: string, ageMs: number, bytes = 10): string {
+  const path = `${SessionDb.databaseDir}/${id}.db`;
+  Fs.writeFileSync(path, Buffer.alloc(bytes));
+  const date = new Date(Date.now() - ageMs);
+  Fs.utimesSync(path, date, date);
+  return path;
+}
+
+function indexSession(id: string, counts: { errorCount?: number; outputCount?: number }): void {
+  SessionsDb.find().sessionSearchIndex.insert({
+    id,
+    name: 'default-session',
+    scriptInstanceId: id,
+    scriptEntrypoint: 'retention.js',
+    startDate: Date.now() - 60e3,
+    closeDate: Date.now() - 50e3,
+    commandCount: 1,
+    errorCount: counts.errorCount ?? 0,
+    outputCount: counts.outputCount ?? 0,
+  });
+}
+
+describe('SessionRetention', () => {
+  it('should prune sessions older than the max age', async () => {
+    const oldPath = createSessionFile('age-old', 60e3);
+    const newPath = createSessionFile('age-new', 0);
+
+    const retention = new SessionRetention({ maxAgeMs: 30e3 });
+    const pruned: ISessionPrunedEvent[] = [];
+    retention.on('session-pruned', event => pruned.push(event));
+    const result = await retention.run();
+
+    expect(result.prunedSessionIds).toEqual(['age-old']);
+    expect(pruned).toHaveLength(1);
+    expect(pruned[0].reason).toBe('maxAge');
+    expect(Fs.existsSync(oldPath)).toBe(false);
+    expect(Fs.existsSync(newPath)).toBe(true);
+    Fs.unlinkSync(newPath);
+  });
+
+  it('should prune the oldest sessions past the count and byte limits', async () => {
+    createSessionFile('limit-1', 40e3, 100);
+    createSessionFile('limit-2', 30e3, 100);
+    createSessionFile('limit-3', 20e3, 100);
+    createSessionFile('limit-4', 10e3, 100);
+
+    const byCount = await new SessionRetention({ maxSessionCount: 3 }).run();
+    expect(byCount.prunedSessionIds).toEqual(['limit-1']);
+    expect(byCount.remainingSessionCount).toBe(3);
+
+    const byBytes = await new SessionRetention({ maxTotalBytes: 250 }).run();
+    expect(byBytes.prunedSessionIds).toEqual(['limit-2']);
+    expect(byBytes.bytesFreed).toBe(100);
+    expect(byBytes.remainingBytes).toBe(200);
+  });
+
+  it('should delete the downloads of pruned sessions', async () => {
+    createSessionFile('downloads-old', 60e3);
+    const downloadsPath = Downloads.getSessionPath('downloads-old');
+    Fs.mkdirSync(downloadsPath, { recursive: true });
+    Fs.writeFileSync(`${downloadsPath}/file-guid`, Buffer.alloc(50));
+
+    const result = await new SessionRetention({ maxAgeMs: 30e3 }).run();
+    expect(result.prunedSessionIds).toEqual(['downloads-old']);
+    expect(result.bytesFreed).toBe(60);
+    expect(Fs.existsSync(downloadsPath)).toBe(false);
+  });
+
+  it('should keep sessions with errors', async () => {
+    createSessionFile('errors-yes', 60e3);
+    createSessionFile('errors-no', 60e3);
+    indexSession('errors-yes', { errorCount: 2 });
+    indexSession('errors-no', {});
+
+    const result = await new SessionRetention({
+      maxAgeMs: 30e3,
+      keepSessionsWithErrors: true,
+    }).run();
+    expect(result.prunedSessionIds).toEqual(['errors-no']);
+    expect(Fs.existsSync(`${SessionDb.databaseDir}/errors-yes.db`)).toBe(true);
+    expect(SessionsDb.find().sessionSearchIndex.get('errors-no')).toBeFalsy();
+    Fs.unlinkSync(`${SessionDb.databaseDir}/errors-yes.db`);
+  });
+
+  it('should keep sessions with outputs', async () => {
+    createSessionFile('outputs-yes', 60e3);
+    createSessionFile('outputs-no', 60e3);
+    indexSession('outputs-yes', { outputCount: 1 });
+    indexSession('outputs-no', { errorCount: 1 });
+
+    const result = await new SessionRetention({
+      maxAgeMs: 30e3,
+      keepSessionsWithOutputs: true,
+    }).run();
+    expect(result.prunedSessionIds).toEqual(['outputs-no']);
+    expect(Fs.existsSync(`${SessionDb.databaseDir}/outputs-yes.db`)).toBe(true);
+    Fs.unlinkSync(`${SessionDb.databaseDir}/outputs-yes.db`);
+  });
+});
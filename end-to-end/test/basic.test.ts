@@ -1,5 +1,6 @@
 import { Helpers, Hero } from '@ulixee/hero-testing';
 import Resource from '@ulixee/hero/lib/Resource';
+import { Session } from '@ulixee/hero-core';
 
 let koaServer;
 beforeAll(async () => {
@@ -183,4 +184,35 @@ describe('basic Full Client tests', () => {
     await localStorage.removeItem('Test1');
     expect(await localStorage.length).toBe(0);
   });
+
+  it('records each command of a batch on its own', async () => {
+    koaServer.get('/batch', ctx => {
+      ctx.body = `<body><h1>Batched</h1><a href="#1">1</a><a href="#2">2</a></body>`;
+    });
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/batch`);
+    await hero.waitForPaintingStable();
+    const lastCommandId = await hero.lastCommandId;
+
+    const [heading, linkCount, url] = await hero.batch(() =>
+      Promise.all([
+        hero.querySelector('h1').textContent,
+        hero.querySelectorAll('a').length,
+        hero.document.URL,
+      ]),
+    );
+    expect(heading).toBe('Batched');
+    expect(linkCount).toBe(2);
+    expect(url).toBe(`${koaServer.baseUrl}/batch`);
+
+    const session = Session.get(await hero.sessionId);
+    const commands = session.commands.history.filter(x => x.id > lastCommandId);
+    expect(commands.map(x => x.id)).toEqual([
+      lastCommandId + 1,
+      lastCommandId + 2,
+      lastCommandId + 3,
+    ]);
+    expect(commands.every(x => x.name === 'execJsPath')).toBe(true);
+  });
 });
@@ -0,0 +1,93 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { Tab } from '@ulixee/hero';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+
+let koaServer: ITestKoaServer;
+const hits = { image: 0, ad: 0, allowed: 0 };
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/blocked-page', ctx => {
+    ctx.body = `<body><a target="_blank" href="/blocked-page">Blocked resources</a></body>`;
+  });
+  koaServer.get('/blocked-image.png', ctx => {
+    hits.image += 1;
+    ctx.body = Buffer.from([0]);
+  });
+  koaServer.get('/ads/script.js', ctx => {
+    hits.ad += 1;
+    ctx.body = 'window.ads = true';
+  });
+  koaServer.get('/ads/allowed.js', ctx => {
+    hits.allowed += 1;
+    ctx.body = 'window.allowed = true';
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function fetchFromPage(hero: Hero | Tab, path: string): Promise<string> {
+  return await hero.getJsValue(`fetch('${path}').then(() => 'loaded').catch(() => 'blocked')`);
+}
+
+describe('Blocked resources', () => {
+  it('can block resources per tab and count hits', async () => {
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/blocked-page`);
+    await hero.waitForPaintingStable();
+    const hitsBefore = { ...hits };
+
+    await hero.activeTab.setBlockedResources({
+      urlPatterns: ['/ads/*', /blocked-image/],
+      allowPatterns: ['/ads/allowed.js'],
+    });
+    await expect(fetchFromPage(hero, '/ads/script.js')).resolves.toBe('blocked');
+    await expect(fetchFromPage(hero, '/blocked-image.png')).resolves.toBe('blocked');
+    await expect(fetchFromPage(hero, '/ads/allowed.js')).resolves.toBe('loaded');
+    expect(hits).toEqual({ ...hitsBefore, allowed: hitsBefore.allowed + 1 });
+
+    const stats = await hero.activeTab.getBlockedResourceStats();
+    expect(stats.total).toBe(2);
+    expect(stats.byUrlPattern).toEqual({ '/ads/*': 1, '/blocked-image/': 1 });
+
+    // can be changed at runtime
+    await hero.activeTab.setBlockedResources(null);
+    await expect(fetchFromPage(hero, '/ads/script.js')).resolves.toBe('loaded');
+    expect(hits.ad).toBe(hitsBefore.ad + 1);
+  });
+
+  it('only blocks resources in the configured tab', async () => {
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/blocked-page`);
+    const tab = hero.activeTab;
+    await tab.setBlockedResources({ types: ['Fetch'] });
+    await expect(fetchFromPage(tab, '/ads/allowed.js')).resolves.toBe('blocked');
+
+    await hero.click(hero.document.querySelector('a'));
+    const newTab = await hero.waitForNewTab();
+    await newTab.waitForLoad('DomContentLoaded');
+    await expect(fetchFromPage(newTab, '/ads/allowed.js')).resolves.toBe('loaded');
+
+    const stats = await tab.getBlockedResourceStats();
+    expect(stats.byType).toEqual({ Fetch: 1 });
+  });
+
+  it('can block all third party resources and estimate the bytes saved', async () => {
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/blocked-page`);
+    await expect(fetchFromPage(hero, '/ads/script.js')).resolves.toBe('loaded');
+    await hero.waitForMillis(100);
+
+    await hero.activeTab.setBlockedResources({ thirdPartyOnly: true });
+    // same site requests are still loaded
+    await expect(fetchFromPage(hero, '/ads/script.js')).resolves.toBe('loaded');
+    const thirdPartyUrl = `${koaServer.baseUrl.replace('localhost', '127.0.0.1')}/ads/script.js`;
+    await expect(fetchFromPage(hero, thirdPartyUrl)).resolves.toBe('blocked');
+
+    const stats = await hero.activeTab.getBlockedResourceStats();
+    expect(stats.total).toBe(1);
+    expect(stats.estimatedBytesSaved).toBe('window.ads = true'.length);
+  });
+});
@@ -195,6 +195,81 @@ test('surfaces errors in query selectors that are invalid (vs simply not there)'
   await expect(hero.activeTab.waitForState(state)).rejects.toThrowError('not a valid selector');
 });
 
+test('can wait for a state scoped to an element', async () => {
+  koaServer.get('/waitForElementState', ctx => {
+    ctx.body = `<body><table>
+  <tr id="row1"><td class="price"></td><td class="spinner">Loading</td></tr>
+  <tr id="row2"><td class="price">$2</td><td class="spinner" style="display: none">Loading</td></tr>
+</table>
+<script>
+setTimeout(() => {
+  document.querySelector('#row1 .price').textContent = '$1';
+  document.querySelector('#row1 .spinner').style.display = 'none';
+}, 500);
+</script>
+</body>`;
+  });
+  const hero = await openBrowser('/waitForElementState');
+  const isLoaded = (assert, row) => {
+    assert(row.querySelector('.price').textContent, text => !!text);
+    assert(row.querySelector('.spinner').$isVisible, false);
+  };
+
+  const row1 = hero.querySelector('#row1');
+  const row2 = hero.querySelector('#row2');
+  await expect(row1.$validateState(isLoaded)).resolves.toBe(false);
+  await expect(row2.$validateState(isLoaded)).resolves.toBe(true);
+
+  await expect(row1.$waitForState(isLoaded)).resolves.toBeUndefined();
+  await expect(row1.querySelector('.price').textContent).resolves.toBe('$1');
+
+  const hasThirdPrice = (assert, row) => assert(row.querySelector('.price').textContent, '$3');
+  await expect(row2.$waitForState(hasThirdPrice, { timeoutMs: 500 })).rejects.toThrow('Timeout');
+});
+
+test('can generate an exit state from a range of commands', async () => {
+  koaServer.get('/exitState', ctx => {
+    ctx.body = `<body>
+<h1>Exit State</h1>
+<ul id="list"><li>1</li></ul>
+<script>
+function addItems() {
+  for (let i = 0; i < 2; i += 1) {
+    const li = document.createElement('li');
+    li.textContent = 'added';
+    document.querySelector('#list').append(li);
+  }
+  return true;
+}
+</script>
+</body>`;
+  });
+  const hero = await openBrowser('/exitState');
+  const startCommandId = (await hero.lastCommandId) + 1;
+  await hero.getJsValue('addItems()');
+  await hero.waitForPaintingStable();
+  const endCommandId = await hero.lastCommandId;
+
+  const exitState = await hero.generateExitState({
+    commandRange: [startCommandId, endCommandId],
+  });
+  expect(exitState.assertionCounts.dom).toBeGreaterThan(0);
+  expect(exitState.skippedAssertions.length).toBeLessThan(exitState.assertions.length);
+  expect(exitState.code).toMatch(/^all\(assert\) {/);
+  expect(exitState.code).toContain(
+    `assert(hero.xpathSelectorAll('/HTML/BODY/UL/LI'), nodes => nodes.length === 3);`,
+  );
+
+  // the generated source should be usable as-is
+  // eslint-disable-next-line no-new-func
+  const state = new Function('hero', `return { ${exitState.code} };`)(hero);
+  await expect(hero.validateState(state)).resolves.toBe(true);
+
+  await hero.goto(`${koaServer.baseUrl}/exitState`);
+  await hero.waitForPaintingStable();
+  await expect(hero.validateState(state)).resolves.toBe(false);
+});
+
 async function openBrowser(path: string) {
   const hero = new Hero();
   Helpers.needsClosing.push(hero);
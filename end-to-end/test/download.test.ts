@@ -0,0 +1,111 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+import { HeroReplay } from '@ulixee/hero';
+import * as Fs from 'fs';
+import * as Os from 'os';
+import * as Path from 'path';
+import { PassThrough } from 'stream';
+
+const csv = 'id,name\n1,Red Hat\n2,Blue Hat\n';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/export.csv', ctx => {
+    ctx.set('Content-Type', 'text/csv; charset=utf-8');
+    ctx.set('Content-Disposition', 'attachment; filename="hats.csv"');
+    ctx.body = csv;
+  });
+  koaServer.get('/download', ctx => {
+    ctx.body = `<body>
+  <a id="export" href="/export.csv">Export</a>
+  <a id="never-ends" href="/never-ends.csv">Never ends</a>
+</body>`;
+  });
+  koaServer.get('/never-ends.csv', ctx => {
+    ctx.set('Content-Disposition', 'attachment; filename="never-ends.csv"');
+    const body = new PassThrough();
+    body.write('id,name\n');
+    ctx.body = body;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function clickExport(): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/download`);
+  await hero.waitForPaintingStable();
+  await hero.click(hero.document.querySelector('#export'));
+  return hero;
+}
+
+describe('Download tests', () => {
+  it('can wait for a download and read it', async () => {
+    const hero = await clickExport();
+    const download = await hero.waitForDownload();
+
+    expect(download.suggestedFilename).toBe('hats.csv');
+    expect(download.url).toBe(`${koaServer.baseUrl}/export.csv`);
+    await expect(download.buffer.then(x => x.toString())).resolves.toBe(csv);
+
+    const savePath = Path.join(Os.tmpdir(), 'hero-downloads-test', 'hats.csv');
+    await download.saveAs(savePath);
+    await expect(Fs.promises.readFile(savePath, 'utf8')).resolves.toBe(csv);
+    await Fs.promises.unlink(savePath);
+  });
+
+  it('records downloads with the command that triggered them', async () => {
+    const hero = await clickExport();
+    const clickCommandId = await hero.lastCommandId;
+    const download = await hero.waitForDownload();
+    await download.buffer;
+    expect(download.commandId).toBe(clickCommandId);
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const records = session.db.downloads.all();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      id: download.id,
+      commandId: clickCommandId,
+      suggestedFilename: 'hats.csv',
+      mimeType: 'text/csv',
+      state: 'completed',
+      receivedBytes: csv.length,
+    });
+    expect(Fs.readFileSync(records[0].path, 'utf8')).toBe(csv);
+  });
+
+  it('can read the downloads of a session with HeroReplay', async () => {
+    const hero = await clickExport();
+    const download = await hero.waitForDownload();
+    await download.buffer;
+    const sessionId = await hero.sessionId;
+    await hero.close();
+
+    const heroReplay = new HeroReplay({
+      replaySessionId: sessionId,
+      connectionToCore: Hero.getDirectConnectionToCore(),
+    });
+    Helpers.needsClosing.push(heroReplay);
+    const downloads = await heroReplay.getDownloads();
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0]).toMatchObject({ id: download.id, state: 'completed' });
+    const buffer = await heroReplay.getDownloadBuffer(download.id);
+    expect(buffer.toString()).toBe(csv);
+  });
+
+  it('times out waiting for a download to finish', async () => {
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/download`);
+    await hero.waitForPaintingStable();
+    await hero.click(hero.document.querySelector('#never-ends'));
+    const download = await hero.waitForDownload();
+
+    await expect(download.getBuffer({ timeoutMs: 500 })).rejects.toThrow('Timeout');
+  });
+});
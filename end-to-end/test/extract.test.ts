@@ -0,0 +1,119 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/extract', ctx => {
+    ctx.body = `<body>
+  <h1>
+    Store   </h1>
+  <input id="search" value="hats" />
+  <ul>
+    <li class="product">
+      <a href="/products/1"><span class="name"> Red Hat </span></a>
+      <span class="price">$1,200.50</span>
+      <time datetime="2022-06-01T10:00:00Z">June 1</time>
+    </li>
+    <li class="product">
+      <a href="/products/2"><span class="name">Blue Hat</span></a>
+      <span class="price">$15</span>
+      <span class="rating">4.5 of 5 stars (1,024 reviews)</span>
+      <span class="sale">On Sale</span>
+    </li>
+  </ul>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openBrowser(path: string): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}${path}`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+describe('extract', () => {
+  it('can extract fields, lists and transforms in one command', async () => {
+    const hero = await openBrowser('/extract');
+    const startCommandId = await hero.lastCommandId;
+    const result = await hero.extract({
+      title: 'h1',
+      search: { selector: '#search', property: 'value' },
+      products: {
+        selector: '.product',
+        list: true,
+        fields: {
+          name: '.name',
+          price: { selector: '.price', transform: 'number' },
+          url: { selector: 'a', attribute: 'href', transform: 'url' },
+          added: { selector: 'time', attribute: 'datetime', transform: 'date', optional: true },
+          sale: { selector: '.sale', optional: true },
+        },
+      },
+      reviews: { selector: '.review', list: true, optional: true },
+    });
+
+    expect(result).toEqual({
+      title: 'Store',
+      search: 'hats',
+      products: [
+        {
+          name: 'Red Hat',
+          price: 1200.5,
+          url: `${koaServer.baseUrl}/products/1`,
+          added: '2022-06-01T10:00:00.000Z',
+          sale: null,
+        },
+        {
+          name: 'Blue Hat',
+          price: 15,
+          url: `${koaServer.baseUrl}/products/2`,
+          added: null,
+          sale: 'On Sale',
+        },
+      ],
+      reviews: [],
+    });
+
+    const session = Session.get(await hero.sessionId);
+    const commands = session.commands.history.filter(x => x.id > startCommandId);
+    expect(commands.map(x => x.name)).toEqual(['extract']);
+  });
+
+  it('parses the first number of a text', async () => {
+    const hero = await openBrowser('/extract');
+    const result = await hero.extract({ rating: { selector: '.rating', transform: 'number' } });
+    expect(result.rating).toBe(4.5);
+  });
+
+  it('fails with the paths of missing required fields', async () => {
+    const hero = await openBrowser('/extract');
+    await expect(
+      hero.extract({
+        title: 'h1',
+        products: { selector: '.product', list: true, fields: { sale: '.sale' } },
+      }),
+    ).rejects.toThrow(
+      'No elements matched these required extract fields: products[0].sale (.sale)',
+    );
+  });
+
+  it('can record the result to the session output', async () => {
+    const hero = await openBrowser('/extract');
+    const result = await hero.extract({ title: 'h1' }, { outputKey: 'store' });
+    // recorded output is sent along with the next session command
+    await hero.meta;
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const output = session.db.output.all();
+    expect(output).toHaveLength(1);
+    expect(output[0].path).toBe('["store"]');
+    expect(output[0].value).toEqual(result);
+  });
+});
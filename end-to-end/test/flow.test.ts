@@ -1,6 +1,7 @@
 import { Hero, Helpers } from '@ulixee/hero-testing';
 import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
 import { Session } from '@ulixee/hero-core';
+import { FlowCommandRetriesExhaustedError } from '@ulixee/hero';
 
 let koaServer: ITestKoaServer;
 beforeAll(async () => {
@@ -423,6 +424,378 @@ describe('flow commands', () => {
   });
 });
 
+describe('FlowHandler scoping', () => {
+  beforeAll(() => {
+    koaServer.get('/flowScoping', ctx => {
+      ctx.body = `<body>
+  <h1>Nothing here yet</h1>
+  <a href="javascript:void(0);" onclick="clicker()" class="make-ready">Click me to start</a>
+  <script type="text/javascript">
+    function clicker() {
+      const div = document.createElement('div');
+      div.textContent = 'You got me ready!';
+      div.setAttribute('class', 'ready');
+      document.body.appendChild(div);
+    }
+  </script>
+</body>`;
+    });
+  });
+
+  it('can unregister a flow handler', async () => {
+    const hero = await openBrowser('/flowScoping');
+    const spy = jest.fn();
+    const flowHandler = await hero.registerFlowHandler(
+      'MakeReady',
+      assert => assert(hero.querySelector('.ready').$exists, false),
+      async () => {
+        spy();
+        await hero.querySelector('.make-ready').$click();
+      },
+    );
+    await flowHandler.unregister();
+
+    await expect(hero.querySelector('.ready').textContent).rejects.toThrow(
+      'Element does not exist',
+    );
+    expect(spy).not.toHaveBeenCalled();
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const [record] = session.db.flowHandlers.all();
+    expect(record.name).toBe('MakeReady');
+    expect(record.unregisterReason).toBe('unregister');
+    expect(record.unregisteredCommandId).toBeGreaterThan(record.registeredCommandId);
+  });
+
+  it('can limit the number of times a flow handler triggers', async () => {
+    const hero = await openBrowser('/flowScoping');
+    const spy = jest.fn();
+    await hero.registerFlowHandler(
+      'HasHeading',
+      assert => assert(hero.querySelector('h1').$exists),
+      async () => spy(),
+      { maxTriggers: 2 },
+    );
+
+    for (let i = 0; i < 3; i += 1) {
+      await hero.activeTab.triggerFlowHandlers();
+    }
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const [record] = session.db.flowHandlers.all();
+    expect(record.maxTriggers).toBe(2);
+    expect(record.unregisterReason).toBe('maxTriggers');
+  });
+
+  it('never triggers a flow handler with maxTriggers of 0', async () => {
+    const hero = await openBrowser('/flowScoping');
+    const spy = jest.fn();
+    await hero.registerFlowHandler(
+      'HasHeading',
+      assert => assert(hero.querySelector('h1').$exists),
+      async () => spy(),
+      { maxTriggers: 0 },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('only triggers flow handlers matching a url pattern', async () => {
+    const hero = await openBrowser('/flowScoping');
+    const otherPageSpy = jest.fn();
+    const thisPageSpy = jest.fn();
+    await hero.registerFlowHandler(
+      'OtherPage',
+      assert => assert(hero.querySelector('h1').$exists),
+      async () => otherPageSpy(),
+      { urlPattern: '/other-page' },
+    );
+    await hero.registerFlowHandler(
+      'ThisPage',
+      assert => assert(hero.querySelector('h1').$exists),
+      async () => thisPageSpy(),
+      { urlPattern: /\/flowScoping$/ },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(otherPageSpy).not.toHaveBeenCalled();
+    expect(thisPageSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('can use wildcards in a url pattern', async () => {
+    const hero = await openBrowser('/flowScoping');
+    const spy = jest.fn();
+    await hero.registerFlowHandler(
+      'Wildcard',
+      assert => assert(hero.querySelector('h1').$exists),
+      async () => spy(),
+      { urlPattern: `${koaServer.baseUrl}/*Scoping` },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('can scope a flow handler to a flow command', async () => {
+    const hero = await openBrowser('/flowScoping');
+    await expect(
+      hero.registerFlowHandler(
+        'NoFlowCommand',
+        assert => assert(hero.querySelector('h1').$exists),
+        () => Promise.resolve(),
+        { scopeToFlowCommand: true },
+      ),
+    ).rejects.toThrow('not registered inside a FlowCommand');
+
+    const spy = jest.fn();
+    await hero.flowCommand(async () => {
+      await hero.registerFlowHandler(
+        'MakeReady',
+        assert => assert(hero.querySelector('.ready').$exists, false),
+        async () => {
+          spy();
+          await hero.querySelector('.make-ready').$click();
+        },
+        { scopeToFlowCommand: true },
+      );
+      await hero.querySelector('.ready').$click();
+    });
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    await hero.getJsValue(`document.querySelector('.ready').remove(); 'removed'`);
+    await expect(hero.querySelector('.ready').textContent).rejects.toThrow(
+      'Element does not exist',
+    );
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const [record] = session.db.flowHandlers.all();
+    expect(record.flowCommandId).toBe(1);
+    expect(record.unregisterReason).toBe('flowCommandComplete');
+  });
+});
+
+describe('FlowHandler priority', () => {
+  beforeAll(() => {
+    koaServer.get('/flowPriority', ctx => {
+      ctx.body = `<body>
+  <div id="cookies">Accept cookies?</div>
+  <div id="login">Please login</div>
+</body>`;
+    });
+  });
+
+  it('runs the highest priority matching flow handler', async () => {
+    const hero = await openBrowser('/flowPriority');
+    const ran: string[] = [];
+    await hero.registerFlowHandler(
+      'Cookies',
+      assert => assert(hero.querySelector('#cookies').$exists),
+      async () => {
+        ran.push('Cookies');
+      },
+    );
+    await hero.registerFlowHandler(
+      'Login',
+      assert => assert(hero.querySelector('#login').$exists),
+      async () => {
+        ran.push('Login');
+      },
+      { priority: 10 },
+    );
+    await hero.registerFlowHandler(
+      'NeverMatches',
+      assert => assert(hero.querySelector('#missing').$exists),
+      async () => {
+        ran.push('NeverMatches');
+      },
+      { priority: 20 },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(ran).toEqual(['Login']);
+
+    const evaluationsByName = getEvaluationsByName(Session.get(await hero.sessionId));
+    expect(evaluationsByName.NeverMatches).toHaveLength(1);
+    expect(evaluationsByName.NeverMatches[0]).toMatchObject({ didMatch: 0, didRun: 0 });
+    expect(evaluationsByName.Login).toHaveLength(1);
+    expect(evaluationsByName.Login[0]).toMatchObject({ didMatch: 1, didRun: 1 });
+    expect(evaluationsByName.Login[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(evaluationsByName.Cookies).toHaveLength(1);
+    expect(evaluationsByName.Cookies[0]).toMatchObject({ didMatch: 1, didRun: 0 });
+  });
+
+  it('runs the next match after a flow handler that is not exclusive', async () => {
+    const hero = await openBrowser('/flowPriority');
+    const ran: string[] = [];
+    await hero.registerFlowHandler(
+      'Cookies',
+      assert => assert(hero.querySelector('#cookies').$exists),
+      async () => {
+        ran.push('Cookies');
+      },
+      { priority: 10, exclusive: false },
+    );
+    await hero.registerFlowHandler(
+      'Login',
+      assert => assert(hero.querySelector('#login').$exists),
+      async () => {
+        ran.push('Login');
+      },
+    );
+    await hero.registerFlowHandler(
+      'LoginFallback',
+      assert => assert(hero.querySelector('#login').$exists),
+      async () => {
+        ran.push('LoginFallback');
+      },
+      { priority: -1 },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(ran).toEqual(['Cookies', 'Login']);
+
+    const evaluationsByName = getEvaluationsByName(Session.get(await hero.sessionId));
+    // re-checked after the Cookies handler ran
+    expect(evaluationsByName.Login).toHaveLength(2);
+    expect(evaluationsByName.Login[1]).toMatchObject({ didMatch: 1, didRun: 1 });
+    expect(evaluationsByName.LoginFallback).toHaveLength(1);
+    expect(evaluationsByName.LoginFallback[0]).toMatchObject({ didMatch: 1, didRun: 0 });
+  });
+
+  it('does not let a lower priority exclusive flow handler replace a higher one', async () => {
+    const hero = await openBrowser('/flowPriority');
+    const ran: string[] = [];
+    await hero.registerFlowHandler(
+      'Cookies',
+      assert => assert(hero.querySelector('#cookies').$exists),
+      async () => {
+        ran.push('Cookies');
+      },
+      { priority: 10 },
+    );
+    await hero.registerFlowHandler(
+      'Login',
+      assert => assert(hero.querySelector('#login').$exists),
+      async () => {
+        ran.push('Login');
+      },
+      { exclusive: true },
+    );
+
+    await hero.activeTab.triggerFlowHandlers();
+    expect(ran).toEqual(['Cookies']);
+  });
+});
+
+function getEvaluationsByName(session: Session): { [name: string]: any[] } {
+  session.db.flush();
+  const evaluations = session.db.flowHandlerEvaluations.all();
+  const evaluationsByName: { [name: string]: any[] } = {};
+  for (const record of session.db.flowHandlers.all()) {
+    evaluationsByName[record.name] = evaluations.filter(x => x.flowHandlerId === record.id);
+  }
+  return evaluationsByName;
+}
+
+describe('flow command retries', () => {
+  beforeAll(() => {
+    koaServer.get('/flowRetries', ctx => {
+      ctx.body = `<body><h1>Never done</h1></body>`;
+    });
+  });
+
+  it('backs off between attempts and reports every attempt error', async () => {
+    const hero = await openBrowser('/flowRetries');
+    await hero.registerFlowHandler(
+      'AlwaysMatches',
+      assert => assert(hero.querySelector('h1').$exists),
+      () => Promise.resolve(),
+    );
+
+    const onRetry = jest.fn();
+    const attemptTimes: number[] = [];
+    const error = await hero
+      .flowCommand(
+        async () => {
+          attemptTimes.push(Date.now());
+          await hero.querySelector('#missing').textContent;
+        },
+        { maxRetries: 3, retryDelayMs: 100, retryBackoff: 'exponential', onRetry },
+      )
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(FlowCommandRetriesExhaustedError);
+    expect(error.isTimeout).toBe(false);
+    expect(error.attemptErrors).toHaveLength(3);
+    expect(error.attemptErrors[0].message).toContain('Element does not exist');
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls.map(x => x[1])).toEqual([1, 2]);
+    expect(onRetry.mock.calls[0][0]).toBe(error.attemptErrors[0]);
+
+    expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(100);
+    expect(attemptTimes[2] - attemptTimes[1]).toBeGreaterThanOrEqual(200);
+  });
+
+  it('stops retrying once the flow times out', async () => {
+    const hero = await openBrowser('/flowRetries');
+    await hero.registerFlowHandler(
+      'AlwaysMatches',
+      assert => assert(hero.querySelector('h1').$exists),
+      () => Promise.resolve(),
+    );
+
+    const flowCommandSpy = jest.fn();
+    const error = await hero
+      .flowCommand(
+        async () => {
+          flowCommandSpy();
+        },
+        {
+          maxRetries: 5,
+          retryDelayMs: 500,
+          timeoutMs: 300,
+          exitState(assert) {
+            assert(hero.querySelector('h1').textContent, 'Done');
+          },
+        },
+      )
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(FlowCommandRetriesExhaustedError);
+    expect(error.isTimeout).toBe(true);
+    expect(error.attemptErrors).toHaveLength(1);
+    expect(error.attemptErrors[0].message).toContain('Exit State was not satisfied');
+    expect(flowCommandSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out an attempt that runs longer than the flow timeout', async () => {
+    const hero = await openBrowser('/flowRetries');
+
+    const startTime = Date.now();
+    const error = await hero
+      .flowCommand(() => hero.waitForMillis(2e3), {
+        maxRetries: 5,
+        timeoutMs: 300,
+        exitState(assert) {
+          assert(hero.querySelector('h1').textContent, 'Done');
+        },
+      })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(FlowCommandRetriesExhaustedError);
+    expect(error.isTimeout).toBe(true);
+    expect(error.attemptErrors).toHaveLength(0);
+    expect(Date.now() - startTime).toBeLessThan(2e3);
+  });
+});
+
 async function openBrowser(path: string) {
   const hero = new Hero();
   Helpers.needsClosing.push(hero);
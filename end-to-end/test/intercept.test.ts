@@ -0,0 +1,116 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/intercept', ctx => {
+    ctx.body = `<body><h1>Intercept</h1></body>`;
+  });
+  koaServer.get('/intercept-api', ctx => {
+    ctx.body = { header: ctx.get('x-intercepted'), path: ctx.path };
+  });
+  koaServer.get('/intercept-rewritten', ctx => {
+    ctx.body = { header: ctx.get('x-intercepted'), path: ctx.path };
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openBrowser(): Promise<Omit<Hero, 'then'>> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/intercept`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+function fetchFromPage(hero: Omit<Hero, 'then'>, path: string): Promise<any> {
+  return hero.getJsValue(
+    `fetch('${path}').then(x => x.json()).catch(err => ({ error: err.message }))`,
+  );
+}
+
+describe('Request interception', () => {
+  it('can fulfill a request with a synthetic response', async () => {
+    const hero = await openBrowser();
+    await hero.activeTab.intercept({ url: '/intercept-api' }, request =>
+      request.fulfill({
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mocked: request.method }),
+      }),
+    );
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({ mocked: 'GET' });
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const records = session.db.resources.all().filter(x => x.requestUrl.endsWith('/intercept-api'));
+    expect(records.length).toBeGreaterThanOrEqual(1);
+    expect(JSON.parse(records[0].interceptAction).action).toBe('fulfill');
+    expect(records[0].responseIntercepted).toBe(1);
+  });
+
+  it('can abort a request', async () => {
+    const hero = await openBrowser();
+    await hero.activeTab.intercept({ url: /intercept-api/, types: ['Fetch'] }, request =>
+      request.abort('ConnectionRefused'),
+    );
+    const result = await fetchFromPage(hero, '/intercept-api');
+    expect(result.error).toBeTruthy();
+  });
+
+  it('can rewrite the url and headers of a request', async () => {
+    const hero = await openBrowser();
+    await hero.activeTab.intercept({ url: '/intercept-api', method: 'GET' }, request =>
+      request.continue({
+        url: request.url.replace('intercept-api', 'intercept-rewritten'),
+        headers: { ...request.headers, 'x-intercepted': 'yes' },
+      }),
+    );
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({
+      header: 'yes',
+      path: '/intercept-rewritten',
+    });
+  });
+
+  it('continues requests the handler does not resolve', async () => {
+    const hero = await openBrowser();
+    const urls: string[] = [];
+    await hero.activeTab.intercept({ url: '/intercept-api' }, request => {
+      urls.push(request.url);
+    });
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({
+      header: '',
+      path: '/intercept-api',
+    });
+    expect(urls).toEqual([`${koaServer.baseUrl}/intercept-api`]);
+  });
+
+  it('can rewrite the response of the server', async () => {
+    const hero = await openBrowser();
+    await hero.activeTab.intercept({ url: '/intercept-api', stage: 'response' }, request => {
+      const body = JSON.parse(request.response.body.toString());
+      return request.fulfill({ body: JSON.stringify({ ...body, rewritten: true }) });
+    });
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({
+      header: '',
+      path: '/intercept-api',
+      rewritten: true,
+    });
+  });
+
+  it('can stop intercepting requests', async () => {
+    const hero = await openBrowser();
+    const stopIntercepting = await hero.activeTab.intercept({ url: '/intercept-api' }, request =>
+      request.fulfill({ body: JSON.stringify({ mocked: true }) }),
+    );
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({ mocked: true });
+
+    await stopIntercepting();
+    await expect(fetchFromPage(hero, '/intercept-api')).resolves.toEqual({
+      header: '',
+      path: '/intercept-api',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+import CommandFormatter from '@ulixee/hero-core/lib/CommandFormatter';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/live-query', ctx => {
+    ctx.body = `<body>
+  <h1>Original</h1>
+  <div id="buttons"><button onclick="window.clicked = 'original'">Go</button></div>
+  <script>
+    function replaceHeading() {
+      document.querySelector('h1').remove();
+      setTimeout(() => {
+        const heading = document.createElement('h1');
+        heading.textContent = 'Replaced';
+        document.body.prepend(heading);
+      }, 50);
+    }
+    function replaceButton() {
+      document.querySelector('#buttons').innerHTML =
+        '<button onclick="window.clicked = \\'replaced\\'">Go</button>';
+    }
+  </script>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openPage(): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/live-query`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+describe('Live queries', () => {
+  it('re-resolves elements that are replaced in the DOM', async () => {
+    const hero = await openPage();
+    const liveHeading = await hero.querySelector('h1', { liveQuery: true });
+    const heading = await hero.querySelector('h1');
+    await expect(liveHeading.textContent).resolves.toBe('Original');
+
+    await hero.getJsValue(`replaceHeading(); 'replaced'`);
+    await expect(liveHeading.textContent).resolves.toBe('Replaced');
+    await expect(heading.isConnected).resolves.toBe(false);
+
+    const session = Session.get(await hero.sessionId);
+    const resolved = session.commands.history.filter(x => x.liveQueryResolution);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].retryNumber).toBe(1);
+    expect(CommandFormatter.toString(resolved[0])).toContain(
+      '[liveQuery re-resolved document.querySelector("h1").textContent',
+    );
+  });
+
+  it('can interact with live xpath selectors after a re-render', async () => {
+    const hero = await openPage();
+    const button = await hero.xpathSelector('//button', false, { liveQuery: true });
+    await hero.getJsValue(`replaceButton(); 'replaced'`);
+
+    await hero.click(button);
+    await expect(hero.getJsValue('window.clicked')).resolves.toBe('replaced');
+  });
+
+  it('re-resolves items read from a live querySelectorAll', async () => {
+    const hero = await openPage();
+    const buttons = hero.querySelectorAll('#buttons button', { liveQuery: true });
+    await expect(buttons.length).resolves.toBe(1);
+    await hero.getJsValue(`replaceButton(); 'replaced'`);
+
+    await hero.click(buttons.item(0));
+    await expect(hero.getJsValue('window.clicked')).resolves.toBe('replaced');
+  });
+
+  it('does not retry live queries that fail for other reasons', async () => {
+    const hero = await openPage();
+    const invalid = hero.querySelector('h1[', { liveQuery: true });
+    await expect(invalid.textContent).rejects.toThrow('not a valid selector');
+
+    const session = Session.get(await hero.sessionId);
+    expect(session.commands.history.filter(x => x.liveQueryResolution)).toHaveLength(0);
+  });
+});
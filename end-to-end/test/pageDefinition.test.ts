@@ -0,0 +1,124 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+import { definePage } from '@ulixee/hero';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/page-search', ctx => {
+    ctx.body = `<body>
+  <input id="query" type="text" />
+  <button id="search" onclick="search()">Search</button>
+  <ul id="results"></ul>
+  <script>
+    function search() {
+      const query = document.querySelector('#query').value;
+      setTimeout(() => {
+        document.querySelector('#results').innerHTML = '<li class="result">' + query + ' 1</li><li class="result">' + query + ' 2</li>';
+      }, 100);
+    }
+  </script>
+</body>`;
+  });
+  koaServer.get('/page-login', ctx => {
+    ctx.body = `<body><form id="login"><input name="user" /></form></body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+const SearchPage = definePage({
+  name: 'Search',
+  url: '/page-search',
+  elements: {
+    query: '#query',
+    results: tab => tab.querySelectorAll('.result'),
+  },
+  states: {
+    empty: (assert, page) => assert(page.elements.results.length, 0),
+    hasResults: (assert, page) => assert(page.elements.results.length, x => x > 0),
+  },
+  actions: {
+    search: {
+      async run(page, text: string) {
+        await page.elements.query.$type(text);
+        await page.tab.querySelector('#search').$click();
+      },
+      exitState: 'hasResults',
+    },
+  },
+});
+
+const LoginPage = definePage({
+  name: 'Login',
+  url: '/page-login',
+  states: {
+    loaded: assert => assert(true),
+  },
+});
+
+async function openBrowser(path: string): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}${path}`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+describe('Page definitions', () => {
+  it('can detect which page and state matches', async () => {
+    const hero = await openBrowser('/page-login');
+    const loginPage = await hero.waitForPage([SearchPage, LoginPage]);
+    expect(loginPage.name).toBe('Login');
+    expect(loginPage.is(LoginPage)).toBe(true);
+    expect(loginPage.state).toBe('loaded');
+
+    await hero.goto(`${koaServer.baseUrl}/page-search`);
+    const searchPage = await hero.waitForPage([SearchPage, LoginPage]);
+    expect(searchPage.is(SearchPage)).toBe(true);
+    expect(searchPage.state).toBe('empty');
+  });
+
+  it('runs actions as flow commands against lazily resolved elements', async () => {
+    const hero = await openBrowser('/page-search');
+    const page = await hero.waitForPage(SearchPage);
+
+    await page.actions.search('hero');
+    await expect(page.validateState('hasResults')).resolves.toBe(true);
+    await expect(page.elements.results.length).resolves.toBe(2);
+    await expect(page.elements.results[1].textContent).resolves.toBe('hero 2');
+
+    const session = Session.get(await hero.sessionId);
+    const flowCommands = session.commands.history.filter(x => x.flowCommandId === 1);
+    expect(flowCommands.length).toBeGreaterThan(0);
+  });
+
+  it('times out when no page matches', async () => {
+    const hero = await openBrowser('/page-login');
+    await expect(hero.waitForPage(SearchPage, { timeoutMs: 500 })).rejects.toThrow(
+      'Timeout waiting for one of these pages to load: Search',
+    );
+  });
+
+  it('fails on the first broken state instead of waiting for the timeout', async () => {
+    const BrokenPage = definePage({
+      name: 'Broken',
+      states: {
+        invalid: (assert, page) => assert(page.tab.querySelector('#login[').$exists),
+      },
+    });
+    const hero = await openBrowser('/page-login');
+    const startTime = Date.now();
+    const error = await hero
+      .waitForPage([SearchPage, BrokenPage], { timeoutMs: 10e3 })
+      .catch(err => err);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).not.toContain('Timeout');
+    expect(Date.now() - startTime).toBeLessThan(10e3);
+  });
+
+  it('requires a url or states to detect a page', () => {
+    expect(() => definePage({ name: 'Nothing' })).toThrow('needs a url or at least one state');
+  });
+});
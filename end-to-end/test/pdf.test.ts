@@ -0,0 +1,55 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { HeroReplay } from '@ulixee/hero';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/invoice', ctx => {
+    ctx.body = `<body style="background: #eee"><h1>Invoice 1001</h1><p>Total: $15.00</p></body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openInvoice(): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/invoice`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+describe('printToPdf', () => {
+  it('can print a page to pdf', async () => {
+    const hero = await openInvoice();
+    const pdf = await hero.printToPdf({
+      format: 'A4',
+      landscape: true,
+      printBackground: true,
+      margins: { top: 0.5, bottom: 0.5 },
+      headerTemplate: '<div class="title"></div>',
+    });
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('throws for an unknown format', async () => {
+    const hero = await openInvoice();
+    await expect(hero.printToPdf({ format: 'B5' as any })).rejects.toThrow('Unknown pdf format');
+  });
+
+  it('can store a pdf to retrieve with HeroReplay', async () => {
+    const hero = await openInvoice();
+    const pdf = await hero.printToPdf({ name: 'invoice-1001' });
+
+    await expect(hero.getPdf('invoice-1001')).resolves.toEqual(pdf);
+    await expect(hero.getPdf('missing')).resolves.toBe(null);
+
+    const heroReplay = new HeroReplay({
+      replaySessionId: await hero.sessionId,
+      connectionToCore: Hero.getDirectConnectionToCore(),
+    });
+    Helpers.needsClosing.push(heroReplay);
+    await expect(heroReplay.getPdf('invoice-1001')).resolves.toEqual(pdf);
+  });
+});
@@ -0,0 +1,117 @@
+import { Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import DefaultHero, { ConnectionToHeroCore } from '@ulixee/hero';
+import { IReconnectOptions } from '@ulixee/hero/interfaces/IConnectionToCoreOptions';
+import Core, { Session } from '@ulixee/hero-core';
+import { WsTransportToClient, WsTransportToCore } from '@ulixee/net';
+import * as WebSocket from 'ws';
+import { AddressInfo } from 'net';
+
+let koaServer: ITestKoaServer;
+let wsServer: WebSocket.Server;
+let coreHost: string;
+const clientSockets: WebSocket[] = [];
+
+beforeAll(async () => {
+  Helpers.onClose(() => Core.shutdown(), true);
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/reconnect', ctx => {
+    ctx.body = `<html><head><title>Reconnect</title></head><body><h1>Still here</h1></body></html>`;
+  });
+
+  wsServer = new WebSocket.Server({ port: 0 });
+  await new Promise(resolve => wsServer.once('listening', resolve));
+  coreHost = `localhost:${(wsServer.address() as AddressInfo).port}`;
+  wsServer.on('connection', (ws, req) => {
+    clientSockets.push(ws);
+    Core.addConnection(new WsTransportToClient(ws, req));
+  });
+  Helpers.onClose(() => new Promise(resolve => wsServer.close(resolve)), true);
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+function createHero(reconnect: IReconnectOptions): DefaultHero {
+  const connectionToCore = new ConnectionToHeroCore(new WsTransportToCore(coreHost), {
+    reconnect,
+  });
+  const hero = new DefaultHero({ connectionToCore });
+  Helpers.needsClosing.push(hero);
+  return hero;
+}
+
+function dropConnection(): void {
+  clientSockets[clientSockets.length - 1].terminate();
+}
+
+describe('reconnect', () => {
+  it('can reattach to a running session after the connection drops', async () => {
+    const hero = createHero({ initialDelayMillis: 50 });
+    await hero.goto(`${koaServer.baseUrl}/reconnect`);
+    const sessionId = await hero.sessionId;
+    const connections = clientSockets.length;
+
+    dropConnection();
+    await expect(hero.document.title).resolves.toBe('Reconnect');
+    expect(clientSockets.length).toBe(connections + 1);
+    expect(Session.get(sessionId).isClosing).toBe(false);
+
+    // event listeners are moved to the new connection
+    const resources = [];
+    await hero.activeTab.on('resource', event => resources.push(event));
+    dropConnection();
+    await hero.goto(`${koaServer.baseUrl}/reconnect?again`);
+    await hero.waitForPaintingStable();
+    expect(resources.length).toBeGreaterThanOrEqual(1);
+  });
+
+  it('replays commands that were in flight without running them twice', async () => {
+    const hero = createHero({ initialDelayMillis: 50 });
+    await hero.goto(`${koaServer.baseUrl}/reconnect`);
+    const session = Session.get(await hero.sessionId);
+
+    const waitPromise = hero.waitForMillis(500);
+    await new Promise<void>(resolve => {
+      session.commands.on('start', command => {
+        if (command.name === 'waitForMillis') resolve();
+      });
+    });
+    dropConnection();
+    await expect(waitPromise).resolves.toBeUndefined();
+
+    expect(session.commands.history.filter(x => x.name === 'waitForMillis')).toHaveLength(1);
+  });
+
+  it('only lets the client that created a session reattach to it', async () => {
+    const hero = createHero({ initialDelayMillis: 50 });
+    await hero.goto(`${koaServer.baseUrl}/reconnect`);
+    const sessionId = await hero.sessionId;
+
+    const otherConnection = new ConnectionToHeroCore(new WsTransportToCore(coreHost));
+    Helpers.onClose(() => otherConnection.disconnect());
+    await otherConnection.connect();
+    for (const reattachToken of [undefined, 'not-the-token']) {
+      await expect(
+        otherConnection.sendRequest({
+          command: 'Core.reattachSession',
+          args: [sessionId, reattachToken],
+        }),
+      ).rejects.toThrow('no longer available to reattach');
+    }
+
+    // the session still belongs to the original client
+    await expect(hero.document.title).resolves.toBe('Reconnect');
+    expect(Session.get(sessionId).isClosing).toBe(false);
+  });
+
+  it('closes sessions that are not reattached in time', async () => {
+    const hero = createHero({ initialDelayMillis: 500, maxAttempts: 1, sessionTimeoutMillis: 50 });
+    await hero.goto(`${koaServer.baseUrl}/reconnect`);
+    const session = Session.get(await hero.sessionId);
+
+    const closed = new Promise(resolve => session.once('closed', resolve));
+    dropConnection();
+    await closed;
+    await expect(hero.document.title).rejects.toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+import { Session } from '@ulixee/hero-core';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/account', ctx => {
+    ctx.body = `<body style="margin: 0">
+  <div id="logo" style="width: 120px; height: 80px; background: red"></div>
+  <input type="password" value="secret-password" style="font-size: 30px" />
+  <div style="height: 3000px; background: linear-gradient(#fff, #00f)"></div>
+  <div id="footer" style="width: 200px; height: 50px; background: green"></div>
+</body>`;
+  });
+  koaServer.get('/framed-account', ctx => {
+    ctx.body = `<body style="margin: 0">
+  <iframe src="/account" width="300" height="200"></iframe>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openAccount(): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/account`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+function getPngSize(image: Buffer): { width: number; height: number } {
+  return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+}
+
+describe('takeScreenshot', () => {
+  it('can capture the full scrollable page', async () => {
+    const hero = await openAccount();
+    const innerHeight = await hero.getJsValue<number>('innerHeight');
+    const pixelRatio = await hero.getJsValue<number>('devicePixelRatio');
+
+    const viewport = getPngSize(await hero.takeScreenshot({ format: 'png' }));
+    const fullPage = getPngSize(await hero.takeScreenshot({ format: 'png', fullPage: true }));
+    expect(viewport.height).toBe(Math.round(innerHeight * pixelRatio));
+    expect(fullPage.height).toBeGreaterThan(3000 * pixelRatio);
+  });
+
+  it('can capture an element', async () => {
+    const hero = await openAccount();
+    const pixelRatio = await hero.getJsValue<number>('devicePixelRatio');
+
+    const logo = getPngSize(
+      await hero.takeScreenshot({ format: 'png', element: hero.querySelector('#logo') }),
+    );
+    expect(logo).toEqual({ width: 120 * pixelRatio, height: 80 * pixelRatio });
+
+    // should scroll the element into view
+    const footer = getPngSize(await hero.querySelector('#footer').$screenshot({ format: 'png' }));
+    expect(footer).toEqual({ width: 200 * pixelRatio, height: 50 * pixelRatio });
+  });
+
+  it('can mask regions of the page', async () => {
+    const hero = await openAccount();
+    const password = hero.querySelector('input[type=password]');
+
+    const unmasked = await password.$screenshot({ format: 'png' });
+    const blurred = await password.$screenshot({ format: 'png', mask: ['input[type=password]'] });
+    const filled = await password.$screenshot({
+      format: 'png',
+      mask: ['input[type=password]'],
+      maskStyle: 'fill',
+    });
+    expect(blurred.equals(unmasked)).toBe(false);
+    expect(filled.equals(unmasked)).toBe(false);
+    expect(filled.equals(blurred)).toBe(false);
+
+    // nothing should be added to the page
+    await expect(hero.document.body.childElementCount).resolves.toBe(4);
+    expect((await password.$screenshot({ format: 'png' })).equals(unmasked)).toBe(true);
+  });
+
+  it('can mask regions inside frames', async () => {
+    const hero = new Hero();
+    Helpers.needsClosing.push(hero);
+    await hero.goto(`${koaServer.baseUrl}/framed-account`);
+    await hero.waitForPaintingStable();
+    await hero.waitForElement(hero.querySelector('iframe'));
+    const frame = await hero.activeTab.getFrameEnvironment(hero.querySelector('iframe'));
+    await frame.waitForLoad('DomContentLoaded');
+
+    const unmasked = await hero.takeScreenshot({ format: 'png' });
+    const masked = await hero.takeScreenshot({ format: 'png', mask: ['input[type=password]'] });
+    expect(masked.equals(unmasked)).toBe(false);
+  });
+
+  it('returns masked screenshots as png', async () => {
+    const hero = await openAccount();
+    const masked = await hero.takeScreenshot({ mask: ['#logo'] });
+    expect(masked.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('records screenshots with the command that took them', async () => {
+    const hero = await openAccount();
+    await hero.takeScreenshot({ format: 'png', mask: ['#logo'] });
+    const commandId = await hero.lastCommandId;
+
+    const session = Session.get(await hero.sessionId);
+    session.db.flush();
+    const screenshots = session.db.screenshots.all();
+    expect(screenshots.map(x => x.commandId)).toContain(commandId);
+  });
+});
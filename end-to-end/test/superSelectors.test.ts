@@ -0,0 +1,80 @@
+import { Hero, Helpers } from '@ulixee/hero-testing';
+import { ITestKoaServer } from '@ulixee/hero-testing/helpers';
+
+let koaServer: ITestKoaServer;
+beforeAll(async () => {
+  koaServer = await Helpers.runKoaServer();
+  koaServer.get('/super-selectors', ctx => {
+    ctx.body = `<body>
+  <ul>
+    <li id="first">First item</li>
+    <li id="hidden" style="display: none">Hidden item</li>
+    <li id="second">Second <b>item</b></li>
+    <li id="third">Item 3</li>
+  </ul>
+  <button id="covered" style="position: absolute; top: 200px; left: 10px">Covered</button>
+  <div style="position: absolute; top: 190px; left: 0; width: 300px; height: 50px; background: white"></div>
+  <div style="margin-top: 3000px"><a id="offscreen" href="#">Far away</a></div>
+</body>`;
+  });
+});
+afterAll(Helpers.afterAll);
+afterEach(Helpers.afterEach);
+
+async function openPage(): Promise<Hero> {
+  const hero = new Hero();
+  Helpers.needsClosing.push(hero);
+  await hero.goto(`${koaServer.baseUrl}/super-selectors`);
+  await hero.waitForPaintingStable();
+  return hero;
+}
+
+describe('Super selectors', () => {
+  it('can filter elements by visibility', async () => {
+    const hero = await openPage();
+    await expect(hero.querySelectorAll('li:visible').length).resolves.toBe(3);
+    await expect(hero.querySelector('li:hidden').id).resolves.toBe('hidden');
+    await expect(hero.querySelector('ul > :hidden').$isVisible).resolves.toBe(false);
+  });
+
+  it('can filter elements by viewport and clickability', async () => {
+    const hero = await openPage();
+    await expect(hero.querySelector('a:in-viewport').$exists).resolves.toBe(false);
+    await expect(hero.querySelector('a:visible').id).resolves.toBe('offscreen');
+    await expect(hero.querySelector('#covered:visible').$exists).resolves.toBe(true);
+    await expect(hero.querySelector('#covered:clickable').$exists).resolves.toBe(false);
+    await expect(hero.querySelector('li:clickable').id).resolves.toBe('first');
+  });
+
+  it('can match elements by text', async () => {
+    const hero = await openPage();
+    await expect(hero.querySelector('li:has-text("second ITEM")').id).resolves.toBe('second');
+    await expect(hero.querySelector('li:text-matches(/^item \\d$/i)').id).resolves.toBe('third');
+    await expect(hero.querySelectorAll('li:has-text("item"):visible').length).resolves.toBe(3);
+  });
+
+  it('can chain selectors and pick the nth match', async () => {
+    const hero = await openPage();
+    await expect(hero.querySelector('li:visible >> nth=1').id).resolves.toBe('second');
+    await expect(hero.querySelector('li >> nth=-1').id).resolves.toBe('third');
+    await expect(hero.querySelector('ul >> li:has-text("item") >> b').textContent).resolves.toBe(
+      'item',
+    );
+  });
+
+  it('rejects super pseudo-classes before the last element', async () => {
+    const hero = await openPage();
+    await expect(hero.querySelector('li:visible b').id).rejects.toThrow('chain selectors');
+  });
+
+  it('waits for elements that match super pseudo-classes', async () => {
+    const hero = await openPage();
+    await hero.getJsValue(`setTimeout(() => {
+      document.querySelector('#hidden').style.display = 'block';
+    }, 300); 'started'`);
+    await expect(
+      hero.querySelector('li:visible:has-text("hidden item")').$waitForExists(),
+    ).resolves.toBeTruthy();
+    await expect(hero.querySelectorAll('li:visible').length).resolves.toBe(4);
+  });
+});
@@ -0,0 +1,17 @@
+import IResourceType from '@ulixee/unblocked-specification/agent/net/IResourceType';
+
+export default interface IBlockedResources {
+  types?: IResourceType[];
+  // strings can use "/*" wildcards, like other resource filters
+  urlPatterns?: (string | RegExp)[];
+  allowPatterns?: (string | RegExp)[];
+  thirdPartyOnly?: boolean;
+}
+
+export interface IBlockedResourceStats {
+  total: number;
+  byType: { [type: string]: number };
+  byUrlPattern: { [pattern: string]: number };
+  // estimated from the sizes of resources this tab already loaded
+  estimatedBytesSaved: number;
+}
@@ -1,4 +1,5 @@
 import ISourceCodeLocation from '@ulixee/commons/interfaces/ISourceCodeLocation';
+import ILiveQueryResolution from './ILiveQueryResolution';
 
 export default interface ICommandMeta {
   id: number;
@@ -18,4 +19,5 @@ export default interface ICommandMeta {
   endNavigationId?: number;
   activeFlowHandlerId?: number;
   flowCommandId?: number;
+  liveQueryResolution?: ILiveQueryResolution;
 }
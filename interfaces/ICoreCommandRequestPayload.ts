@@ -1,6 +1,7 @@
 import type ICoreRequestPayload from '@ulixee/net/interfaces/ICoreRequestPayload';
 import ISourceCodeLocation from '@ulixee/commons/interfaces/ISourceCodeLocation';
 import ISessionMeta from './ISessionMeta';
+import ILiveQueryResolution from './ILiveQueryResolution';
 
 export default interface ICoreCommandRequestPayload extends ICoreRequestPayload<any, any> {
   meta?: ISessionMeta;
@@ -8,5 +9,18 @@ export default interface ICoreCommandRequestPayload extends ICoreRequestPayload<
   retryNumber?: number;
   activeFlowHandlerId?: number;
   flowCommandId?: number;
+  liveQueryResolution?: ILiveQueryResolution;
+  // resent by a reconnected client. Commands that already ran return their original result.
+  isReplay?: boolean;
   recordCommands?: Omit<ICoreCommandRequestPayload, 'meta' | 'messageId' | 'sendTime'>[];
 }
+
+export type ICoreBatchCommand = Omit<
+  ICoreCommandRequestPayload,
+  'messageId' | 'sendTime' | 'recordCommands'
+>;
+
+export interface ICoreBatchCommandResult {
+  data?: any;
+  error?: Error;
+}
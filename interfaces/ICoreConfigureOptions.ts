@@ -4,4 +4,15 @@ export default interface ICoreConfigureOptions {
   maxConcurrentClientCount?: number;
   dataDir?: string;
   defaultUnblockedPlugins?: IUnblockedPluginClass[];
+  sessionRetention?: ISessionRetentionOptions;
+  prewarmContexts?: number;
+}
+
+export interface ISessionRetentionOptions {
+  maxAgeMs?: number;
+  maxTotalBytes?: number;
+  maxSessionCount?: number;
+  keepSessionsWithErrors?: boolean;
+  keepSessionsWithOutputs?: boolean;
+  intervalMs?: number;
 }
@@ -0,0 +1,7 @@
+export default interface IDetachedPdf {
+  name: string;
+  tabId: number;
+  timestamp: number;
+  commandId: number;
+  pdf: Buffer;
+}
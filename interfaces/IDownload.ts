@@ -0,0 +1,19 @@
+export type IDownloadState = 'inProgress' | 'completed' | 'canceled';
+
+export default interface IDownload {
+  id: string;
+  tabId: number;
+  frameId: number;
+  // the command that was running when the download started
+  commandId: number;
+  url: string;
+  suggestedFilename: string;
+  mimeType?: string;
+  // location of the file on the machine running Core
+  path: string;
+  state: IDownloadState;
+  totalBytes: number;
+  receivedBytes: number;
+  startDate: number;
+  endDate?: number;
+}
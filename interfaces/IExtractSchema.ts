@@ -0,0 +1,52 @@
+export type IExtractTransform = 'trim' | 'number' | 'date' | 'url';
+
+// a type rather than an interface, so schemas are assignable to serializable command args
+export type IExtractFieldOptions = {
+  // css selector relative to the parent field. Uses the parent element if not provided.
+  selector?: string;
+  // read an attribute instead of the textContent
+  attribute?: string;
+  // read a DOM property (eg, value or innerHTML) instead of the textContent
+  property?: string;
+  transform?: IExtractTransform | IExtractTransform[];
+  // return null (or an empty list) instead of failing when the selector doesn't match
+  optional?: boolean;
+  // return every match of the selector
+  list?: boolean;
+  // extract an object for each match
+  fields?: IExtractSchema;
+};
+
+// a string is shorthand for a selector whose trimmed textContent is extracted
+export type IExtractField = string | IExtractFieldOptions;
+
+export default interface IExtractSchema {
+  [key: string]: IExtractField;
+}
+
+export interface IExtractOptions {
+  // record the result to the session Output under this key
+  outputKey?: string;
+}
+
+type IExtractTransformResult<T> = 'number' extends (T extends any[] ? T[number] : T)
+  ? number
+  : string;
+
+type IExtractFieldValue<F> = F extends { fields: infer S }
+  ? S extends IExtractSchema
+    ? IExtractResult<S>
+    : never
+  : F extends { transform: infer T }
+  ? IExtractTransformResult<T>
+  : string;
+
+type IExtractFieldResult<F> = F extends { list: true }
+  ? IExtractFieldValue<F>[]
+  : F extends { optional: true }
+  ? IExtractFieldValue<F> | null
+  : IExtractFieldValue<F>;
+
+export type IExtractResult<T extends IExtractSchema> = {
+  [K in keyof T]: IExtractFieldResult<T[K]>;
+};
@@ -3,4 +3,9 @@ import IDomState, { IDomStateAllFn } from './IDomState';
 export default interface IFlowCommandOptions {
   maxRetries?: number;
   exitState?: IDomState | IDomStateAllFn;
+  retryDelayMs?: number;
+  retryBackoff?: 'fixed' | 'exponential';
+  maxRetryDelayMs?: number;
+  timeoutMs?: number;
+  onRetry?: (error: Error, attempt: number) => Promise<void> | void;
 }
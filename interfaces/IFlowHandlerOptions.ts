@@ -0,0 +1,18 @@
+export default interface IFlowHandlerOptions {
+  urlPattern?: string | RegExp;
+  maxTriggers?: number;
+  scopeToFlowCommand?: boolean;
+  priority?: number;
+  exclusive?: boolean;
+}
+
+export type IFlowHandlerUnregisterReason = 'unregister' | 'maxTriggers' | 'flowCommandComplete';
+
+export interface IFlowHandlerEvaluation {
+  flowHandlerId: number;
+  didMatch: boolean;
+  didRun: boolean;
+  startTime: number;
+  durationMs: number;
+  error?: string;
+}
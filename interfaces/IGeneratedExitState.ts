@@ -0,0 +1,23 @@
+import IDomStateAssertionBatch, { IAssertionCounts } from './IDomStateAssertionBatch';
+
+export default interface IGeneratedExitState {
+  // TypeScript source of a DomState `all(assert)` function
+  code: string;
+  assertions: IDomStateAssertionBatch['assertions'];
+  // assertions that couldn't be written as code (eg, jspath or indexedDB changes)
+  skippedAssertions: IDomStateAssertionBatch['assertions'];
+  assertionCounts: IAssertionCounts;
+}
+
+export interface IExitStateCommandRange {
+  commandRange: [startCommandId: number, endCommandId: number];
+  // defaults to the tab of the first command in the range
+  tabId?: number;
+}
+
+export interface IExitStateGenerateOptions extends IExitStateCommandRange {
+  // other runs of the same step. Only assertions common to every run are kept.
+  otherSessions?: (IExitStateCommandRange & { sessionId: string })[];
+  // variable name the generated code uses for the Hero instance. Default "hero".
+  heroVariable?: string;
+}
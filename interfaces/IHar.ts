@@ -0,0 +1,92 @@
+// HAR 1.2 - http://www.softwareishard.com/blog/har-12-spec/
+export default interface IHar {
+  log: IHarLog;
+}
+
+export interface IHarLog {
+  version: '1.2';
+  creator: { name: string; version: string };
+  browser?: { name: string; version: string };
+  pages: IHarPage[];
+  entries: IHarEntry[];
+  comment?: string;
+}
+
+export interface IHarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: { onContentLoad?: number; onLoad?: number };
+}
+
+export interface IHarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: IHarRequest;
+  response: IHarResponse;
+  cache: {};
+  timings: IHarTimings;
+  serverIPAddress?: string;
+  connection?: string;
+  _resourceType?: string;
+  _webSocketMessages?: IHarWebsocketMessage[];
+}
+
+export interface IHarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface IHarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  queryString: IHarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface IHarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string;
+}
+
+export interface IHarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface IHarWebsocketMessage {
+  type: 'send' | 'receive';
+  time: number;
+  opcode: 1 | 2;
+  data: string;
+}
+
+export interface IHarExportOptions {
+  tabId?: number;
+  includeBodies?: boolean;
+  includeWebsocketMessages?: boolean;
+}
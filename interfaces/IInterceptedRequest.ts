@@ -0,0 +1,64 @@
+import IResourceType from '@ulixee/unblocked-specification/agent/net/IResourceType';
+
+export default interface IInterceptedRequest {
+  interceptId: string;
+  url: string;
+  method: string;
+  headers: { [name: string]: string };
+  postData?: string;
+  resourceType: IResourceType;
+  // only set for requests intercepted at the response stage
+  response?: IInterceptedResponse;
+}
+
+export type IInterceptStage = 'request' | 'response';
+
+export interface IInterceptedResponse extends IInterceptBody {
+  statusCode: number;
+  headers: { [name: string]: string };
+}
+
+export interface IInterceptFilter {
+  url?: string | RegExp;
+  types?: IResourceType[];
+  method?: string;
+  // intercept before the request is sent (default), or once the server has responded
+  stage?: IInterceptStage;
+}
+
+// mirrors the devtools Network.ErrorReason values
+export type IInterceptAbortReason =
+  | 'Failed'
+  | 'Aborted'
+  | 'TimedOut'
+  | 'AccessDenied'
+  | 'ConnectionClosed'
+  | 'ConnectionReset'
+  | 'ConnectionRefused'
+  | 'ConnectionAborted'
+  | 'ConnectionFailed'
+  | 'NameNotResolved'
+  | 'InternetDisconnected'
+  | 'AddressUnreachable'
+  | 'BlockedByClient'
+  | 'BlockedByResponse';
+
+export interface IInterceptBody {
+  body?: string;
+  bodyEncoding?: 'base64';
+}
+
+export type IInterceptAction =
+  | { action: 'continue' }
+  | { action: 'abort'; reason?: IInterceptAbortReason }
+  | ({
+      action: 'fulfill';
+      statusCode?: number;
+      headers?: { [name: string]: string };
+    } & IInterceptBody)
+  | ({
+      action: 'rewrite';
+      url?: string;
+      method?: string;
+      headers?: { [name: string]: string };
+    } & IInterceptBody);
@@ -0,0 +1,7 @@
+import { IJsPath } from '@ulixee/js-path';
+
+export default interface ILiveQueryResolution {
+  jsPath: IJsPath;
+  previousNodeId?: number;
+  error: string;
+}
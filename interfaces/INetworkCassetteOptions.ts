@@ -0,0 +1,11 @@
+export type INetworkCassetteRecordMode = 'once' | 'new_episodes' | 'none';
+
+export type INetworkRequestMatchField = 'method' | 'url' | 'body';
+
+export default interface INetworkCassetteOptions {
+  // a name stored in the Core data directory, or a path to a .har file
+  name: string;
+  record?: INetworkCassetteRecordMode;
+  matchRequestsOn?: INetworkRequestMatchField[];
+  ignoreQueryParams?: string[];
+}
@@ -0,0 +1,31 @@
+export type IPdfPaperFormat =
+  | 'Letter'
+  | 'Legal'
+  | 'Tabloid'
+  | 'Ledger'
+  | 'A0'
+  | 'A1'
+  | 'A2'
+  | 'A3'
+  | 'A4'
+  | 'A5'
+  | 'A6';
+
+// all sizes are in inches
+export default interface IPdfOptions {
+  format?: IPdfPaperFormat;
+  // overrides the width/height of the format
+  width?: number;
+  height?: number;
+  margins?: { top?: number; bottom?: number; left?: number; right?: number };
+  landscape?: boolean;
+  printBackground?: boolean;
+  scale?: number;
+  // ie, '1-5, 8, 11-13'
+  pageRanges?: string;
+  // html templates. Can use the classes date, title, url, pageNumber and totalPages to inject values
+  headerTemplate?: string;
+  footerTemplate?: string;
+  // store the pdf in the session database under this name
+  name?: string;
+}
@@ -0,0 +1,3 @@
+export default interface IQuerySelectorOptions {
+  liveQuery?: boolean;
+}
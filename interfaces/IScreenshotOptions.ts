@@ -0,0 +1,22 @@
+import IBaseScreenshotOptions from '@ulixee/unblocked-specification/agent/browser/IScreenshotOptions';
+import { ISuperElement } from 'awaited-dom/base/interfaces/super';
+import { IJsPath } from '@ulixee/js-path';
+
+export type IScreenshotMaskStyle = 'blur' | 'fill';
+
+export default interface IScreenshotOptions extends IBaseScreenshotOptions {
+  // capture only the bounds of this element (scrolled into view first)
+  element?: ISuperElement;
+  // css selectors of regions to hide in the image (eg, input[type=password])
+  mask?: string[];
+  maskStyle?: IScreenshotMaskStyle;
+}
+
+export interface ICoreScreenshotOptions extends Omit<IScreenshotOptions, 'element'> {
+  element?: { frameId: number; jsPath: IJsPath };
+}
+
+export type IElementScreenshotOptions = Omit<
+  IScreenshotOptions,
+  'element' | 'fullPage' | 'rectangle'
+>;
@@ -2,6 +2,8 @@ import { IEmulationOptions } from '@ulixee/unblocked-specification/plugin/IEmula
 import IUserProfile from './IUserProfile';
 import ISessionOptions from './ISessionOptions';
 import IScriptInstanceMeta from './IScriptInstanceMeta';
+import ISessionRecordingOptions from './ISessionRecordingOptions';
+import INetworkCassetteOptions from './INetworkCassetteOptions';
 
 export default interface ISessionCreateOptions extends ISessionOptions, IEmulationOptions {
   sessionId?: string;
@@ -15,6 +17,10 @@ export default interface ISessionCreateOptions extends ISessionOptions, IEmulati
   scriptInstanceMeta?: IScriptInstanceMeta;
   userProfile?: IUserProfile;
   input?: any;
+  recording?: ISessionRecordingOptions;
+  networkFixture?: string;
+  networkFixtureUnmatched?: 'fail' | 'passThrough' | 'log';
+  networkCassette?: INetworkCassetteOptions;
 
   dependencyMap?: { [clientPluginId: string]: string[] };
   corePluginPaths?: string[];
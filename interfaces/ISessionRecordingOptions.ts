@@ -0,0 +1,18 @@
+// true/false turns a table on or off. A sampleRate (0-1) records only that share of the entries.
+export type IRecordingTablePolicy = boolean | { sampleRate: number };
+
+export default interface ISessionRecordingOptions {
+  devtoolsMessages?: IRecordingTablePolicy;
+  screenshots?: IRecordingTablePolicy;
+  domChanges?: IRecordingTablePolicy;
+  mouseEvents?: IRecordingTablePolicy;
+  focusEvents?: IRecordingTablePolicy;
+  scrollEvents?: IRecordingTablePolicy;
+  interactions?: IRecordingTablePolicy;
+  pageLogs?: IRecordingTablePolicy;
+  storageChanges?: IRecordingTablePolicy;
+  websocketMessages?: IRecordingTablePolicy;
+  resourceStates?: IRecordingTablePolicy;
+}
+
+export type IRecordingTableName = keyof ISessionRecordingOptions;
@@ -0,0 +1,16 @@
+import { registerSerializableErrorType } from '@ulixee/commons/lib/TypeSerializer';
+import { IJsPathError } from '@ulixee/js-path';
+
+/**
+ * Thrown when a command fails because the node its path points at is missing or no longer tracked.
+ */
+export default class NodeNotFoundError extends Error {
+  public code = 'NodeNotFound';
+
+  constructor(message: string, readonly pathState?: IJsPathError['pathState']) {
+    super(message);
+    this.name = 'NodeNotFoundError';
+  }
+}
+
+registerSerializableErrorType(NodeNotFoundError);
@@ -0,0 +1,5 @@
+// Converts a url pattern to a regex. Regex characters match literally and /* matches anything.
+export default function stringToRegex(str: string): RegExp {
+  const escaped = str.replace(/[-[/\]{}()*+?.,\\^$|#\s]/g, '\\$&').replace(/\\\/\\\*/g, '\\/.*');
+  return new RegExp(escaped);
+}
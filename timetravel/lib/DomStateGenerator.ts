@@ -197,6 +197,7 @@ export default class DomStateGenerator {
         continue;
       }
 
+      db.recordingPolicy.assertRecorded(sessionId, 'DomStateGenerator', 'domChanges');
       // get all dom changes since the last navigation
       const domChangeRecords = db.domChanges.getChangesSinceNavigation(lastNavigation.id);
       session.domRecording = DomChangesTable.toDomRecording(
@@ -7,8 +7,16 @@ import ResourcesTable, { IResourcesRecord } from '@ulixee/hero-core/models/Resou
 import SessionDb from '@ulixee/hero-core/dbs/SessionDb';
 import { Protocol } from '@ulixee/unblocked-specification/agent/browser/IDevtoolsSession';
 import { CanceledPromiseError } from '@ulixee/commons/interfaces/IPendingWaitEvent';
+import IHar, { IHarEntry } from '@ulixee/hero-interfaces/IHar';
 import Fetch = Protocol.Fetch;
 
+interface IMirrorNetworkResponse {
+  statusCode: number;
+  headers: { name: string; value: string }[];
+  body: Buffer;
+  isJavascript: boolean;
+}
+
 interface IMirrorNetworkConfig {
   headersFilter?: (string | RegExp)[];
   ignoreJavascriptRequests?: boolean;
@@ -67,9 +75,8 @@ export default class MirrorNetwork {
       };
     }
 
-    const key = `${method}_${url}`;
-    const matches = this.resourceLookup[key];
-    if (!matches?.length) {
+    const match = await this.findResource(method, url);
+    if (!match) {
       return {
         requestId: request.requestId,
         responseCode: 404,
@@ -77,42 +84,58 @@ export default class MirrorNetwork {
       };
     }
 
-    let match = matches[0];
-    if (!match.hasResponse && match.responsePromise) {
-      const responsePromise = match.responsePromise.promise;
-      this.waitForPendingResources.add(responsePromise);
-      match = await responsePromise;
-      this.waitForPendingResources.delete(responsePromise);
-    }
-
-    if (this.useResourcesOnce) {
-      matches.shift();
-    }
-
     if (
       this.ignoreJavascriptRequests &&
       (request.resourceType === 'Script' ||
-        matches[0].contentType.includes('json') ||
-        matches[0].contentType.includes('javascript'))
+        match.contentType.includes('json') ||
+        match.contentType.includes('javascript'))
     ) {
       return {
         requestId: request.requestId,
         responseCode: 200,
-        responseHeaders: [{ name: 'Content-Type', value: matches[0].contentType }],
+        responseHeaders: [{ name: 'Content-Type', value: match.contentType }],
         body: '',
       };
     }
 
-    const resource = await this.loadResourceDetails(match.id);
-    const { headers, contentEncoding, isJavascript } = this.getMockHeaders(resource);
-    if (this.ignoreJavascriptRequests && isJavascript) {
+    const response = await this.getResponse(match.id);
+    if (this.ignoreJavascriptRequests && response.isJavascript) {
       return {
         requestId: request.requestId,
         responseCode: 200,
-        responseHeaders: [{ name: 'Content-Type', value: matches[0].contentType }],
+        responseHeaders: [{ name: 'Content-Type', value: match.contentType }],
         body: '',
       };
     }
+    return {
+      requestId: request.requestId,
+      body: response.body?.toString('base64') ?? '',
+      responseHeaders: response.headers,
+      responseCode: response.statusCode,
+    };
+  }
+
+  public async findResource(method: string, url: string): Promise<IResourceSummary> {
+    const matches = this.resourceLookup[`${method}_${url}`];
+    if (!matches?.length) return null;
+
+    let match = matches[0];
+    if (!match.hasResponse && match.responsePromise) {
+      const responsePromise = match.responsePromise.promise;
+      this.waitForPendingResources.add(responsePromise);
+      match = await responsePromise;
+      this.waitForPendingResources.delete(responsePromise);
+    }
+
+    if (this.useResourcesOnce) {
+      matches.shift();
+    }
+    return match;
+  }
+
+  public async getResponse(resourceId: number): Promise<IMirrorNetworkResponse> {
+    const resource = await this.loadResourceDetails(resourceId);
+    const { headers, contentEncoding, isJavascript } = this.getMockHeaders(resource);
     let body = resource.body;
 
     // Chrome Devtools has an upstream issue that gzipped responses don't work, so we have to do it.. :(
@@ -124,12 +147,7 @@ export default class MirrorNetwork {
         1,
       );
     }
-    return {
-      requestId: request.requestId,
-      body: body?.toString('base64') ?? '',
-      responseHeaders: headers,
-      responseCode: resource.statusCode,
-    };
+    return { statusCode: resource.statusCode, headers, body, isJavascript };
   }
 
   public addRequestedResource(resource: IResourceSummary): void {
@@ -221,7 +239,8 @@ export default class MirrorNetwork {
 
       if (name === 'content-type' && header.includes('javascript')) {
         isJavascript = true;
-        break;
+        // javascript is blanked out when ignored, so the other headers aren't needed
+        if (this.ignoreJavascriptRequests) break;
       }
 
       if (Array.isArray(header)) {
@@ -258,6 +277,58 @@ export default class MirrorNetwork {
     return network;
   }
 
+  public static createFromHar(
+    har: IHar,
+    options: Partial<IMirrorNetworkConfig> = {},
+  ): MirrorNetwork {
+    const entries = har.log.entries;
+    options.loadResourceDetails ??= id => MirrorNetwork.loadResourceFromHarEntry(entries[id - 1]);
+    const network = new MirrorNetwork(options as IMirrorNetworkConfig);
+
+    const resources: IResourceSummary[] = [];
+    for (let i = 0; i < entries.length; i += 1) {
+      const entry = entries[i];
+      const { request, response, startedDateTime } = entry;
+      // failed requests have no response to replay
+      if (!response.status) continue;
+      resources.push({
+        // ids are 1-based positions in the entries list
+        id: i + 1,
+        url: request.url,
+        method: request.method,
+        tabId: null,
+        frameId: null,
+        statusCode: response.status,
+        type: (entry._resourceType as IResourceSummary['type']) ?? null,
+        redirectedToUrl: response.redirectURL || undefined,
+        timestamp: new Date(startedDateTime).getTime(),
+        hasResponse: true,
+        contentType: response.content?.mimeType ?? '',
+      });
+    }
+    network.setResources(resources, options.loadResourceDetails);
+    return network;
+  }
+
+  public static loadResourceFromHarEntry(entry: IHarEntry): ISessionResourceDetails {
+    const headers: Record<string, string | string[]> = {};
+    for (const { name, value } of entry.response.headers) {
+      // har bodies are stored decoded
+      if (name.toLowerCase() === 'content-encoding') continue;
+      const existing = headers[name];
+      if (existing === undefined) headers[name] = value;
+      else if (Array.isArray(existing)) existing.push(value);
+      else headers[name] = [existing, value];
+    }
+
+    const { text, encoding } = entry.response.content ?? {};
+    return {
+      statusCode: entry.response.status,
+      headers,
+      body: text ? Buffer.from(text, encoding === 'base64' ? 'base64' : 'utf8') : null,
+    };
+  }
+
   public static loadResourceFromDb(
     db: SessionDb,
     resourceId: number,